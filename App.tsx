@@ -1,38 +1,104 @@
-import React, { useState, useCallback } from 'react';
-import { Search, Github, AlertCircle, Layout, MessageSquare, Menu, X, Play, Code2, ExternalLink, Zap, Box, Globe, Sparkles, UploadCloud, Loader2 } from 'lucide-react';
-import { parseRepoUrl, fetchRepoDetails, fetchRepoTree, fetchFileContent, commitFileToGitHub } from './services/github';
-import { createChatStream } from './services/ai';
-import { RepoDetails, FileNode, FileContent, ChatMessage } from './types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { Search, Github, AlertCircle, Layout, MessageSquare, Menu, X, Play, Code2, ExternalLink, Zap, Box, Globe, Sparkles, UploadCloud, Settings, FolderOpen, FileArchive, Download, GitCompare } from 'lucide-react';
+import { loadHosts, saveHosts, getProvider, resolveRepoUrl, DEFAULT_HOSTS } from './services/providers';
+import { loadLlmSettings, saveLlmSettings, getLlm } from './services/models';
+import { AgentLimits, loadAgentLimits, saveAgentLimits } from './services/agent';
+import { HistorySummary } from './services/context';
+import { sortNodes, resolveRefPath, isSymlink, resolveSymlinkTarget, parseGitmodules, submoduleWebUrl } from './services/tree';
+import { createChatStream, CompareContext, RepoAccess, reviewPullRequest, planStepPrompt } from './services/ai';
+import { createCodeIndex, CodeIndexSource } from './services/search';
+import { buildRetrievalIndex, RetrievalIndex, RetrievedChunk } from './services/retrieval';
+import { DiffLine, formatUnifiedDiff, formatNumberedDiff, hunkLines, diffHunks, applyHunks, splitLines } from './services/diff';
+import { describeNonTextFile } from './services/files';
+import { loadCachedBlob } from './services/cache';
+import { ApiError } from './services/http';
+import { LocalWorkspace, openLocalFolder, openZipArchive, buildLocalTree, readLocalFile, exportWorkspace } from './services/local';
+import { RepoDetails, FileNode, FileContent, ChatMessage, GitRef, LineRange, RepoLocation, FileChange, PushRequest, PushResult, MergeConflict, RateLimitInfo, HostConfig, RepoProvider, CommitResult, RefComparison, ChangedFile, FileDiff, PullRequestInfo, ReviewComment, ReviewEvent, LlmSettings, LlmTask, LlmProvider, ProposedEdit, EditDecision, AgentTrace, AgentTraceEntry, ContextUsage, AgentPlan, PlanStep } from './types';
 import FileTree from './components/FileTree';
 import CodeViewer from './components/CodeViewer';
 import ChatPanel from './components/ChatPanel';
+import RefSelector from './components/RefSelector';
+import PushModal, { PendingFile } from './components/PushModal';
+import HostStatus from './components/HostStatus';
+import SettingsPanel from './components/SettingsPanel';
+import ComparePanel from './components/ComparePanel';
+import PullRequestPanel from './components/PullRequestPanel';
+import { DiffReview } from './components/DiffView';
+import EditReviewPanel from './components/EditReviewPanel';
+
+// Tokens per host id, kept for the browser session only
+const TOKENS_STORAGE_KEY = 'gitgenius.tokens';
+
+// Characters of numbered diff sent along with an AI review request
+const AI_REVIEW_BUDGET = 150000;
+
+// Files the retrieval index may fetch per build, beyond those already cached, and how soon a partial one is rebuilt
+const RETRIEVAL_FETCH_BUDGET = 100;
+const RETRIEVAL_REBUILD_MS = 5 * 60 * 1000;
+
+const loadTokens = (): Record<string, string> => {
+  try {
+    return JSON.parse(sessionStorage.getItem(TOKENS_STORAGE_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
 
 function App() {
   // State
   const [repoUrl, setRepoUrl] = useState('');
+  const [hosts, setHosts] = useState<HostConfig[]>(loadHosts);
+  // Host of the loaded repo (GitHub until another is opened)
+  const [provider, setProvider] = useState<RepoProvider>(() => getProvider(hosts.find(h => h.id === DEFAULT_HOSTS[0].id) ?? hosts[0]));
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [repoDetails, setRepoDetails] = useState<RepoDetails | null>(null);
+  const [refs, setRefs] = useState<GitRef[]>([]);
+  const [currentRef, setCurrentRef] = useState('');
   const [fileTree, setFileTree] = useState<FileNode[]>([]);
+  const [treeTruncated, setTreeTruncated] = useState(false);
+  // Latest tree for async flows (like the agent loop) that outlive the render they started in
+  const fileTreeRef = useRef<FileNode[]>([]);
+  fileTreeRef.current = fileTree;
   const [selectedFile, setSelectedFile] = useState<FileContent | null>(null);
+  const [highlightLines, setHighlightLines] = useState<LineRange | undefined>(undefined);
+  const [revealPath, setRevealPath] = useState<string | undefined>(undefined);
   const [viewMode, setViewMode] = useState<'code' | 'preview'>('code');
   const [previewRunner, setPreviewRunner] = useState<'official' | 'stackblitz' | 'codesandbox'>('stackblitz');
+  // Set while a local folder or zip is open instead of a hosted repo
+  const [workspace, setWorkspace] = useState<LocalWorkspace | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
   
   // File Content Cache & Modifications
   const [filesCache, setFilesCache] = useState<Record<string, string>>({});
   const [modifiedFiles, setModifiedFiles] = useState<Record<string, string>>({});
+  const modifiedFilesRef = useRef(modifiedFiles);
+  modifiedFilesRef.current = modifiedFiles;
+  const [deletedFiles, setDeletedFiles] = useState<string[]>([]);
+  // Blob SHA each edited file had when we loaded it (null for new files), checked against the remote on push
+  const [baseShas, setBaseShas] = useState<Record<string, string | null>>({});
   
-  // Push to GitHub State
+  // Push & Host State
   const [showPushModal, setShowPushModal] = useState(false);
-  const [githubToken, setGithubToken] = useState('');
-  const [commitMessage, setCommitMessage] = useState('Update files via GitGenius');
-  const [isPushing, setIsPushing] = useState(false);
-  const [pushStatus, setPushStatus] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [tokens, setTokens] = useState<Record<string, string>>(loadTokens);
+  const [rateLimit, setRateLimit] = useState<RateLimitInfo | null>(null);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  const [agentLimits, setAgentLimits] = useState<AgentLimits>(loadAgentLimits);
 
   // Chat State
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isChatOpen, setIsChatOpen] = useState(true);
   const [isStreaming, setIsStreaming] = useState(false);
+  // AI edits waiting for review, oldest first; the agent loop is paused on each one's resolver
+  const [proposedEdits, setProposedEdits] = useState<ProposedEdit[]>([]);
+  const editResolversRef = useRef<Record<string, (decision: EditDecision) => void>>({});
+  // Aborts the running chat request (Stop button)
+  const agentAbortRef = useRef<AbortController | null>(null);
+  // Earlier turns folded into a summary once the history outgrows the context budget, reused on later turns
+  const historySummaryRef = useRef<HistorySummary | null>(null);
+  const [contextUsage, setContextUsage] = useState<ContextUsage | null>(null);
   
   // Live App AI Edit
   const [showLiveAppEdit, setShowLiveAppEdit] = useState(false);
@@ -41,54 +107,256 @@ function App() {
   // Mobile/Layout State
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
 
+  // Ref comparison: the sidebar swaps the file tree for the changed-file list
+  const [sidebarView, setSidebarView] = useState<'files' | 'compare'>('files');
+  const [comparison, setComparison] = useState<RefComparison | null>(null);
+  const [compareLoading, setCompareLoading] = useState(false);
+  const [compareError, setCompareError] = useState<string | null>(null);
+  const [selectedDiff, setSelectedDiff] = useState<FileDiff | null>(null);
+  // Diffs of the current comparison by path, shared by the viewer and the chat agent. Replaced (not cleared) per comparison.
+  const diffsRef = useRef<Record<string, Promise<FileDiff>>>({});
+  // An opened pull request pins the comparison to its changes and collects a review draft
+  const [pullRequest, setPullRequest] = useState<PullRequestInfo | null>(null);
+  const [reviewComments, setReviewComments] = useState<ReviewComment[]>([]);
+
+  // A host's token is used for every request to it, reads included
+  useEffect(() => {
+    hosts.forEach(host => getProvider(host).setToken(tokens[host.id] || null));
+    sessionStorage.setItem(TOKENS_STORAGE_KEY, JSON.stringify(Object.fromEntries(Object.entries(tokens).filter(([, token]) => token))));
+  }, [hosts, tokens]);
+
+  useEffect(() => provider.subscribeToRateLimit(setRateLimit), [provider]);
+
+  const activeToken = tokens[provider.host.id] || '';
+  const setActiveToken = (token: string) => setTokens(prev => ({ ...prev, [provider.host.id]: token }));
+
+  const handleChangeLlmSettings = (next: LlmSettings) => {
+    setLlmSettings(next);
+    saveLlmSettings(next);
+  };
+
+  const handleChangeAgentLimits = (next: AgentLimits) => {
+    setAgentLimits(next);
+    saveAgentLimits(next);
+  };
+
+  const handleChangeHosts = (next: HostConfig[]) => {
+    setHosts(next);
+    saveHosts(next);
+    // Follow edits to the active host; fall back to GitHub if it was removed
+    const active = next.find(h => h.id === provider.host.id) ?? next.find(h => h.id === DEFAULT_HOSTS[0].id) ?? next[0];
+    setProvider(getProvider(active));
+  };
+
   // Helper to get all file paths for AI context
   const getAllFilePaths = (nodes: FileNode[]): string[] => {
     let paths: string[] = [];
     nodes.forEach(node => {
       if (node.type === 'blob') paths.push(node.path);
+      if (node.unloaded) paths.push(`${node.path}/`); // Folder not listed yet
       if (node.children) paths.push(...getAllFilePaths(node.children));
     });
     return paths;
   };
 
+  const findNode = (nodes: FileNode[], targetPath: string): FileNode | null => {
+      for (const node of nodes) {
+          if (node.path === targetPath) return node;
+          if (node.children) {
+              const found = findNode(node.children, targetPath);
+              if (found) return found;
+          }
+      }
+      return null;
+  };
+
+  const setDirectoryChildren = (nodes: FileNode[], dirPath: string, children: FileNode[]): FileNode[] => {
+      return nodes.map(n => {
+          if (n.path === dirPath) {
+              // Keep files created locally before the folder was expanded
+              const localOnly = (n.children ?? []).filter(c => !c.url && !children.some(x => x.path === c.path));
+              return { ...n, children: sortNodes([...children, ...localOnly]), unloaded: false };
+          }
+          if (n.children && dirPath.startsWith(`${n.path}/`)) return { ...n, children: setDirectoryChildren(n.children, dirPath, children) };
+          return n;
+      });
+  };
+
+  // Fetches the children of a folder left unloaded by a truncated tree
+  const loadDirectory = async (dir: FileNode, repo: RepoDetails | null = repoDetails, source: RepoProvider = provider, ref: string = currentRef): Promise<FileNode[]> => {
+      if (!dir.unloaded || !dir.sha || !repo) return dir.children ?? [];
+      const children = await source.fetchDirectory(repo.owner, repo.name, ref, dir);
+      setFileTree(prev => setDirectoryChildren(prev, dir.path, children));
+      return children;
+  };
+
+  // Finds a node by path, loading unloaded folders along the way
+  const resolveNode = async (
+      path: string,
+      tree: FileNode[] = fileTreeRef.current,
+      repo: RepoDetails | null = repoDetails,
+      source: RepoProvider = provider,
+      ref: string = currentRef
+  ): Promise<FileNode | null> => {
+      const parts = path.split('/').filter(Boolean);
+      let level = tree;
+      for (let i = 0; i < parts.length; i++) {
+          const node = level.find(n => n.name === parts[i]);
+          if (!node) return null;
+          if (i === parts.length - 1) return node;
+          if (node.type !== 'tree') return null;
+          level = node.unloaded ? await loadDirectory(node, repo, source, ref) : (node.children ?? []);
+      }
+      return null;
+  };
+
+  // Symlinks are blobs holding a relative path. Follows them (and links to links) to the node they point at.
+  const followSymlink = async (
+      link: FileNode,
+      source: RepoProvider = provider,
+      tree: FileNode[] = fileTreeRef.current,
+      repo: RepoDetails | null = repoDetails,
+      ref: string = currentRef
+  ): Promise<FileNode> => {
+      let node = link;
+      for (let hop = 0; hop < 8 && isSymlink(node); hop++) {
+          const file = await source.fetchFileContent(node);
+          const targetPath = file.kind === 'text' ? resolveSymlinkTarget(node.path, file.content) : null;
+          if (targetPath === null) throw new Error(`${node.path} is a symlink pointing outside the repository`);
+          const target = await resolveNode(targetPath, tree, repo, source, ref);
+          if (!target) throw new Error(`${node.path} is a symlink to ${targetPath}, which doesn't exist`);
+          node = target;
+      }
+      if (isSymlink(node)) throw new Error(`Too many levels of symlinks at ${link.path}`);
+      return node;
+  };
+
+  // Submodules open the commit they pin, in the repository .gitmodules names
+  const openSubmodule = async (node: FileNode) => {
+      if (!repoDetails || !node.sha) return;
+      try {
+          const gitmodules = await resolveNode('.gitmodules');
+          const file = gitmodules?.url ? await provider.fetchFileContent(gitmodules) : null;
+          const url = file?.kind === 'text' ? parseGitmodules(file.content)[node.path] : undefined;
+          if (!url) throw new Error(`${node.path} is a submodule, but .gitmodules doesn't say where it comes from`);
+
+          const webUrl = submoduleWebUrl(url, `${provider.host.webUrl}/${repoDetails.owner}/${repoDetails.name}`);
+          const resolved = webUrl ? resolveRepoUrl(webUrl, hosts) : null;
+          if (!webUrl || !resolved?.location) {
+              throw new Error(`Submodule ${node.path} comes from ${url}, which isn't on a configured git host. Add the host under Settings to open it.`);
+          }
+          setRepoUrl(webUrl);
+          await openRepo({ owner: resolved.location.owner, repo: resolved.location.repo, kind: 'tree', refPath: node.sha }, resolved.provider);
+      } catch (err) {
+          setError(err instanceof Error ? err.message : 'Failed to open submodule');
+      }
+  };
+
   const loadRepo = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!repoUrl) return;
 
-    const parsed = parseRepoUrl(repoUrl);
-    if (!parsed) {
-      setError('Invalid GitHub URL. Format: https://github.com/owner/repo');
+    const resolved = resolveRepoUrl(repoUrl.trim(), hosts);
+    if (!resolved) {
+      setError('Unknown git host. Add it under Settings, or use a link like https://github.com/owner/repo');
+      return;
+    }
+    if (!resolved.location) {
+      setError(`Invalid ${resolved.provider.host.label} URL. Link to a repository, e.g. ${resolved.provider.host.webUrl}/owner/repo`);
       return;
     }
 
-    setLoading(true);
+    await openRepo(resolved.location, resolved.provider);
+  };
+
+  // Stops the agent before the files it works on go away. Stopping withdraws its pending edits as rejected
+  // (see queueEditReview), so none of them lands in another repository or ref.
+  const stopAgentForReset = () => {
+    agentAbortRef.current?.abort();
+  };
+
+  // Clears everything tied to the open repository
+  const resetRepoState = () => {
+    stopAgentForReset();
     setError(null);
     setRepoDetails(null);
+    setRefs([]);
     setFileTree([]);
+    setTreeTruncated(false);
     setSelectedFile(null);
+    setHighlightLines(undefined);
+    setRevealPath(undefined);
     setMessages([]); // Reset chat for new repo
+    historySummaryRef.current = null;
+    setContextUsage(null);
     setViewMode('code'); // Reset view mode
     setModifiedFiles({}); // Reset modifications
+    setDeletedFiles([]);
+    setBaseShas({});
     setFilesCache({}); // Reset cache
+    setWorkspace(null);
+    setSidebarView('files');
+    setComparison(null);
+    setCompareError(null);
+    setSelectedDiff(null);
+    diffsRef.current = {};
+    setPullRequest(null);
+    setReviewComments([]);
+  };
+
+  const openRepo = async (location: RepoLocation, source: RepoProvider) => {
+    setLoading(true);
+    resetRepoState();
+    setProvider(source);
 
     try {
-      const details = await fetchRepoDetails(parsed.owner, parsed.repo);
+      const details = await source.fetchRepoDetails(location.owner, location.repo);
       setRepoDetails(details);
       
-      // Smart default for runner
-      if (details.homepage && (details.homepage.startsWith('http'))) {
+      // Smart default for runner (sandboxes can only import from github.com)
+      if ((details.homepage && (details.homepage.startsWith('http'))) || !source.sandboxPath(details.owner, details.name, details.defaultBranch)) {
           setPreviewRunner('official');
       } else {
           setPreviewRunner('stackblitz');
       }
 
-      const tree = await fetchRepoTree(parsed.owner, parsed.repo, details.defaultBranch);
+      // Refs are only needed for the picker and to split "<ref>/<path>", so don't fail the load on them
+      const repoRefs = await source.fetchRefs(details.owner, details.name).catch(() => [] as GitRef[]);
+      setRefs(repoRefs);
+
+      // Pull requests open at their head: the branch when it lives here, otherwise the head commit
+      const pr = location.kind === 'pull' && location.pullNumber
+        ? await source.fetchPullRequest(details.owner, details.name, location.pullNumber)
+        : null;
+      const { ref, path } = pr
+        ? { ref: !pr.isFork && repoRefs.some(r => r.type === 'branch' && r.name === pr.head) ? pr.head : pr.headSha, path: '' }
+        : location.refPath
+          ? resolveRefPath(location.refPath, repoRefs)
+          : { ref: details.defaultBranch, path: '' };
+      setCurrentRef(ref);
+
+      const { nodes: tree, truncated } = await source.fetchRepoTree(details.owner, details.name, ref);
       setFileTree(tree);
+      setTreeTruncated(truncated);
 
-      // Try to find README
-      const readmeNode = tree.find(n => n.name.toLowerCase() === 'readme.md');
-      if (readmeNode) {
-        handleSelectFile(readmeNode);
+      if (pr) {
+        setPullRequest(pr);
+        setSidebarView('compare');
+        runCompare(pr.mergeBase ?? pr.base, pr.headSha, source, details);
+      }
+
+      // Open whatever the link pointed at, otherwise try to find README
+      const target = path ? await resolveNode(path, tree, details, source, ref) : null;
+      if (target && target.type === 'blob') {
+        setRevealPath(target.path);
+        handleSelectFile(target, { lines: location.lines, fresh: true, source, tree, repo: details, ref });
+      } else {
+        if (target) setRevealPath(target.path);
+        const folder = target ? await loadDirectory(target, details, source, ref) : tree;
+        const readmeNode = folder.find(n => n.name.toLowerCase() === 'readme.md');
+        if (readmeNode) {
+          handleSelectFile(readmeNode, { fresh: true, source, tree, repo: details, ref });
+        }
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load repository');
@@ -97,8 +365,104 @@ function App() {
     }
   };
 
-  const handleSelectFile = async (node: FileNode) => {
+  // Opens a picked folder or uploaded zip. Local files are read from memory, so nothing else changes.
+  const openLocal = async (load: () => Promise<LocalWorkspace>) => {
+    setLoading(true);
+    resetRepoState();
+
+    try {
+      const local = await load();
+      if (local.files.size === 0) throw new Error('No files found (.git and node_modules are skipped)');
+      const tree = buildLocalTree(local);
+      setWorkspace(local);
+      setRepoDetails({ owner: 'local', name: local.name, description: '', defaultBranch: '', stars: 0 });
+      setCurrentRef('');
+      setFileTree(tree);
+
+      const readmeNode = tree.find(n => n.name.toLowerCase() === 'readme.md');
+      if (readmeNode) handleSelectFile(readmeNode, { fresh: true, local });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open local files');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExportZip = async () => {
+    if (!workspace) return;
+    const blob = await exportWorkspace(workspace, modifiedFiles, deletedFiles);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${workspace.name}.zip`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const switchRef = async (ref: string) => {
+    if (!repoDetails || ref === currentRef) return;
+    if (pendingChangeCount > 0 && !window.confirm(`Switching to "${ref}" will discard your ${pendingChangeCount} unpushed change(s). Continue?`)) {
+      return;
+    }
+
+    const previousPath = selectedFile?.path;
+    stopAgentForReset();
+    setLoading(true);
+    setError(null);
+    setFileTree([]);
+    setSelectedFile(null);
+    setHighlightLines(undefined);
+    setModifiedFiles({});
+    setDeletedFiles([]);
+    setBaseShas({});
+    setFilesCache({}); // Cache is keyed by path, so it's only valid for a single ref
+
+    try {
+      const { nodes: tree, truncated } = await provider.fetchRepoTree(repoDetails.owner, repoDetails.name, ref);
+      setCurrentRef(ref);
+      setFileTree(tree);
+      setTreeTruncated(truncated);
+
+      // Keep the same file open if it exists on the new ref
+      const node = previousPath ? await resolveNode(previousPath, tree, repoDetails, provider, ref) : null;
+      if (node) {
+        setRevealPath(node.path);
+        handleSelectFile(node, { fresh: true, tree, ref });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to load ref "${ref}"`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // `fresh` skips the cache, for callers that just reset it in the same render; `source` and `local` are for callers that just switched repos
+  // `source`, `tree`, `repo` and `ref` describe a repository that was opened in the same tick, before state caught up
+  const handleSelectFile = async (
+    node: FileNode,
+    options: { lines?: LineRange; fresh?: boolean; source?: RepoProvider; local?: LocalWorkspace; tree?: FileNode[]; repo?: RepoDetails; ref?: string } = {}
+  ) => {
     if (node.type === 'tree') return;
+    if (node.type === 'commit') {
+      openSubmodule(node);
+      return;
+    }
+    if (isSymlink(node) && node.url) {
+      setSelectedFile({ path: node.path, content: '', loading: true });
+      try {
+        const target = await followSymlink(node, options.source, options.tree, options.repo, options.ref);
+        setRevealPath(target.path);
+        if (target.type === 'tree') {
+          setSelectedFile(null);
+        } else {
+          handleSelectFile(target, options);
+        }
+      } catch (err) {
+        setSelectedFile({ path: node.path, content: '', loading: false, error: err instanceof Error ? err.message : 'Failed to follow symlink' });
+      }
+      return;
+    }
+    setHighlightLines(options.lines);
 
     // Reset view to code when selecting a file (unless we are already in live app mode)
     if (viewMode === 'preview' && previewRunner !== 'official') {
@@ -106,7 +470,7 @@ function App() {
     }
 
     // Check cache first
-    if (filesCache[node.path]) {
+    if (!options.fresh && filesCache[node.path]) {
         setSelectedFile({ path: node.path, content: filesCache[node.path], loading: false });
         return;
     }
@@ -114,8 +478,15 @@ function App() {
     // If it's a new local file not in cache yet (edge case), content is empty string initially if not in modifiedFiles
     // But typically insertFileIntoTree+updateFileContent handles this.
     
-    // For GitHub files
-    if (node.url) {
+    const local = options.local ?? workspace;
+    const localFile = local ? readLocalFile(local, node.path) : null;
+
+    if (localFile) {
+      // Files from an opened folder or zip
+      if (localFile.kind === 'text') setFilesCache(prev => ({ ...prev, [node.path]: localFile.content }));
+      setSelectedFile({ path: node.path, ...localFile, loading: false });
+    } else if (node.url) {
+      // Files from the host
       setSelectedFile(prev => ({ 
         path: node.path, 
         content: prev?.path === node.path ? prev.content : '', 
@@ -123,9 +494,10 @@ function App() {
       }));
 
       try {
-        const content = await fetchFileContent(node.url);
-        setFilesCache(prev => ({ ...prev, [node.path]: content }));
-        setSelectedFile({ path: node.path, content, loading: false });
+        const file = await (options.source ?? provider).fetchFileContent(node);
+        // Only text is cached: it's what edits and the AI work with
+        if (file.kind === 'text') setFilesCache(prev => ({ ...prev, [node.path]: file.content }));
+        setSelectedFile({ path: node.path, ...file, loading: false });
       } catch (err) {
         setSelectedFile({ 
           path: node.path, 
@@ -140,7 +512,13 @@ function App() {
     }
   };
 
+  // Remember the loaded blob SHA the first time a file is touched
+  const recordBaseSha = (path: string) => {
+    setBaseShas(prev => path in prev ? prev : { ...prev, [path]: findNode(fileTree, path)?.sha ?? null });
+  };
+
   const updateFileContent = (path: string, newContent: string) => {
+    recordBaseSha(path);
     setModifiedFiles(prev => ({
         ...prev,
         [path]: newContent
@@ -150,6 +528,8 @@ function App() {
         ...prev,
         [path]: newContent
     }));
+    // Writing to a file staged for deletion brings it back
+    setDeletedFiles(prev => prev.filter(p => p !== path));
   };
 
   const discardFileChanges = (path: string) => {
@@ -164,84 +544,423 @@ function App() {
       // But typically discard just affects UI view.
   };
 
-  const handlePushToGitHub = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!repoDetails || !githubToken) return;
+  const removeFileFromTree = (nodes: FileNode[], filePath: string): FileNode[] => {
+      return nodes
+          .filter(n => n.path !== filePath)
+          .map(n => n.children ? { ...n, children: removeFileFromTree(n.children, filePath) } : n);
+  };
 
-    setIsPushing(true);
-    setPushStatus('Initializing push...');
-    
-    try {
-        const filesToPush = Object.entries(modifiedFiles);
-        let count = 0;
-
-        for (const [path, content] of filesToPush) {
-            setPushStatus(`Pushing ${path} (${count + 1}/${filesToPush.length})...`);
-            
-            await commitFileToGitHub(
-                repoDetails.owner,
-                repoDetails.name,
-                path,
-                content,
-                githubToken,
-                commitMessage,
-                repoDetails.defaultBranch
-            );
-            count++;
+  const deleteFile = (path: string) => {
+      const node = findNode(fileTree, path);
+      setModifiedFiles(prev => {
+          const next = { ...prev };
+          delete next[path];
+          return next;
+      });
+
+      if (node?.url || workspace?.files.has(path)) {
+          // Exists remotely (or in the opened folder/zip): keep it visible (struck through) until the deletion is pushed or exported
+          recordBaseSha(path);
+          setDeletedFiles(prev => prev.includes(path) ? prev : [...prev, path]);
+      } else {
+          // Never pushed, so there's nothing to delete remotely
+          setFileTree(prev => removeFileFromTree(prev, path));
+          setFilesCache(prev => {
+              const next = { ...prev };
+              delete next[path];
+              return next;
+          });
+          if (selectedFile?.path === path) setSelectedFile(null);
+      }
+  };
+
+  const restoreFile = (path: string) => {
+      setDeletedFiles(prev => prev.filter(p => p !== path));
+  };
+
+  // Compares each changed file's recorded base SHA with the remote at `headSha`
+  const detectConflicts = async (changes: FileChange[], headSha: string): Promise<MergeConflict[]> => {
+    if (!repoDetails) return [];
+    const { owner, name } = repoDetails;
+
+    const results = await Promise.all(changes.map(async (change): Promise<MergeConflict | null> => {
+        const baseSha = baseShas[change.path] ?? findNode(fileTree, change.path)?.sha ?? null;
+        const remote = await provider.fetchFileAtRef(owner, name, change.path, headSha);
+        if ((remote?.sha ?? null) === baseSha) return null;
+        // Already matches what we're pushing, e.g. someone made the same fix
+        if (remote && remote.content === change.content) return null;
+
+        return {
+            path: change.path,
+            base: baseSha ? await provider.fetchBlobText(owner, name, baseSha) : '',
+            ours: change.content,
+            theirs: remote ? remote.content : null,
+        };
+    }));
+    return results.filter((c): c is MergeConflict => c !== null);
+  };
+
+  const handlePush = async (request: PushRequest, onProgress: (status: string) => void): Promise<PushResult> => {
+    if (!repoDetails) throw new Error('No repository loaded');
+
+    let changes: FileChange[] = [
+        ...Object.entries(modifiedFiles).map(([path, content]) => ({ path, content, mode: findNode(fileTree, path)?.mode })),
+        ...deletedFiles.map(path => ({ path, content: null, mode: findNode(fileTree, path)?.mode })),
+    ];
+
+    // Conflicts are checked against the branch the commit will be built on
+    const targetBranch = request.mode === 'direct' ? request.branch : (request.baseBranch || repoDetails.defaultBranch);
+    let headSha: string;
+    if (request.resolved) {
+        headSha = request.resolved.headSha;
+        const resolvedFiles = request.resolved.files;
+        changes = changes.map(c => c.path in resolvedFiles ? { ...c, content: resolvedFiles[c.path] } : c);
+    } else {
+        onProgress(`Reading ${targetBranch}...`);
+        headSha = await provider.fetchBranchHead(repoDetails.owner, repoDetails.name, targetBranch);
+        onProgress('Checking for remote changes...');
+        const conflicts = await detectConflicts(changes, headSha);
+        if (conflicts.length > 0) return { status: 'conflicts', headSha, conflicts };
+    }
+
+    let commit: CommitResult;
+    let pullRequestUrl: string | undefined;
+    if (request.mode === 'direct') {
+        commit = await provider.commitToBranch(
+            repoDetails.owner,
+            repoDetails.name,
+            changes,
+            request.commitMessage,
+            request.branch,
+            onProgress,
+            headSha
+        );
+    } else {
+        // Where the new branch lives: the repo itself, or the user's fork of it
+        let target = { owner: repoDetails.owner, name: repoDetails.name };
+        if (request.useFork) {
+            onProgress('Finding your fork...');
+            const access = await provider.fetchPushAccess(repoDetails.owner, repoDetails.name);
+            if (!access.fork) onProgress(`Forking ${repoDetails.owner}/${repoDetails.name}...`);
+            target = access.fork ?? await provider.forkRepo(repoDetails.owner, repoDetails.name);
         }
-        
-        setPushStatus('Success! All files updated.');
-        setModifiedFiles({}); // Clear local modifications as they are now remote
-        setTimeout(() => {
-            setShowPushModal(false);
-            setIsPushing(false);
-            setPushStatus(null);
-        }, 1500);
 
-    } catch (err) {
-        setPushStatus(null);
-        setIsPushing(false);
-        setError(err instanceof Error ? err.message : 'Failed to push changes');
-        setShowPushModal(false); // Close modal to show global error
+        commit = await provider.commitToNewBranch(
+            target.owner,
+            target.name,
+            changes,
+            request.commitMessage,
+            request.branch,
+            headSha,
+            onProgress
+        );
+
+        onProgress('Opening pull request...');
+        const pr = await provider.createPullRequest(repoDetails.owner, repoDetails.name, {
+            title: request.prTitle || request.commitMessage,
+            body: request.prBody || '',
+            branch: request.branch,
+            base: targetBranch,
+            fork: request.useFork ? target : undefined,
+        });
+        pullRequestUrl = pr.url;
     }
+
+    // The loaded ref itself moved, so pushed files now have new base blobs
+    if (request.mode === 'direct' && request.branch === currentRef) {
+        const pushed = commit.files;
+        const updateShas = (nodes: FileNode[]): FileNode[] => nodes.map(n => {
+            if (pushed[n.path]) return { ...n, ...pushed[n.path] };
+            return n.children ? { ...n, children: updateShas(n.children) } : n;
+        });
+        setFileTree(prev => updateShas(prev));
+    }
+
+    setModifiedFiles({}); // Clear local modifications as they are now remote
+    setFileTree(prev => deletedFiles.reduce(removeFileFromTree, prev));
+    if (selectedFile && deletedFiles.includes(selectedFile.path)) setSelectedFile(null);
+    setDeletedFiles([]);
+    setBaseShas({});
+    return { status: 'pushed', commitUrl: commit.url, pullRequestUrl };
   };
 
+  const pendingChangeCount = Object.keys(modifiedFiles).length + deletedFiles.length;
+
+  // Tags and commits can't be pushed to. If refs failed to load, let the API decide.
+  const canPushToCurrentRef = refs.length === 0 || refs.some(r => r.type === 'branch' && r.name === currentRef);
+
   const handleFetchFileForAI = async (path: string): Promise<string> => {
-      // 1. Check if modified
-      if (modifiedFiles[path]) return modifiedFiles[path];
+      // 1. Check if modified (the ref, so edits accepted earlier in this run count, emptied files too)
+      const modified = modifiedFilesRef.current[path];
+      if (modified !== undefined) return modified;
       // 2. Check cache
       if (filesCache[path]) return filesCache[path];
 
-      // 3. Fetch from GitHub
-      // We need the URL. The fileTree has the URL.
-      // Helper to find node
-      const findNode = (nodes: FileNode[], targetPath: string): FileNode | null => {
+      // 3. Fetch from the host (the fileTree has the URL, possibly in a folder that isn't loaded yet)
+      const node = findNode(fileTreeRef.current, path) ?? await resolveNode(path);
+      if (!node) {
+          // It might be a new file that was just created but not yet in tree? 
+          // Or AI hallucinates. A 404 like the host's, so the agent can tell it from a failed read.
+          throw new ApiError(`File ${path} not found in repository.`, 404);
+      }
+      if (node.type !== 'blob') throw new Error(`${path} is ${node.type === 'tree' ? 'a folder' : 'a submodule'}, not a file.`);
+      if (isSymlink(node) && node.url) {
+          const target = await followSymlink(node);
+          return handleFetchFileForAI(target.path);
+      }
+
+      const localFile = workspace ? readLocalFile(workspace, path) : null;
+      if (!node.url && !localFile) return ""; // Local file without content?
+
+      const file = localFile ?? await provider.fetchFileContent(node);
+      if (file.kind !== 'text') return describeNonTextFile(path, file);
+      
+      // Update cache
+      setFilesCache(prev => ({ ...prev, [path]: file.content }));
+      return file.content;
+  };
+
+  // Files for the agent's code index: the loaded tree, or everything under `scope`, loading its folders on the way
+  const listFilesForAI = async (scope: string) => {
+      const files: FileNode[] = [];
+      const unloaded: string[] = [];
+      let loads = 0;
+      const walk = async (nodes: FileNode[]) => {
           for (const node of nodes) {
-              if (node.path === targetPath) return node;
-              if (node.children) {
-                  const found = findNode(node.children, targetPath);
-                  if (found) return found;
+              if (node.type === 'blob') {
+                  if (!deletedFiles.includes(node.path)) files.push(node);
+              } else if (node.type === 'tree') {
+                  if (node.unloaded && scope && loads < 50) {
+                      loads++;
+                      await walk(await loadDirectory(node));
+                  } else if (node.unloaded) {
+                      unloaded.push(`${node.path}/`);
+                  } else {
+                      await walk(node.children ?? []);
+                  }
               }
           }
-          return null;
       };
+      if (scope) {
+          const node = await resolveNode(scope);
+          if (!node) throw new Error(`${scope} not found in repository.`);
+          await walk([node]);
+      } else {
+          await walk(fileTreeRef.current);
+      }
+      return { files, unloaded };
+  };
 
-      const node = findNode(fileTree, path);
-      if (!node) {
-          // It might be a new file that was just created but not yet in tree? 
-          // Or AI hallucinates.
-          throw new Error(`File ${path} not found in repository.`);
+  const fetchTextForIndex = async (node: FileNode): Promise<string | null> => {
+      const localFile = workspace ? readLocalFile(workspace, node.path) : null;
+      if (!node.url && !localFile) return null;
+      const file = localFile ?? await provider.fetchFileContent(node);
+      return file.kind === 'text' ? file.content : null;
+  };
+
+  const listDirectoryForAI = async (path: string): Promise<string[]> => {
+      const dir = path ? await resolveNode(path) : null;
+      if (path && !dir) throw new Error(`${path} not found in repository.`);
+      if (dir && dir.type !== 'tree') throw new Error(`${path} is ${dir.type === 'blob' ? 'a file' : 'a submodule'}, not a folder.`);
+      const children = dir ? (dir.unloaded ? await loadDirectory(dir) : dir.children ?? []) : fileTreeRef.current;
+      return children
+          .filter(node => !deletedFiles.includes(node.path))
+          .map(node => node.type === 'tree' ? `${node.name}/` : node.type === 'commit' ? `${node.name} (submodule)` : isSymlink(node) ? `${node.name} (symlink)` : node.name);
+  };
+
+  // One code index for the session: contents are kept by blob SHA, which is valid across repos and refs.
+  // The source is swapped in every render so the index always sees the current tree and edits.
+  const indexSourceRef = useRef<CodeIndexSource | null>(null);
+  indexSourceRef.current = { listFiles: listFilesForAI, edited: path => modifiedFilesRef.current[path], fetch: fetchTextForIndex };
+  const [codeIndex] = useState(() => createCodeIndex({
+      listFiles: scope => indexSourceRef.current!.listFiles(scope),
+      edited: path => indexSourceRef.current!.edited(path),
+      fetch: node => indexSourceRef.current!.fetch(node),
+  }));
+
+  // Index text that needs no request: local files, files opened this session, blobs in the offline cache
+  const cachedTextForIndex = async (node: FileNode): Promise<string | null | undefined> => {
+      if (workspace) return fetchTextForIndex(node);
+      if (filesCache[node.path] !== undefined) return filesCache[node.path];
+      const cached = node.sha ? await loadCachedBlob(node.sha) : undefined;
+      return cached ? (cached.kind === 'text' ? cached.content : null) : undefined;
+  };
+
+  // Retrieval index for the open repo and ref. It builds in the background from contents already at hand plus
+  // a few fetches, so a question never waits for it and browsing keeps its rate limit; until it's ready,
+  // questions go without related code. Complete indexes are stored under the commit SHA, so reopening the
+  // same commit is instant. Partial ones are rebuilt now and then, picking up files opened since.
+  const retrievalRef = useRef<{ id: string; index: RetrievalIndex | null; building: boolean; startedAt: number } | null>(null);
+  const retrieveRelated = async (llm: LlmProvider, query: string, signal?: AbortSignal): Promise<RetrievedChunk[]> => {
+      const commit = refs.find(r => r.name === currentRef)?.sha ?? (/^[0-9a-f]{40}$/i.test(currentRef) ? currentRef : null);
+      const repoId = workspace ? `local:${workspace.name}` : `${provider.host.id}:${repoDetails?.owner}/${repoDetails?.name}`.toLowerCase();
+      const key = !workspace && commit ? `${repoId}@${commit}` : null;
+      const id = `${repoId}@${commit ?? currentRef}:${llm.config.provider}:${llm.config.embeddingModel}`;
+      if (retrievalRef.current?.id !== id) retrievalRef.current = { id, index: null, building: false, startedAt: 0 };
+
+      const entry = retrievalRef.current;
+      const stale = !entry.index || (!entry.index.complete && Date.now() - entry.startedAt > RETRIEVAL_REBUILD_MS);
+      if (!entry.building && stale) {
+          entry.building = true;
+          entry.startedAt = Date.now();
+          // A quarter of what's left of the host's rate limit, so an unauthenticated session isn't used up
+          const fetchBudget = rateLimit ? Math.min(RETRIEVAL_FETCH_BUDGET, Math.floor(rateLimit.remaining / 4)) : RETRIEVAL_FETCH_BUDGET;
+          listFilesForAI('')
+              .then(({ files }) => buildRetrievalIndex({ key, files, cached: cachedTextForIndex, read: fetchTextForIndex, fetchBudget, llm }))
+              .then(index => { entry.index = index; })
+              // A failed build is retried on the next turn
+              .catch(e => console.warn('Building the retrieval index failed', e))
+              .finally(() => { entry.building = false; });
       }
+      signal?.throwIfAborted();
+      return entry.index ? entry.index.retrieve(query) : [];
+  };
 
-      if (!node.url) return ""; // Local file without content?
+  // Citations like `src/App.tsx:42` in chat answers open the file at that line
+  const handleOpenCitation = async (path: string, lines?: LineRange) => {
+      const node = findNode(fileTreeRef.current, path) ?? await resolveNode(path);
+      if (!node || node.type !== 'blob') return;
+      setRevealPath(node.path);
+      handleSelectFile(node, { lines });
+  };
 
-      const content = await fetchFileContent(node.url);
-      
-      // Update cache
-      setFilesCache(prev => ({ ...prev, [path]: content }));
-      return content;
+  // `source` and `repo` are for callers that just opened the repository
+  const runCompare = async (base: string, head: string, source = provider, repo = repoDetails) => {
+    if (!repo) return;
+    setCompareLoading(true);
+    setCompareError(null);
+    setComparison(null);
+    setSelectedDiff(null);
+    diffsRef.current = {};
+    try {
+      setComparison(await source.compareRefs(repo.owner, repo.name, base, head));
+    } catch (err) {
+      setCompareError(err instanceof Error ? err.message : 'Failed to compare refs');
+    } finally {
+      setCompareLoading(false);
+    }
   };
 
+  // Reads both sides of a changed file: the old one at the merge base, the new one at head
+  const loadFileDiff = (file: ChangedFile, compared: RefComparison): Promise<FileDiff> => {
+    const diffs = diffsRef.current;
+    if (!diffs[file.path]) {
+      const { owner, name } = repoDetails!;
+      const read = async (path: string, ref: string) => (await provider.fetchFileAtRef(owner, name, path, ref))?.content ?? null;
+      diffs[file.path] = Promise.all([
+        file.status === 'added' ? null : read(file.previousPath ?? file.path, compared.mergeBase),
+        file.status === 'removed' ? null : read(file.path, compared.head),
+      ]).then(
+        ([oldContent, newContent]): FileDiff => ({ file, base: compared.base, head: compared.head, oldContent, newContent }),
+        (err): FileDiff => {
+          delete diffs[file.path]; // Let the next attempt retry
+          return { file, base: compared.base, head: compared.head, oldContent: null, newContent: null, error: err instanceof Error ? err.message : 'Failed to load diff' };
+        }
+      );
+    }
+    return diffs[file.path];
+  };
+
+  const handleSelectDiff = async (file: ChangedFile) => {
+    if (!comparison) return;
+    const diffs = diffsRef.current;
+    setSelectedDiff({ file, base: comparison.base, head: comparison.head, oldContent: null, newContent: null, loading: true });
+    const diff = await loadFileDiff(file, comparison);
+    // Drop the answer if another file or comparison was picked meanwhile
+    if (diffsRef.current === diffs) setSelectedDiff(prev => (prev?.file.path === file.path ? diff : prev));
+  };
+
+  // Asks the AI to review every readable diff of the pull request and turns its findings into draft comments
+  const handleAiReview = async (): Promise<{ summary: string; notes: string[] }> => {
+    if (!pullRequest || !comparison) throw new Error('The pull request changes are not loaded yet');
+    if (reviewComments.length > 0 && !window.confirm(`Replace your ${reviewComments.length} draft comment(s) with the AI review?`)) {
+      return { summary: '', notes: [] };
+    }
+    const compared = comparison;
+
+    // Read the diffs a few at a time until the prompt budget runs out
+    const reviewed: { file: ChangedFile; diff: string; lines: DiffLine[] }[] = [];
+    const skipped: string[] = [];
+    let budget = AI_REVIEW_BUDGET;
+    for (let i = 0; i < compared.files.length; i += 6) {
+      const batch = compared.files.slice(i, i + 6);
+      if (budget < 1000) {
+        skipped.push(...batch.map(f => f.path));
+        continue;
+      }
+      for (const diff of await Promise.all(batch.map(f => loadFileDiff(f, compared)))) {
+        const oldText = diff.oldContent ?? '';
+        const newText = diff.newContent ?? '';
+        const text = diff.error || oldText.includes('\0') || newText.includes('\0') ? null : formatNumberedDiff(oldText, newText);
+        if (!text || text.length > budget) {
+          skipped.push(diff.file.path);
+          continue;
+        }
+        budget -= text.length;
+        reviewed.push({ file: diff.file, diff: text, lines: hunkLines(oldText, newText) });
+      }
+    }
+    if (reviewed.length === 0) throw new Error('None of the changed files could be read as text');
+
+    const result = await reviewPullRequest(getLlm(llmSettings.chat), pullRequest, reviewed, skipped);
+
+    // Hosts only accept comments on lines inside the hunks, so findings pointing elsewhere are dropped
+    let dropped = 0;
+    const comments: ReviewComment[] = [];
+    result.comments.forEach((finding, i) => {
+      const target = reviewed.find(r => r.file.path === finding.path || r.file.previousPath === finding.path);
+      const line = finding.side === 'new'
+        ? target?.lines.find(l => l.newLine === finding.line)
+        : target?.lines.find(l => l.oldLine === finding.line && l.type === 'delete') ?? target?.lines.find(l => l.oldLine === finding.line);
+      if (!target || !line || !finding.body?.trim()) {
+        dropped++;
+        return;
+      }
+      comments.push({
+        id: `${Date.now()}-${i}`,
+        path: target.file.path,
+        previousPath: target.file.previousPath,
+        oldLine: line.oldLine,
+        newLine: line.newLine,
+        body: finding.body.trim(),
+      });
+    });
+    setReviewComments(comments);
+
+    const notes: string[] = [];
+    if (skipped.length > 0) notes.push(`${skipped.length} file(s) were too large, binary or unreadable and weren't reviewed.`);
+    if (dropped > 0) notes.push(`${dropped} comment(s) didn't point at a line of the diff and were left out.`);
+    return { summary: result.summary, notes };
+  };
+
+  const handleSubmitReview = async (body: string, event: ReviewEvent): Promise<string> => {
+    if (!pullRequest || !repoDetails) throw new Error('No pull request is open');
+    const comments = reviewComments.filter(c => c.body.trim());
+    const { url } = await provider.submitReview(repoDetails.owner, repoDetails.name, pullRequest, { body, event, comments });
+    setReviewComments([]);
+    return url;
+  };
+
+  // Line comments for the diff on screen
+  const diffReview: DiffReview | undefined = pullRequest && selectedDiff ? {
+    comments: reviewComments.filter(c => c.path === selectedDiff.file.path),
+    onAdd: (line) => setReviewComments(prev => [...prev, {
+      id: Date.now().toString(),
+      path: selectedDiff.file.path,
+      previousPath: selectedDiff.file.previousPath,
+      oldLine: line.oldLine,
+      newLine: line.newLine,
+      body: '',
+    }]),
+    onUpdate: (id, body) => setReviewComments(prev => prev.map(c => (c.id === id ? { ...c, body } : c))),
+    onDelete: (id) => setReviewComments(prev => prev.filter(c => c.id !== id)),
+  } : undefined;
+
+  const commentCounts = reviewComments.reduce<Record<string, number>>((counts, c) => {
+    if (c.body.trim()) counts[c.path] = (counts[c.path] ?? 0) + 1;
+    return counts;
+  }, {});
+
   const insertFileIntoTree = useCallback((nodes: FileNode[], filePath: string): FileNode[] => {
       const parts = filePath.split('/');
       const fileName = parts.pop()!;
@@ -302,99 +1021,308 @@ function App() {
       return insertRecursive(nodes, 0);
   }, []);
 
-  const handleSendMessage = async (text: string, image?: string) => {
-    const newUserMsg: ChatMessage = {
-      id: Date.now().toString(),
-      role: 'user',
-      text,
-      timestamp: Date.now(),
-      image
-    };
-
-    setMessages(prev => [...prev, newUserMsg]);
-    setIsStreaming(true);
-
-    try {
+  // What a chat run gets from the workspace as it is now: the open file or diff, the comparison being
+  // browsed, the file list and read access to the repository
+  const chatWorkspace = (llm: LlmProvider) => {
       // Pass the currently selected file context if available
       const currentContent = selectedFile 
           ? (modifiedFiles[selectedFile.path] || selectedFile.content) 
           : '';
 
-      const context = selectedFile && !selectedFile.loading && !selectedFile.error 
-        ? { path: selectedFile.path, content: currentContent }
-        : undefined;
+      const unifiedDiff = (diff: FileDiff) =>
+        formatUnifiedDiff(diff.file.path, diff.oldContent, diff.newContent, 3, diff.file.previousPath ?? diff.file.path);
 
-      // Get full file structure
-      const allPaths = getAllFilePaths(fileTree);
+      // An open diff takes the place of the open file
+      const openDiff = sidebarView === 'compare' && selectedDiff && !selectedDiff.loading && !selectedDiff.error ? selectedDiff : null;
+      const context = openDiff
+        ? { path: `${openDiff.file.path} (diff ${openDiff.base}...${openDiff.head})`, content: unifiedDiff(openDiff) }
+        : selectedFile && !selectedFile.loading && !selectedFile.error && (selectedFile.kind ?? 'text') === 'text'
+          ? { path: selectedFile.path, content: currentContent }
+          : undefined;
 
-      const onToolCall = (toolCall: any) => {
-          if (toolCall.name === 'update_file') {
-              const { code, description, path } = toolCall.args;
-              
-              // Target path: prefer explicit arg, fallback to active file
-              const targetPath = path || selectedFile?.path;
-
-              if (targetPath) {
-                  updateFileContent(targetPath, code);
-                  
-                  // NEW: Update tree to show new file if it was created
-                  setFileTree(prev => insertFileIntoTree(prev, targetPath));
-                  
-                  // If we updated the currently viewing file, ensure UI reflects it
-                  if (selectedFile && targetPath === selectedFile.path) {
-                     // Force refresh if needed, state update handled by modifiedFiles effect in CodeViewer
-                     if (targetPath.endsWith('.html')) {
-                        setViewMode('code'); 
-                     }
-                  }
-              }
-          }
+      const compared = comparison;
+      const compareContext: CompareContext | undefined = sidebarView === 'compare' && compared ? {
+          base: compared.base,
+          head: compared.head,
+          files: compared.files,
+          readDiff: async (path) => {
+              const file = compared.files.find(f => f.path === path || f.previousPath === path);
+              if (!file) throw new Error(`${path} is not changed between ${compared.base} and ${compared.head}.`);
+              const diff = await loadFileDiff(file, compared);
+              if (diff.error) throw new Error(diff.error);
+              return unifiedDiff(diff);
+          },
+      } : undefined;
+
+      const repoAccess: RepoAccess = {
+          readFile: handleFetchFileForAI,
+          listDirectory: listDirectoryForAI,
+          index: codeIndex,
+          retrieve: (query, signal) => retrieveRelated(llm, query, signal),
+      };
+
+      return { context, compareContext, allPaths: getAllFilePaths(fileTree), repoAccess };
+  };
+
+  // Queues an edit for review; the run waits on the returned promise
+  const queueEditReview = (abort: AbortController) => (edit: Omit<ProposedEdit, 'id'>) => new Promise<EditDecision>(resolve => {
+      const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      editResolversRef.current[id] = resolve;
+      setProposedEdits(prev => [...prev, { ...edit, id }]);
+      // Stopping the run withdraws its pending edits, as if they were rejected
+      abort.signal.addEventListener('abort', () => {
+          if (!editResolversRef.current[id]) return;
+          delete editResolversRef.current[id];
+          setProposedEdits(prev => prev.filter(e => e.id !== id));
+          resolve({ status: 'rejected', content: edit.original, acceptedHunks: 0, totalHunks: 0 });
+      }, { once: true });
+  });
+
+  // Runs the agent on `history` (ending with the user's turn) and streams its answer into the bot message
+  // `botMsgId`, which is created on first use and appended to after that. Returns how the run ended and what it wrote.
+  const streamAgentRun = async (
+      llm: LlmProvider,
+      history: ChatMessage[],
+      botMsgId: string,
+      abort: AbortController,
+      trace: AgentTrace,
+      options: { onProposeEdit?: (edit: Omit<ProposedEdit, 'id'>) => Promise<EditDecision>; onProposePlan?: (steps: { title: string; files: string[] }[]) => void } = {}
+  ) => {
+      const { context, compareContext, allPaths, repoAccess } = chatWorkspace(llm);
+      let outcome: 'done' | 'stopped' | 'limit' | 'error' = 'done';
+
+      // Recorded for the activity timeline under the answer; retrieval may report before the message exists
+      const onTrace = (entry: AgentTraceEntry) => {
+          if (entry.type === 'end') outcome = entry.outcome;
+          trace.entries = [...trace.entries, entry];
+          const snapshot = { ...trace };
+          setMessages(prev => prev.map(msg => msg.id === botMsgId ? { ...msg, trace: snapshot } : msg));
       };
 
       // Create stream with agentic capabilities
       const stream = await createChatStream(
-          [...messages, newUserMsg], 
+          llm,
+          history,
           allPaths,
           context, 
-          onToolCall,
-          handleFetchFileForAI
+          options.onProposeEdit ?? queueEditReview(abort),
+          repoAccess,
+          compareContext,
+          {
+              signal: abort.signal,
+              limits: agentLimits,
+              onTrace,
+              summary: historySummaryRef.current,
+              onContext: (usage, summary) => {
+                  historySummaryRef.current = summary;
+                  setContextUsage(usage);
+              },
+              onProposePlan: options.onProposePlan,
+          }
       );
-      
-      let botMsgId = (Date.now() + 1).toString();
-      let fullResponse = '';
 
-      setMessages(prev => [...prev, {
+      setMessages(prev => prev.some(msg => msg.id === botMsgId) ? prev : [...prev, {
         id: botMsgId,
         role: 'model',
         text: '',
         timestamp: Date.now(),
-        isStreaming: true
+        isStreaming: true,
+        trace: { ...trace }
       }]);
 
+      let text = '';
       for await (const chunk of stream) {
-        fullResponse += chunk;
+        text += chunk;
         setMessages(prev => prev.map(msg => 
-          msg.id === botMsgId ? { ...msg, text: fullResponse } : msg
+          msg.id === botMsgId ? { ...msg, text: msg.text + chunk } : msg
         ));
       }
+      return { outcome, text };
+  };
 
+  // Ends a bot message the way a stopped agent run does, adding it if the run was stopped before it streamed anything
+  const appendStopped = (botMsgId: string) => {
+      const stopped = '*⏹ Stopped.*';
+      // An empty chat was cleared by switching repositories, which stopped the run
+      setMessages(prev => prev.length === 0 ? prev : prev.some(msg => msg.id === botMsgId)
+        ? prev.map(msg => msg.id === botMsgId ? { ...msg, text: `${msg.text}\n\n${stopped}` } : msg)
+        : [...prev, { id: botMsgId, role: 'model', text: stopped, timestamp: Date.now() }]);
+  };
+
+  // `task` picks the configured model: the chat panel uses 'chat', edits requested from the viewer or live app 'code'.
+  // With `planFirst`, the agent only reads and proposes a plan, attached to its answer for the user to edit and run.
+  const handleSendMessage = async (text: string, image?: string, task: LlmTask = 'chat', planFirst = false) => {
+    const newUserMsg: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'user',
+      text,
+      timestamp: Date.now(),
+      image
+    };
+
+    setMessages(prev => [...prev, newUserMsg]);
+    setIsStreaming(true);
+    const abort = new AbortController();
+    agentAbortRef.current = abort;
+    const botMsgId = (Date.now() + 1).toString();
+
+    try {
+      const llm = getLlm(llmSettings[task]);
+      const trace: AgentTrace = { provider: llm.config.provider, model: llm.config.model, startedAt: Date.now(), entries: [] };
+      const onProposePlan = (steps: { title: string; files: string[] }[]) => {
+          const plan: AgentPlan = {
+              goal: text,
+              status: 'draft',
+              steps: steps.map((step, i) => ({ ...step, id: `${botMsgId}-${i}`, status: 'pending', touched: [] })),
+          };
+          setMessages(prev => prev.map(msg => msg.id === botMsgId ? { ...msg, plan } : msg));
+      };
+
+      await streamAgentRun(llm, [...messages, newUserMsg], botMsgId, abort, trace, planFirst ? { onProposePlan } : {});
+    } catch (err) {
+      // Stopped before the answer started streaming (while retrieving or summarizing)
+      if (abort.signal.aborted) return appendStopped(botMsgId);
+      console.error(err);
+      setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        role: 'model',
+        text: `Sorry, I encountered an error analyzing the code. Please try again.${err instanceof Error ? `\n\n> ${err.message}` : ''}`,
+        timestamp: Date.now()
+      }]);
+    } finally {
+      // Whatever streamed before a stop or an error stays in the message
       setMessages(prev => prev.map(msg => 
         msg.id === botMsgId ? { ...msg, isStreaming: false } : msg
       ));
-      
+      agentAbortRef.current = null;
+      setIsStreaming(false);
+    }
+  };
+
+  const handleUpdatePlan = (messageId: string, plan: AgentPlan) => {
+      setMessages(prev => prev.map(msg => msg.id === messageId ? { ...msg, plan } : msg));
+  };
+
+  // Works through a plan's open steps in order, one agent run per step, streaming them all into one answer.
+  // A step that fails or is stopped halts the plan; running it again resumes from there.
+  const handleRunPlan = async (planMsgId: string, approved: AgentPlan) => {
+    if (isStreaming) return;
+    const open = approved.steps.flatMap((step, i) => (step.status === 'done' || step.status === 'skipped' ? [] : [i]));
+    if (!open.length) return;
+
+    const runMsg: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'user',
+      text: `Run the plan (${open.length} step${open.length === 1 ? '' : 's'}).`,
+      timestamp: Date.now(),
+    };
+    let plan: AgentPlan = { ...approved, status: 'running' };
+    const setPlan = (change: (plan: AgentPlan) => AgentPlan) => {
+        plan = change(plan);
+        const snapshot = plan;
+        setMessages(prev => prev.map(msg => msg.id === planMsgId ? { ...msg, plan: snapshot } : msg));
+    };
+    const setStep = (index: number, change: Partial<PlanStep> | ((step: PlanStep) => Partial<PlanStep>)) => setPlan(p => ({
+        ...p,
+        steps: p.steps.map((step, i) => i === index ? { ...step, ...(typeof change === 'function' ? change(step) : change) } : step),
+    }));
+
+    setPlan(p => p); // Shows it as running
+    setMessages(prev => [...prev, runMsg]);
+    setIsStreaming(true);
+    const abort = new AbortController();
+    agentAbortRef.current = abort;
+    const botMsgId = (Date.now() + 1).toString();
+
+    try {
+      const llm = getLlm(llmSettings.chat);
+      const trace: AgentTrace = { provider: llm.config.provider, model: llm.config.model, startedAt: Date.now(), entries: [] };
+      // Earlier steps and their answers stay in the conversation, so later steps know what was done. The model
+      // sees each step's own request instead of `runMsg`, which is there for the chat transcript.
+      const transcript: ChatMessage[] = [];
+
+      for (const index of open) {
+        const step = plan.steps[index];
+        setStep(index, { status: 'running', touched: [] });
+        const heading = `${transcript.length ? '\n\n' : ''}**Step ${index + 1}/${plan.steps.length}: ${step.title}**\n\n`;
+        setMessages(prev => prev.some(msg => msg.id === botMsgId)
+          ? prev.map(msg => msg.id === botMsgId ? { ...msg, text: msg.text + heading } : msg)
+          : [...prev, { id: botMsgId, role: 'model', text: heading, timestamp: Date.now(), isStreaming: true, trace: { ...trace } }]);
+
+        const stepMsg: ChatMessage = { id: `${botMsgId}-step-${index}`, role: 'user', text: planStepPrompt(plan, index), timestamp: Date.now() };
+        const reviewEdit = queueEditReview(abort);
+        const onProposeEdit = async (edit: Omit<ProposedEdit, 'id'>) => {
+            const decision = await reviewEdit(edit);
+            if (decision.status !== 'rejected') {
+                setStep(index, s => ({ touched: s.touched.includes(edit.path) ? s.touched : [...s.touched, edit.path] }));
+            }
+            return decision;
+        };
+
+        let result: { outcome: string; text: string };
+        try {
+          result = await streamAgentRun(llm, [...messages, ...transcript, stepMsg], botMsgId, abort, trace, { onProposeEdit });
+        } catch (err) {
+          setStep(index, { status: abort.signal.aborted ? 'pending' : 'failed' });
+          throw err;
+        }
+        transcript.push(stepMsg, { id: `${stepMsg.id}-answer`, role: 'model', text: result.text, timestamp: Date.now() });
+
+        if (result.outcome !== 'done') {
+          // Stopped steps can run again from the start; ones that hit a limit or failed are marked
+          setStep(index, { status: result.outcome === 'stopped' ? 'pending' : 'failed' });
+          break;
+        }
+        setStep(index, { status: 'done' });
+      }
     } catch (err) {
+      if (abort.signal.aborted) return appendStopped(botMsgId);
       console.error(err);
       setMessages(prev => [...prev, {
         id: Date.now().toString(),
         role: 'model',
-        text: 'Sorry, I encountered an error analyzing the code. Please try again.',
+        text: `Sorry, I encountered an error running the plan.${err instanceof Error ? `\n\n> ${err.message}` : ''}`,
         timestamp: Date.now()
       }]);
     } finally {
+      setPlan(p => ({ ...p, status: p.steps.every(step => step.status === 'done' || step.status === 'skipped') ? 'done' : 'stopped' }));
+      setMessages(prev => prev.map(msg => 
+        msg.id === botMsgId ? { ...msg, isStreaming: false } : msg
+      ));
+      agentAbortRef.current = null;
       setIsStreaming(false);
     }
   };
 
+  const handleStopAgent = () => agentAbortRef.current?.abort();
+
+  // Writes the accepted hunks of a proposed edit and hands the decision back to the waiting agent loop
+  const handleResolveEdit = (edit: ProposedEdit, accepted: boolean[], feedback: string) => {
+      const original = splitLines(edit.original ?? '');
+      const hunks = diffHunks(original, splitLines(edit.proposed));
+      const acceptedHunks = hunks.filter((_, i) => accepted[i]).length;
+      const status = acceptedHunks === hunks.length ? 'accepted' : acceptedHunks === 0 ? 'rejected' : 'partial';
+
+      let content = edit.original;
+      if (status !== 'rejected') {
+          content = status === 'accepted' ? edit.proposed : applyHunks(original, hunks.filter((_, i) => accepted[i])).join('\n');
+          updateFileContent(edit.path, content);
+          // Searches later in this run see the edit before the next render
+          modifiedFilesRef.current = { ...modifiedFilesRef.current, [edit.path]: content };
+          // Show the file in the tree if it was created
+          setFileTree(prev => insertFileIntoTree(prev, edit.path));
+          // The preview of an open HTML file doesn't follow edits; show the code instead
+          if (selectedFile && edit.path === selectedFile.path && edit.path.endsWith('.html')) {
+              setViewMode('code');
+          }
+      }
+
+      setProposedEdits(prev => prev.filter(e => e.id !== edit.id));
+      const resolve = editResolversRef.current[edit.id];
+      delete editResolversRef.current[edit.id];
+      resolve?.({ status, content, acceptedHunks, totalHunks: hunks.length, feedback: feedback.trim() || undefined });
+  };
+
   const handleTriggerAiEdit = (prompt: string, image?: string) => {
     // 1. Open Chat
     setIsChatOpen(true);
@@ -405,10 +1333,10 @@ function App() {
         ? `[TASK: Edit '${selectedFile.path}'] `
         : `[TASK: Edit Repository] `;
     
-    const fullPrompt = `${contextPrefix}${prompt}\n\nPlease update the code using the 'update_file' tool. Check other files with 'read_file' if you need context about imports or styles.`;
+    const fullPrompt = `${contextPrefix}${prompt}\n\nPlease change the code using the 'apply_edit' tool ('update_file' for new files). Check other files with 'read_file' if you need context about imports or styles.`;
 
     // 3. Send Message
-    handleSendMessage(fullPrompt, image);
+    handleSendMessage(fullPrompt, image, 'code');
   };
 
   const handleGlobalAppEdit = (e: React.FormEvent) => {
@@ -416,100 +1344,63 @@ function App() {
     if (!liveAppEditPrompt.trim()) return;
     
     setIsChatOpen(true);
-    const fullPrompt = `[TASK: Global App Edit] ${liveAppEditPrompt}\n\nFind the relevant file (search for it or read file structure) and update it using 'update_file'.`;
-    handleSendMessage(fullPrompt);
+    const fullPrompt = `[TASK: Global App Edit] ${liveAppEditPrompt}\n\nFind the relevant file (search for it or read file structure) and change it using 'apply_edit'.`;
+    handleSendMessage(fullPrompt, undefined, 'code');
     setShowLiveAppEdit(false);
     setLiveAppEditPrompt('');
   };
 
+  // StackBlitz / CodeSandbox import path, when they support the host
+  const sandboxPath = repoDetails && !workspace ? provider.sandboxPath(repoDetails.owner, repoDetails.name, currentRef) : null;
+
   const getLivePreviewUrl = () => {
      if (!repoDetails) return '';
      
      if (previewRunner === 'official') {
          return repoDetails.homepage || '';
      }
+     if (!sandboxPath) return '';
      if (previewRunner === 'stackblitz') {
-         return `https://stackblitz.com/github/${repoDetails.owner}/${repoDetails.name}?embed=1&view=preview&hideExplorer=1&hidedevtools=1`;
+         return `https://stackblitz.com/${sandboxPath}?embed=1&view=preview&hideExplorer=1&hidedevtools=1`;
      }
      if (previewRunner === 'codesandbox') {
-         return `https://codesandbox.io/embed/github/${repoDetails.owner}/${repoDetails.name}?fontsize=14&hidenavigation=1&theme=dark&view=preview`;
+         return `https://codesandbox.io/embed/${sandboxPath}?fontsize=14&hidenavigation=1&theme=dark&view=preview`;
      }
      return '';
   };
 
   return (
     <div className="flex flex-col h-screen bg-gray-950 text-gray-100 font-sans selection:bg-blue-500/30">
-      {/* Push to GitHub Modal */}
-      {showPushModal && (
-        <div className="fixed inset-0 z-[60] bg-black/70 flex items-center justify-center p-4 backdrop-blur-sm">
-            <div className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl max-w-md w-full overflow-hidden animate-in fade-in zoom-in duration-200">
-                <div className="p-6">
-                    <div className="flex items-center justify-between mb-4">
-                        <div className="flex items-center gap-2 text-white font-semibold text-lg">
-                            <Github size={24} />
-                            Push Changes to GitHub
-                        </div>
-                        {!isPushing && (
-                           <button onClick={() => setShowPushModal(false)} className="text-gray-500 hover:text-white">
-                               <X size={20} />
-                           </button>
-                        )}
-                    </div>
-                    
-                    {pushStatus ? (
-                         <div className="flex flex-col items-center justify-center py-8 text-center space-y-4">
-                            {pushStatus.includes('Success') ? (
-                                <div className="w-12 h-12 bg-green-500 rounded-full flex items-center justify-center mb-2">
-                                    <Zap className="text-white" size={24} />
-                                </div>
-                            ) : (
-                                <Loader2 className="animate-spin text-blue-500" size={32} />
-                            )}
-                            <p className="text-gray-300 font-medium">{pushStatus}</p>
-                        </div>
-                    ) : (
-                        <form onSubmit={handlePushToGitHub} className="space-y-4">
-                            <div>
-                                <label className="block text-xs font-medium text-gray-400 mb-1">GitHub Personal Access Token (PAT)</label>
-                                <input 
-                                    type="password"
-                                    value={githubToken}
-                                    onChange={(e) => setGithubToken(e.target.value)}
-                                    placeholder="ghp_xxxxxxxxxxxxxxxxxxxx"
-                                    className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                                    required
-                                />
-                                <p className="text-[10px] text-gray-500 mt-1">
-                                    Token must have <span className="font-mono bg-gray-800 px-1 rounded">repo</span> scope.
-                                </p>
-                            </div>
-                            <div>
-                                <label className="block text-xs font-medium text-gray-400 mb-1">Commit Message</label>
-                                <input 
-                                    type="text"
-                                    value={commitMessage}
-                                    onChange={(e) => setCommitMessage(e.target.value)}
-                                    className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                                    required
-                                />
-                            </div>
-                            
-                            <div className="bg-blue-900/20 border border-blue-900/50 p-3 rounded-lg text-xs text-blue-300">
-                                This will directly commit {Object.keys(modifiedFiles).length} changed file(s) to the <strong>{repoDetails?.defaultBranch}</strong> branch.
-                            </div>
+      {/* Push Modal */}
+      {showPushModal && repoDetails && (
+        <PushModal
+            host={provider.host}
+            repoDetails={repoDetails}
+            refs={refs}
+            currentRef={currentRef}
+            canPushToCurrentRef={canPushToCurrentRef}
+            pendingFiles={[
+                ...Object.keys(modifiedFiles).map((path): PendingFile => ({ path, status: findNode(fileTree, path)?.url ? 'M' : 'A' })),
+                ...deletedFiles.map((path): PendingFile => ({ path, status: 'D' })),
+            ]}
+            token={activeToken}
+            onTokenChange={setActiveToken}
+            onCheckAccess={() => provider.fetchPushAccess(repoDetails.owner, repoDetails.name)}
+            onPush={handlePush}
+            onClose={() => setShowPushModal(false)}
+        />
+      )}
 
-                            <button 
-                                type="submit"
-                                className="w-full bg-green-600 hover:bg-green-500 text-white font-medium py-2.5 rounded-lg transition-colors flex items-center justify-center gap-2"
-                            >
-                                <UploadCloud size={18} />
-                                Push {Object.keys(modifiedFiles).length} File(s)
-                            </button>
-                        </form>
-                    )}
-                </div>
-            </div>
-        </div>
+      {showSettings && (
+        <SettingsPanel
+            hosts={hosts}
+            onChangeHosts={handleChangeHosts}
+            llmSettings={llmSettings}
+            onChangeLlmSettings={handleChangeLlmSettings}
+            agentLimits={agentLimits}
+            onChangeAgentLimits={handleChangeAgentLimits}
+            onClose={() => setShowSettings(false)}
+        />
       )}
 
       {/* Header */}
@@ -527,25 +1418,87 @@ function App() {
             type="text"
             value={repoUrl}
             onChange={(e) => setRepoUrl(e.target.value)}
-            placeholder="https://github.com/owner/repo"
+            placeholder="Repository URL on GitHub, GitLab, Gitea... (or a link to a folder, file or pull request)"
             className="w-full bg-gray-900 border border-gray-700 rounded-xl py-2 pl-10 pr-4 text-sm focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all placeholder-gray-600"
           />
         </form>
 
+        {/* Open from disk */}
+        <div className="flex items-center gap-1">
+          <input
+            ref={folderInputRef}
+            type="file"
+            className="hidden"
+            {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+            onChange={(e) => {
+              const files = e.target.files;
+              if (files?.length) openLocal(() => openLocalFolder(files));
+              e.target.value = '';
+            }}
+          />
+          <input
+            ref={zipInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) openLocal(() => openZipArchive(file));
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            className="p-2 rounded-lg text-gray-400 hover:bg-gray-800 hover:text-gray-200 transition-colors"
+            title="Open a local folder"
+          >
+            <FolderOpen size={18} />
+          </button>
+          <button
+            onClick={() => zipInputRef.current?.click()}
+            className="p-2 rounded-lg text-gray-400 hover:bg-gray-800 hover:text-gray-200 transition-colors"
+            title="Open a .zip archive"
+          >
+            <FileArchive size={18} />
+          </button>
+        </div>
+
         <div className="flex items-center gap-3">
+           {/* Local workspaces leave as a zip instead of being pushed */}
+           {workspace && (
+               <button
+                  onClick={handleExportZip}
+                  className="bg-green-600 hover:bg-green-500 text-white px-3 py-1.5 rounded-md text-sm font-medium flex items-center gap-2 shadow-lg shadow-green-900/20"
+                  title="Download the workspace with your edits as a zip"
+               >
+                   <Download size={16} />
+                   Export .zip{pendingChangeCount > 0 && ` (${pendingChangeCount})`}
+               </button>
+           )}
+
            {/* Push Button (Only if modifications exist) */}
-           {Object.keys(modifiedFiles).length > 0 && (
+           {!workspace && pendingChangeCount > 0 && (
                <button 
                   onClick={() => setShowPushModal(true)}
                   className="bg-green-600 hover:bg-green-500 text-white px-3 py-1.5 rounded-md text-sm font-medium flex items-center gap-2 shadow-lg shadow-green-900/20 animate-in slide-in-from-top-2 duration-300"
                >
                    <UploadCloud size={16} />
-                   Push ({Object.keys(modifiedFiles).length})
+                   Push ({pendingChangeCount})
                </button>
            )}
 
-           {/* View Mode Switcher - Only visible when repo is loaded */}
-           {repoDetails && (
+           {/* Branch / Tag / Commit Picker */}
+           {repoDetails && !workspace && (
+             <RefSelector
+                refs={refs}
+                currentRef={currentRef}
+                onSelectRef={switchRef}
+                disabled={loading}
+             />
+           )}
+
+           {/* View Mode Switcher - Only visible when repo is loaded and something can run it */}
+           {repoDetails && (repoDetails.homepage || sandboxPath) && (
              <div className="flex bg-gray-900 rounded-lg p-1 border border-gray-700">
                 <button 
                   onClick={() => setViewMode('code')}
@@ -566,6 +1519,21 @@ function App() {
              </div>
            )}
 
+           <HostStatus
+              host={provider.host}
+              token={activeToken}
+              onTokenChange={setActiveToken}
+              rateLimit={rateLimit}
+           />
+
+           <button
+            onClick={() => setShowSettings(true)}
+            className="p-2 rounded-lg text-gray-400 hover:bg-gray-800 hover:text-gray-200 transition-colors"
+            title="Settings"
+          >
+            <Settings size={18} />
+          </button>
+
            <button 
             onClick={() => setIsChatOpen(!isChatOpen)}
             className={`p-2 rounded-lg transition-colors relative ${isChatOpen ? 'bg-blue-600 text-white' : 'hover:bg-gray-800 text-gray-400'}`}
@@ -587,24 +1555,77 @@ function App() {
           bg-gray-900 border-r border-gray-800 transition-all duration-300 flex flex-col shrink-0
         `}>
           <div className="p-3 border-b border-gray-800 flex items-center justify-between">
-            <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Explorer</span>
-            <button onClick={() => setIsSidebarOpen(false)} className="text-gray-500 hover:text-gray-300 md:hidden">
-              <X size={16} />
-            </button>
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
+                {sidebarView === 'compare' ? (pullRequest ? 'Pull Request' : 'Compare') : 'Explorer'}
+              </span>
+              {sidebarView === 'files' && treeTruncated && (
+                <span
+                  className="text-[10px] font-medium bg-yellow-900/40 text-yellow-300 border border-yellow-700/50 px-1.5 py-0.5 rounded"
+                  title="This repository is too large to list in one request. Folders are loaded as you open them."
+                >
+                  Partial
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              {repoDetails && !workspace && (
+                <button
+                  onClick={() => setSidebarView(sidebarView === 'compare' ? 'files' : 'compare')}
+                  className={`p-1 rounded transition-colors ${sidebarView === 'compare' ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                  title={sidebarView === 'compare' ? 'Back to files' : pullRequest ? 'Pull request changes' : 'Compare refs'}
+                >
+                  <GitCompare size={14} />
+                </button>
+              )}
+              <button onClick={() => setIsSidebarOpen(false)} className="text-gray-500 hover:text-gray-300 md:hidden">
+                <X size={16} />
+              </button>
+            </div>
           </div>
           
           <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
-            {loading ? (
+            {sidebarView === 'compare' && repoDetails && !workspace ? (
+              <>
+                {pullRequest && (
+                  <PullRequestPanel
+                    pr={pullRequest}
+                    hostLabel={provider.host.label}
+                    commentCount={Object.values(commentCounts).reduce((sum, n) => sum + n, 0)}
+                    ready={!!comparison && !compareLoading}
+                    onAiReview={handleAiReview}
+                    onSubmit={handleSubmitReview}
+                  />
+                )}
+                <ComparePanel
+                  refs={refs}
+                  defaultBase={repoDetails.defaultBranch}
+                  defaultHead={currentRef}
+                  comparison={comparison}
+                  loading={compareLoading}
+                  error={compareError}
+                  selectedPath={selectedDiff?.file.path}
+                  hostLabel={provider.host.label}
+                  fixed={!!pullRequest}
+                  commentCounts={commentCounts}
+                  onCompare={(base, head) => runCompare(base, head)}
+                  onSelectFile={handleSelectDiff}
+                />
+              </>
+            ) : loading ? (
               <div className="text-center py-8 text-gray-500 text-sm animate-pulse">Scanning repository...</div>
             ) : fileTree.length > 0 ? (
               <FileTree 
                 nodes={fileTree} 
-                onSelectFile={handleSelectFile} 
+                onSelectFile={(node) => handleSelectFile(node)} 
                 selectedPath={selectedFile?.path}
+                revealPath={revealPath}
+                deletedPaths={deletedFiles}
+                onExpandDirectory={(node) => loadDirectory(node)}
               />
             ) : (
               <div className="text-center py-8 text-gray-600 text-sm">
-                Enter a GitHub URL to start
+                Enter a repository URL or open a local folder to start
               </div>
             )}
           </div>
@@ -616,8 +1637,14 @@ function App() {
                    {repoDetails.name}
                 </div>
                 <div className="flex items-center gap-4 mt-2 text-xs text-gray-500">
-                   <span>⭐ {repoDetails.stars}</span>
-                   <span>{repoDetails.defaultBranch}</span>
+                   {workspace ? (
+                     <span>Local · {workspace.files.size} files</span>
+                   ) : (
+                     <>
+                       <span>⭐ {repoDetails.stars}</span>
+                       <span className="truncate">{currentRef}</span>
+                     </>
+                   )}
                 </div>
              </div>
           )}
@@ -644,7 +1671,14 @@ function App() {
             </div>
           )}
 
-          {viewMode === 'preview' && repoDetails ? (
+          {proposedEdits.length > 0 ? (
+            <EditReviewPanel
+                key={proposedEdits[0].id}
+                edit={proposedEdits[0]}
+                pending={proposedEdits.length}
+                onResolve={(accepted, feedback) => handleResolveEdit(proposedEdits[0], accepted, feedback)}
+            />
+          ) : viewMode === 'preview' && repoDetails ? (
             <div className="flex-1 flex flex-col bg-gray-900">
                 {/* Live App Toolbar */}
                 <div className="h-10 border-b border-gray-800 bg-gray-850 flex items-center justify-between px-4">
@@ -705,20 +1739,24 @@ function App() {
                                 <Globe size={14} />
                             </button>
                         )}
-                         <button 
-                            onClick={() => setPreviewRunner('stackblitz')}
-                            className={`p-1.5 rounded transition-colors ${previewRunner === 'stackblitz' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white hover:bg-gray-700'}`}
-                            title="Run in StackBlitz (Best for React/Node)"
-                        >
-                            <Zap size={14} />
-                        </button>
-                         <button 
-                            onClick={() => setPreviewRunner('codesandbox')}
-                            className={`p-1.5 rounded transition-colors ${previewRunner === 'codesandbox' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white hover:bg-gray-700'}`}
-                            title="Run in CodeSandbox (Alternative)"
-                        >
-                            <Box size={14} />
-                        </button>
+                        {sandboxPath && (
+                          <>
+                             <button 
+                                onClick={() => setPreviewRunner('stackblitz')}
+                                className={`p-1.5 rounded transition-colors ${previewRunner === 'stackblitz' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white hover:bg-gray-700'}`}
+                                title="Run in StackBlitz (Best for React/Node)"
+                            >
+                                <Zap size={14} />
+                            </button>
+                             <button 
+                                onClick={() => setPreviewRunner('codesandbox')}
+                                className={`p-1.5 rounded transition-colors ${previewRunner === 'codesandbox' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white hover:bg-gray-700'}`}
+                                title="Run in CodeSandbox (Alternative)"
+                            >
+                                <Box size={14} />
+                            </button>
+                          </>
+                        )}
                         <div className="w-px h-4 bg-gray-700 mx-1"></div>
                         <a 
                             href={getLivePreviewUrl()} 
@@ -757,7 +1795,12 @@ function App() {
           ) : (
             <CodeViewer 
                 file={selectedFile} 
+                provider={repoDetails && !workspace ? provider : null}
                 repoDetails={repoDetails}
+                currentRef={currentRef}
+                highlightLines={highlightLines}
+                diff={sidebarView === 'compare' ? selectedDiff : null}
+                review={diffReview}
                 modifiedContent={selectedFile ? (modifiedFiles[selectedFile.path] || null) : null}
                 onUpdateContent={(content) => {
                     if (selectedFile) updateFileContent(selectedFile.path, content);
@@ -765,6 +1808,13 @@ function App() {
                 onDiscardChanges={() => {
                     if (selectedFile) discardFileChanges(selectedFile.path);
                 }}
+                isDeleted={!!selectedFile && deletedFiles.includes(selectedFile.path)}
+                onDeleteFile={() => {
+                    if (selectedFile) deleteFile(selectedFile.path);
+                }}
+                onRestoreFile={() => {
+                    if (selectedFile) restoreFile(selectedFile.path);
+                }}
                 onTriggerAiEdit={handleTriggerAiEdit}
             />
           )}
@@ -779,9 +1829,15 @@ function App() {
              {isChatOpen && (
                  <ChatPanel 
                     messages={messages} 
-                    onSendMessage={handleSendMessage}
+                    onSendMessage={(text, image, planFirst) => handleSendMessage(text, image, 'chat', planFirst)}
                     isStreaming={isStreaming}
+                    onStop={handleStopAgent}
+                    contextUsage={contextUsage}
+                    llm={llmSettings.chat}
+                    onUpdatePlan={handleUpdatePlan}
+                    onRunPlan={handleRunPlan}
                     currentFileName={selectedFile?.path}
+                    onOpenCitation={handleOpenCitation}
                  />
              )}
           </div>
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { AgentTrace, AgentTraceEntry } from '../types';
+import { Activity, Bot, ChevronDown, ChevronRight, Download, Search, Wrench, StopCircle, AlertCircle, CheckCircle2 } from 'lucide-react';
+
+interface AgentTraceViewProps {
+  trace: AgentTrace;
+  onExport: () => void;
+}
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+const formatCount = (n: number) => (n < 1000 ? String(n) : `${(n / 1000).toFixed(1)}k`);
+
+// Arguments on one line; long values (file contents, diffs) are cut short
+const summarizeArgs = (args: Record<string, unknown>) => {
+  const text = Object.entries(args)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value) : JSON.stringify(value)}`)
+    .join(' ');
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+};
+
+const OUTCOMES = {
+  done: { label: 'Finished', className: 'text-emerald-400', Icon: CheckCircle2 },
+  stopped: { label: 'Stopped by you', className: 'text-yellow-400', Icon: StopCircle },
+  limit: { label: 'Stopped at the tool round limit', className: 'text-yellow-400', Icon: StopCircle },
+  error: { label: 'Failed', className: 'text-red-400', Icon: AlertCircle },
+};
+
+const EntryRow: React.FC<{ entry: AgentTraceEntry; origin: number }> = ({ entry, origin }) => {
+  const offset = `+${formatDuration(Math.max(0, (entry.type === 'end' ? entry.at : entry.startedAt) - origin))}`;
+  let icon: React.ReactNode;
+  let label: React.ReactNode;
+  let detail = '';
+
+  if (entry.type === 'retrieval') {
+    icon = <Search size={12} className="text-blue-400" />;
+    label = 'Related code';
+    detail = `${entry.chunks} excerpts, ${formatCount(entry.chars)} chars · ${formatDuration(entry.durationMs)}`;
+  } else if (entry.type === 'model') {
+    icon = <Bot size={12} className="text-emerald-400" />;
+    label = `Model turn ${entry.round}`;
+    detail = [
+      entry.toolCalls ? `${entry.toolCalls} tool call${entry.toolCalls === 1 ? '' : 's'}` : 'answer',
+      entry.textChars ? `${formatCount(entry.textChars)} chars` : '',
+      entry.inputTokens !== undefined ? `${formatCount(entry.inputTokens)} in / ${formatCount(entry.outputTokens ?? 0)} out tokens` : '',
+      formatDuration(entry.durationMs),
+    ].filter(Boolean).join(' · ');
+  } else if (entry.type === 'tool') {
+    icon = <Wrench size={12} className="text-purple-400" />;
+    label = <span className="font-mono">{entry.name}</span>;
+    detail = `${formatCount(entry.resultChars)} chars · ${formatDuration(entry.durationMs)}`;
+  } else {
+    const { label: text, className, Icon } = OUTCOMES[entry.outcome];
+    icon = <Icon size={12} className={className} />;
+    label = <span className={className}>{text}</span>;
+  }
+
+  return (
+    <li className="flex gap-2 py-1">
+      <span className="shrink-0 w-12 text-right text-gray-600 tabular-nums">{offset}</span>
+      <span className="shrink-0 mt-0.5">{icon}</span>
+      <div className="min-w-0 flex-1">
+        <div className="flex flex-wrap items-baseline gap-x-2">
+          <span className="text-gray-300">{label}</span>
+          {detail && <span className="text-gray-500">{detail}</span>}
+        </div>
+        {entry.type === 'tool' && Object.keys(entry.args).length > 0 && (
+          <div className="font-mono text-gray-500 truncate" title={JSON.stringify(entry.args, null, 2)}>{summarizeArgs(entry.args)}</div>
+        )}
+        {'error' in entry && entry.error && <div className="text-red-400 break-words">{entry.error}</div>}
+      </div>
+    </li>
+  );
+};
+
+// Collapsible timeline of what the agent did for one answer
+const AgentTraceView: React.FC<AgentTraceViewProps> = ({ trace, onExport }) => {
+  const [open, setOpen] = useState(false);
+
+  const toolCalls = trace.entries.filter(e => e.type === 'tool').length;
+  const errors = trace.entries.filter(e => e.type !== 'end' && e.error).length;
+  const tokens = trace.entries.reduce((sum, e) => sum + (e.type === 'model' ? (e.inputTokens ?? 0) + (e.outputTokens ?? 0) : 0), 0);
+  const end = trace.entries.find(e => e.type === 'end');
+  const last = trace.entries[trace.entries.length - 1];
+  const finishedAt = !last ? trace.startedAt : last.type === 'end' ? last.at : last.startedAt + last.durationMs;
+
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-700 text-[11px]">
+      <div className="flex items-center gap-2 text-gray-400">
+        <button onClick={() => setOpen(!open)} className="flex items-center gap-1 hover:text-gray-200 min-w-0">
+          {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+          <Activity size={12} />
+          <span className="truncate">
+            {toolCalls} tool call{toolCalls === 1 ? '' : 's'} · {formatDuration(finishedAt - trace.startedAt)}
+            {tokens > 0 && ` · ${formatCount(tokens)} tokens`}
+          </span>
+          {errors > 0 && <span className="text-red-400">· {errors} error{errors === 1 ? '' : 's'}</span>}
+          {end && end.type === 'end' && end.outcome !== 'done' && <span className={OUTCOMES[end.outcome].className}>· {end.outcome === 'error' ? 'failed' : 'stopped'}</span>}
+        </button>
+        <button onClick={onExport} className="ml-auto p-0.5 text-gray-500 hover:text-gray-200" title="Export trace as JSON">
+          <Download size={12} />
+        </button>
+      </div>
+      {open && (
+        <ol className="mt-1">
+          {trace.entries.map((entry, i) => <EntryRow key={i} entry={entry} origin={trace.startedAt} />)}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default AgentTraceView;
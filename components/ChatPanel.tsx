@@ -1,18 +1,83 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage } from '../types';
-import { Send, Bot, User, Sparkles, Paperclip, X, Image as ImageIcon } from 'lucide-react';
+import { AgentPlan, ChatMessage, ContextUsage, LineRange, LlmConfig } from '../types';
+import { LLM_KINDS } from '../services/models';
+import { Send, Bot, User, Sparkles, Paperclip, X, Square, ListChecks, Image as ImageIcon } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
+import AgentTraceView from './AgentTraceView';
+import PlanView from './PlanView';
 
 interface ChatPanelProps {
   messages: ChatMessage[];
-  onSendMessage: (text: string, image?: string) => void;
+  onSendMessage: (text: string, image?: string, planFirst?: boolean) => void;
   isStreaming: boolean;
+  onStop?: () => void; // Cancels the running request; shown while streaming
   currentFileName?: string;
+  onOpenCitation?: (path: string, lines?: LineRange) => void;
+  contextUsage?: ContextUsage | null; // What the last request sent
+  llm?: LlmConfig; // The chat model, as configured in Settings
+  onUpdatePlan?: (messageId: string, plan: AgentPlan) => void;
+  onRunPlan?: (messageId: string, plan: AgentPlan) => void;
 }
 
-const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSendMessage, isStreaming, currentFileName }) => {
+const formatTokens = (n: number) => (n < 1000 ? String(n) : `${(n / 1000).toFixed(n < 10000 ? 1 : 0)}k`);
+
+const CONTEXT_PARTS = [
+  { key: 'instructions', label: 'Instructions and file list', className: 'bg-gray-500' },
+  { key: 'summary', label: 'Summary of earlier turns', className: 'bg-purple-500' },
+  { key: 'history', label: 'Recent messages', className: 'bg-blue-500' },
+  { key: 'prompt', label: 'Question and code context', className: 'bg-emerald-500' },
+] as const;
+
+// How much of the context budget the last request used at its start, by part. Tool results come on top.
+const ContextMeter: React.FC<{ usage: ContextUsage }> = ({ usage }) => {
+  const total = CONTEXT_PARTS.reduce((sum, part) => sum + usage[part.key], 0);
+  const notes = [
+    usage.summarizedMessages ? `${usage.summarizedMessages} earlier messages summarized` : '',
+    usage.omittedMessages ? `${usage.omittedMessages} messages left out` : '',
+    usage.droppedImages ? `${usage.droppedImages} old image${usage.droppedImages === 1 ? '' : 's'} dropped` : '',
+    usage.omittedFiles ? `${usage.omittedFiles} paths not listed` : '',
+  ].filter(Boolean);
+  const title = [
+    ...CONTEXT_PARTS.map(part => `${part.label}: ≈${formatTokens(usage[part.key])} tokens`),
+    `Budget: ${formatTokens(usage.budget)} of a ${formatTokens(usage.window)} token window`,
+    ...notes,
+  ].join('\n');
+
+  return (
+    <div className="mt-2 text-[11px] text-gray-500" title={title}>
+      <div className="flex h-1.5 rounded bg-gray-800 overflow-hidden">
+        {CONTEXT_PARTS.map(part => (
+          <div key={part.key} className={part.className} style={{ width: `${Math.min(100, (usage[part.key] / usage.budget) * 100)}%` }} />
+        ))}
+      </div>
+      <div className="mt-1 flex flex-wrap gap-x-2">
+        <span>Context ≈{formatTokens(total)} of {formatTokens(usage.budget)} tokens</span>
+        {notes.map(note => <span key={note}>· {note}</span>)}
+      </div>
+    </div>
+  );
+};
+
+// Downloads an answer's trace with the question and answer it belongs to, for debugging agent runs
+const exportTrace = (messages: ChatMessage[], index: number) => {
+  const answer = messages[index];
+  const question = messages.slice(0, index).reverse().find(m => m.role === 'user');
+  const blob = new Blob([JSON.stringify({ question: question?.text, answer: answer.text, ...answer.trace }, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `agent-trace-${new Date(answer.timestamp).toISOString().replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Inline code like `src/App.tsx:42` or `src/App.tsx:40-58`
+const CITATION_PATTERN = /^([\w@.-]+(?:\/[\w@.-]+)*):(\d+)(?:-(\d+))?$/;
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSendMessage, isStreaming, onStop, currentFileName, onOpenCitation, contextUsage, llm, onUpdatePlan, onRunPlan }) => {
   const [input, setInput] = useState('');
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [planFirst, setPlanFirst] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -28,7 +93,7 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSendMessage, isStream
     e.preventDefault();
     if ((!input.trim() && !selectedImage) || isStreaming) return;
     
-    onSendMessage(input, selectedImage || undefined);
+    onSendMessage(input, selectedImage || undefined, planFirst);
     setInput('');
     setSelectedImage(null);
   };
@@ -54,13 +119,14 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSendMessage, isStream
           <h2 className="font-semibold">AI Assistant</h2>
         </div>
         <p className="text-xs text-gray-500">
-          Powered by Gemini 2.5 Flash. 
+          {llm && `Powered by ${llm.model.trim() || LLM_KINDS[llm.provider].modelPlaceholder} (${LLM_KINDS[llm.provider].name}). `}
           {currentFileName ? (
              <span title="The AI has access to all files, with focus on the current one.">
                 Analyzing Repo (Context: <span className="text-gray-400">{currentFileName}</span>)
              </span>
           ) : ' Analyzing Repository'}
         </p>
+        {contextUsage && <ContextMeter usage={contextUsage} />}
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar">
@@ -72,7 +138,7 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSendMessage, isStream
             <p>"Generate a unit test"</p>
           </div>
         )}
-        {messages.map((msg) => (
+        {messages.map((msg, index) => (
           <div
             key={msg.id}
             className={`flex gap-3 ${msg.role === 'user' ? 'flex-row-reverse' : ''}`}
@@ -95,8 +161,39 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSendMessage, isStream
                  </div>
                )}
                <div className="prose prose-invert prose-sm max-w-none">
-                <ReactMarkdown>{msg.text}</ReactMarkdown>
+                <ReactMarkdown
+                  components={onOpenCitation ? {
+                    code: ({ node, className, children, ...props }) => {
+                      const match = !className && typeof children === 'string' ? children.match(CITATION_PATTERN) : null;
+                      if (!match || !/[./]/.test(match[1])) return <code className={className} {...props}>{children}</code>;
+                      const start = parseInt(match[2], 10);
+                      const end = match[3] ? parseInt(match[3], 10) : start;
+                      return (
+                        <button
+                          type="button"
+                          onClick={() => onOpenCitation(match[1], { start, end: Math.max(start, end) })}
+                          className="font-mono text-[0.85em] text-blue-300 hover:text-blue-200 hover:underline"
+                          title={`Open ${match[1]} at line ${start}`}
+                        >
+                          {children}
+                        </button>
+                      );
+                    },
+                  } : undefined}
+                >
+                  {msg.text}
+                </ReactMarkdown>
                </div>
+               {msg.plan && onUpdatePlan && onRunPlan && (
+                 <PlanView
+                   plan={msg.plan}
+                   disabled={isStreaming}
+                   onChange={(plan) => onUpdatePlan(msg.id, plan)}
+                   onRun={() => onRunPlan(msg.id, msg.plan!)}
+                   onOpenFile={onOpenCitation ? (path) => onOpenCitation(path) : undefined}
+                 />
+               )}
+               {msg.trace && <AgentTraceView trace={msg.trace} onExport={() => exportTrace(messages, index)} />}
             </div>
           </div>
         ))}
@@ -143,21 +240,43 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSendMessage, isStream
             >
               <Paperclip size={18} />
             </button>
+            {onRunPlan && (
+              <button
+                type="button"
+                onClick={() => setPlanFirst(!planFirst)}
+                className={`p-2 -ml-2 transition-colors ${planFirst ? 'text-blue-400' : 'text-gray-400 hover:text-blue-400'}`}
+                title={planFirst ? 'Plan first: on. The AI proposes a checklist to edit and run before changing anything' : 'Plan first: off'}
+                aria-pressed={planFirst}
+              >
+                <ListChecks size={18} />
+              </button>
+            )}
             <input
               type="text"
               value={input}
               onChange={(e) => setInput(e.target.value)}
-              placeholder={selectedImage ? "Describe the image..." : "How can I improve this app?"}
+              placeholder={selectedImage ? "Describe the image..." : planFirst ? "Describe the change to plan..." : "How can I improve this app?"}
               className="flex-1 bg-transparent border-none text-gray-100 py-3 focus:outline-none placeholder-gray-500 text-sm"
               disabled={isStreaming}
             />
-            <button
-              type="submit"
-              disabled={(!input.trim() && !selectedImage) || isStreaming}
-              className="text-gray-400 hover:text-blue-400 disabled:opacity-50 disabled:hover:text-gray-400 p-2"
-            >
-              <Send size={18} />
-            </button>
+            {isStreaming && onStop ? (
+              <button
+                type="button"
+                onClick={onStop}
+                className="text-red-400 hover:text-red-300 p-2"
+                title="Stop"
+              >
+                <Square size={16} fill="currentColor" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={(!input.trim() && !selectedImage) || isStreaming}
+                className="text-gray-400 hover:text-blue-400 disabled:opacity-50 disabled:hover:text-gray-400 p-2"
+              >
+                <Send size={18} />
+              </button>
+            )}
           </div>
         </form>
       </div>
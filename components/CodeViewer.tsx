@@ -1,27 +1,53 @@
 import React, { useState, useEffect, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { FileContent, RepoDetails } from '../types';
-import { Loader2, Eye, Code2, Sparkles, X, RefreshCw, FileText, FileX, AlertTriangle, Paperclip, Zap, ExternalLink } from 'lucide-react';
+import { FileContent, RepoDetails, LineRange, RepoProvider, CommitInfo, BlameRange, FileDiff } from '../types';
+import { formatBytes } from '../services/files';
+import FileHistory, { formatCommitDate } from './FileHistory';
+import DiffView, { DiffLayout, DiffReview } from './DiffView';
+import { Loader2, Eye, Code2, Sparkles, X, RefreshCw, FileText, FileX, AlertTriangle, Paperclip, Zap, ExternalLink, Trash2, Undo2, FileImage, Binary, HardDrive, History, ArrowLeft, GitCommitHorizontal, Rows3, Columns2 } from 'lucide-react';
 
 interface CodeViewerProps {
   file: FileContent | null;
+  provider: RepoProvider | null;
   repoDetails: RepoDetails | null;
+  currentRef: string;
+  highlightLines?: LineRange;
+  diff?: FileDiff | null; // A file from a ref comparison, shown instead of `file`
+  review?: DiffReview; // Line comments on `diff`, while reviewing a pull request
   modifiedContent: string | null;
   onUpdateContent: (content: string) => void;
   onDiscardChanges: () => void;
+  isDeleted: boolean;
+  onDeleteFile: () => void;
+  onRestoreFile: () => void;
   onTriggerAiEdit: (prompt: string, image?: string) => void;
 }
 
 const CodeViewer: React.FC<CodeViewerProps> = ({ 
   file, 
+  provider,
   repoDetails, 
+  currentRef,
+  highlightLines,
+  diff,
+  review,
   modifiedContent, 
   onUpdateContent, 
   onDiscardChanges,
+  isDeleted,
+  onDeleteFile,
+  onRestoreFile,
   onTriggerAiEdit
 }) => {
-  const [activeTab, setActiveTab] = useState<'code' | 'preview'>('code');
+  const [activeTab, setActiveTab] = useState<'code' | 'preview' | 'history'>('code');
   const [forcePreview, setForcePreview] = useState(false);
+  // The file as of an older commit, opened from the History tab (read-only)
+  const [historical, setHistorical] = useState<{ commit: CommitInfo; content: string | null; error?: string } | null>(null);
+  // The blame toggle sticks across files; `blame` is null while loading
+  const [showBlame, setShowBlame] = useState(false);
+  const [blame, setBlame] = useState<{ ranges: BlameRange[]; error?: string } | null>(null);
+  // Like blame, the diff layout sticks across files
+  const [diffLayout, setDiffLayout] = useState<DiffLayout>('unified');
   
   // AI Edit State
   const [showAiInput, setShowAiInput] = useState(false);
@@ -29,6 +55,7 @@ const CodeViewer: React.FC<CodeViewerProps> = ({
   const [aiImage, setAiImage] = useState<string | null>(null);
   const [includeContext, setIncludeContext] = useState(true);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
 
   // Reset state when file changes
   useEffect(() => {
@@ -38,8 +65,27 @@ const CodeViewer: React.FC<CodeViewerProps> = ({
     setAiImage(null);
     setIncludeContext(true);
     setForcePreview(false);
+    setHistorical(null);
   }, [file?.path]);
 
+  const blameRef = historical?.commit.sha ?? currentRef;
+  useEffect(() => {
+    if (!showBlame || !provider?.fetchBlame || !repoDetails || !file || file.loading || file.error) return;
+    let cancelled = false;
+    setBlame(null);
+    provider.fetchBlame(repoDetails.owner, repoDetails.name, blameRef, file.path)
+      .then(ranges => { if (!cancelled) setBlame({ ranges }); })
+      .catch(err => { if (!cancelled) setBlame({ ranges: [], error: err instanceof Error ? err.message : 'Failed to load blame' }); });
+    return () => { cancelled = true; };
+  }, [showBlame, provider, repoDetails, blameRef, file?.path, file?.loading]);
+
+  // Bring linked lines (#L10-L40) into view once the content is rendered
+  useEffect(() => {
+    if (highlightLines && !file?.loading) {
+      highlightRef.current?.scrollIntoView({ block: 'center' });
+    }
+  }, [highlightLines, file?.path, file?.loading]);
+
   const handleAiModify = async () => {
     if (!file || !aiPrompt.trim()) return;
     
@@ -58,6 +104,21 @@ const CodeViewer: React.FC<CodeViewerProps> = ({
     setAiImage(null);
   };
 
+  const viewAtCommit = async (commit: CommitInfo) => {
+    if (!provider || !repoDetails || !file) return;
+    setActiveTab('code');
+    setHistorical({ commit, content: null });
+    let next: { commit: CommitInfo; content: string | null; error?: string };
+    try {
+      const data = await provider.fetchFileAtRef(repoDetails.owner, repoDetails.name, file.path, commit.sha);
+      next = data ? { commit, content: data.content } : { commit, content: null, error: `${file.path} doesn't exist at ${commit.sha.slice(0, 7)}` };
+    } catch (err) {
+      next = { commit, content: null, error: err instanceof Error ? err.message : 'Failed to load file' };
+    }
+    // Ignore the answer if another commit was picked meanwhile
+    setHistorical(prev => (prev?.commit.sha === commit.sha ? next : prev));
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -70,6 +131,48 @@ const CodeViewer: React.FC<CodeViewerProps> = ({
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  if (diff) {
+    const { file: changed } = diff;
+    const shortRef = (ref: string) => (/^[0-9a-f]{40}$/i.test(ref) ? ref.slice(0, 7) : ref);
+    const statusStyles: Record<typeof changed.status, string> = {
+      added: 'bg-green-900 text-green-200 border-green-700',
+      modified: 'bg-blue-900 text-blue-200 border-blue-700',
+      removed: 'bg-red-900 text-red-200 border-red-700',
+      renamed: 'bg-yellow-900 text-yellow-200 border-yellow-700',
+    };
+    return (
+      <div className="h-full flex flex-col bg-gray-900 overflow-hidden">
+        <div className="shrink-0 bg-gray-800 border-b border-gray-700 px-4 py-2 flex justify-between items-center">
+          <div className="flex items-center gap-4 min-w-0">
+            <span className="text-sm text-gray-300 font-mono font-medium truncate">
+              {changed.previousPath && <span className="text-gray-500">{changed.previousPath} → </span>}
+              {changed.path}
+            </span>
+            <span className={`text-xs px-2 py-0.5 rounded-full border capitalize ${statusStyles[changed.status]}`}>{changed.status}</span>
+            <span className="text-xs font-mono whitespace-nowrap">
+              <span className="text-green-400">+{changed.additions}</span> <span className="text-red-400">−{changed.deletions}</span>
+            </span>
+            <span className="text-xs text-gray-500 font-mono truncate">{shortRef(diff.base)}...{shortRef(diff.head)}</span>
+          </div>
+          <div className="flex bg-gray-900 rounded-lg p-0.5 border border-gray-700 shrink-0">
+            {([['unified', Rows3, 'Unified'], ['split', Columns2, 'Split']] as const).map(([layout, Icon, label]) => (
+              <button
+                key={layout}
+                onClick={() => setDiffLayout(layout)}
+                className={`px-3 py-1.5 rounded-md text-xs font-medium flex items-center gap-1.5 transition-all ${diffLayout === layout ? 'bg-gray-700 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
+              >
+                <Icon size={14} /> {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex-1 overflow-hidden relative">
+          <DiffView key={changed.path} diff={diff} layout={diffLayout} review={review} />
+        </div>
+      </div>
+    );
+  }
+
   if (!file) {
     return (
       <div className="h-full flex flex-col items-center justify-center text-gray-500 bg-gray-900">
@@ -97,9 +200,13 @@ const CodeViewer: React.FC<CodeViewerProps> = ({
   }
 
   const contentToRender = modifiedContent ?? file.content;
-  const isHtml = file.path.endsWith('.html');
-  const isMarkdown = file.path.endsWith('.md');
+  // Edited content is always text, whatever the original was
+  const isText = modifiedContent !== null || (file.kind ?? 'text') === 'text';
+  const isHtml = isText && file.path.endsWith('.html');
+  const isMarkdown = isText && file.path.endsWith('.md');
   const canPreview = isHtml || isMarkdown;
+  // Local folders have no history
+  const canShowHistory = !!provider && !!repoDetails;
 
   // Check if the content looks like a modern framework entry point (React, Vue, etc)
   const isFrameworkFile = isHtml && (
@@ -110,8 +217,14 @@ const CodeViewer: React.FC<CodeViewerProps> = ({
     contentToRender.includes('%PUBLIC_URL%')
   );
 
+  // Raw file URL on the host, or the CDN mirroring it
+  const rawUrl = (path: string) => provider && repoDetails
+    ? provider.rawFileUrl(repoDetails.owner, repoDetails.name, currentRef, path)
+    : path;
+  const sandboxPath = provider && repoDetails ? provider.sandboxPath(repoDetails.owner, repoDetails.name, currentRef) : null;
+
   const getPreviewContent = () => {
-    if (!repoDetails || !isHtml) return contentToRender;
+    if (!provider || !repoDetails || !isHtml) return contentToRender;
     
     // 1. Calculate Base URL for the specific directory of this file
     const pathParts = file.path.split('/');
@@ -119,7 +232,7 @@ const CodeViewer: React.FC<CodeViewerProps> = ({
     const dirPath = pathParts.join('/');
     const dirSuffix = dirPath ? `${dirPath}/` : '';
 
-    const cdnRoot = `https://cdn.jsdelivr.net/gh/${repoDetails.owner}/${repoDetails.name}@${repoDetails.defaultBranch}/`;
+    const cdnRoot = rawUrl('');
     const cdnBase = `${cdnRoot}${dirSuffix}`;
     
     let processedContent = contentToRender;
@@ -145,12 +258,12 @@ const CodeViewer: React.FC<CodeViewerProps> = ({
   };
 
   const transformMarkdownUrl = (url: string) => {
-    if (!repoDetails) return url;
+    if (!provider || !repoDetails) return url;
     if (url.startsWith('http') || url.startsWith('https') || url.startsWith('#')) return url;
     
     // Handle root relative in MD
     if (url.startsWith('/')) {
-        return `https://cdn.jsdelivr.net/gh/${repoDetails.owner}/${repoDetails.name}@${repoDetails.defaultBranch}${url}`;
+        return rawUrl(url.slice(1));
     }
 
     // Handle relative to file location
@@ -160,7 +273,124 @@ const CodeViewer: React.FC<CodeViewerProps> = ({
     const cleanUrl = url.startsWith('./') ? url.slice(2) : url;
     const separator = dirPath ? '/' : '';
     
-    return `https://cdn.jsdelivr.net/gh/${repoDetails.owner}/${repoDetails.name}@${repoDetails.defaultBranch}/${dirPath}${separator}${cleanUrl}`;
+    return rawUrl(`${dirPath}${separator}${cleanUrl}`);
+  };
+
+  // Blame only lines up with unedited content
+  const canBlame = !!provider?.fetchBlame && !!repoDetails && isText && (historical !== null || modifiedContent === null);
+  const blameVisible = showBlame && canBlame && activeTab === 'code';
+  const blameByLine: BlameRange[] = [];
+  if (blameVisible) {
+    blame?.ranges.forEach(range => {
+      for (let line = range.startLine; line <= range.endLine; line++) blameByLine[line] = range;
+    });
+  }
+
+  const renderCode = (content: string, highlight?: LineRange) => (
+    <div className="h-full overflow-auto custom-scrollbar py-4">
+      {blameVisible && blame?.error && (
+        <div className="mx-4 mb-3 bg-red-500/10 border border-red-500/20 px-3 py-2 rounded-lg text-xs text-red-300">{blame.error}</div>
+      )}
+      <pre className="font-mono text-sm text-gray-300 leading-relaxed tab-4">
+        <code>
+          {content.split('\n').map((line, i) => {
+            const lineNumber = i + 1;
+            const isHighlighted = !!highlight && lineNumber >= highlight.start && lineNumber <= highlight.end;
+            const range = blameByLine[lineNumber];
+            return (
+              <div
+                key={i}
+                ref={isHighlighted && lineNumber === highlight!.start ? highlightRef : undefined}
+                className={`flex ${isHighlighted ? 'bg-yellow-500/10' : ''}`}
+              >
+                {blameVisible && (
+                  <span className={`select-none shrink-0 w-64 px-3 truncate font-sans text-xs leading-relaxed border-r border-gray-800 ${range?.startLine === lineNumber && lineNumber > 1 ? 'border-t' : ''}`}>
+                    {range?.startLine === lineNumber && (
+                      <a
+                        href={range.commit.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        title={`${range.commit.message}\n\n${range.commit.author}, ${formatCommitDate(range.commit.date)}`}
+                        className="text-gray-500 hover:text-blue-400"
+                      >
+                        <span className="font-mono">{range.commit.sha.slice(0, 7)}</span> {range.commit.author} · {formatCommitDate(range.commit.date)}
+                      </a>
+                    )}
+                  </span>
+                )}
+                <span className={`select-none shrink-0 w-12 pr-4 text-right ${isHighlighted ? 'text-yellow-400' : 'text-gray-600'}`}>{lineNumber}</span>
+                <span className="whitespace-pre pr-4">{line || ' '}</span>
+              </div>
+            );
+          })}
+        </code>
+      </pre>
+    </div>
+  );
+
+  const renderHistorical = (view: NonNullable<typeof historical>) => {
+    if (view.error) {
+      return <div className="h-full flex items-center justify-center text-red-400"><p>{view.error}</p></div>;
+    }
+    if (view.content === null) {
+      return (
+        <div className="h-full flex items-center justify-center text-blue-400">
+          <Loader2 className="animate-spin mr-2" />
+          <span>Loading {view.commit.sha.slice(0, 7)}...</span>
+        </div>
+      );
+    }
+    return renderCode(view.content);
+  };
+
+  const renderNonText = () => {
+    if (file.kind === 'image') {
+      return (
+        <div className="h-full overflow-auto custom-scrollbar flex flex-col items-center justify-center gap-3 p-8">
+          <div className="p-4 rounded-lg border border-gray-700 bg-[conic-gradient(#1f2937_25%,#111827_0_50%,#1f2937_0_75%,#111827_0)] bg-[length:16px_16px]">
+            <img src={file.dataUrl} alt={file.path} className="max-w-full max-h-[70vh] object-contain" />
+          </div>
+          <span className="text-xs text-gray-500 flex items-center gap-1.5"><FileImage size={14} /> {formatBytes(file.size ?? 0)}</span>
+        </div>
+      );
+    }
+
+    if (file.kind === 'lfs' && file.lfs) {
+      return (
+        <div className="h-full flex flex-col items-center justify-center gap-4 p-8 text-center">
+          <HardDrive size={40} className="text-blue-400 opacity-80" />
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-1">Stored with Git LFS</h3>
+            <p className="text-sm text-gray-400">
+              The repository only contains a pointer to a {formatBytes(file.lfs.size)} object.
+            </p>
+          </div>
+          <code className="text-xs text-gray-500 font-mono break-all max-w-lg">sha256:{file.lfs.oid}</code>
+          {provider && repoDetails && (
+            <a
+              href={provider.lfsFileUrl(repoDetails.owner, repoDetails.name, currentRef, file.path)}
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-center gap-2 bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors border border-gray-700"
+            >
+              <ExternalLink size={16} />
+              Open LFS Object
+            </a>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <div className="h-full overflow-auto custom-scrollbar p-4">
+        <div className="flex items-center gap-2 text-sm text-gray-400 mb-3">
+          <Binary size={16} />
+          Binary file · {formatBytes(file.size ?? 0)}
+          {(file.size ?? 0) > 4096 && <span className="text-gray-600">(showing first 4 KB)</span>}
+        </div>
+        <pre className="font-mono text-xs text-gray-400 leading-relaxed">{file.hexPreview}</pre>
+      </div>
+    );
   };
 
   return (
@@ -172,11 +402,23 @@ const CodeViewer: React.FC<CodeViewerProps> = ({
           {modifiedContent && (
              <span className="text-xs bg-blue-900 text-blue-200 px-2 py-0.5 rounded-full border border-blue-700">Modified</span>
           )}
+          {isDeleted && (
+             <span className="text-xs bg-red-900 text-red-200 px-2 py-0.5 rounded-full border border-red-700">Deleted</span>
+          )}
+          {historical && (
+             <span className="text-xs bg-gray-900 text-gray-300 pl-2 pr-1 py-0.5 rounded-full border border-gray-600 flex items-center gap-1.5" title={historical.commit.message}>
+               <GitCommitHorizontal size={12} />
+               at <span className="font-mono">{historical.commit.sha.slice(0, 7)}</span>
+               <button onClick={() => setHistorical(null)} className="flex items-center gap-1 text-blue-400 hover:text-blue-300 px-1" title={`Back to ${currentRef}`}>
+                 <ArrowLeft size={12} /> {currentRef.length > 20 ? currentRef.slice(0, 7) : currentRef}
+               </button>
+             </span>
+          )}
         </div>
         
         <div className="flex items-center gap-2">
            {/* View Mode Toggle */}
-           {canPreview && (
+           {(canPreview || canShowHistory) && (
              <div className="flex bg-gray-900 rounded-lg p-0.5 border border-gray-700">
                <button 
                  onClick={() => setActiveTab('code')}
@@ -184,25 +426,46 @@ const CodeViewer: React.FC<CodeViewerProps> = ({
                >
                  <Code2 size={14} /> Code
                </button>
-               <button 
-                 onClick={() => setActiveTab('preview')}
-                 className={`px-3 py-1.5 rounded-md text-xs font-medium flex items-center gap-1.5 transition-all ${activeTab === 'preview' ? 'bg-blue-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
-               >
-                 <Eye size={14} /> Preview
-               </button>
+               {canPreview && (
+                 <button 
+                   onClick={() => setActiveTab('preview')}
+                   className={`px-3 py-1.5 rounded-md text-xs font-medium flex items-center gap-1.5 transition-all ${activeTab === 'preview' ? 'bg-blue-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
+                 >
+                   <Eye size={14} /> Preview
+                 </button>
+               )}
+               {canShowHistory && (
+                 <button 
+                   onClick={() => setActiveTab('history')}
+                   className={`px-3 py-1.5 rounded-md text-xs font-medium flex items-center gap-1.5 transition-all ${activeTab === 'history' ? 'bg-gray-700 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
+                 >
+                   <History size={14} /> History
+                 </button>
+               )}
              </div>
            )}
 
+           {activeTab === 'code' && canBlame && (
+             <button
+               onClick={() => setShowBlame(!showBlame)}
+               className={`px-3 py-1.5 rounded-lg text-xs font-medium flex items-center gap-1.5 transition-all border 
+                 ${showBlame ? 'bg-gray-700 text-white border-gray-500' : 'bg-gray-800 text-gray-400 border-gray-600 hover:text-gray-200'}`}
+               title="Show who last changed each line"
+             >
+               {showBlame && !blame ? <Loader2 size={14} className="animate-spin" /> : <GitCommitHorizontal size={14} />} Blame
+             </button>
+           )}
+
            <div className="w-px h-6 bg-gray-700 mx-2"></div>
 
            {/* AI Actions */}
-           <button 
+           {isText && <button 
              onClick={() => setShowAiInput(!showAiInput)}
              className={`px-3 py-1.5 rounded-lg text-xs font-medium flex items-center gap-1.5 transition-all border 
                ${showAiInput ? 'bg-purple-900/50 text-purple-200 border-purple-500' : 'bg-gray-800 text-purple-400 border-gray-600 hover:bg-gray-750 hover:border-purple-500/50'}`}
            >
              <Sparkles size={14} /> {modifiedContent ? 'Modify Again' : 'Edit with AI'}
-           </button>
+           </button>}
            
            {modifiedContent && (
              <button 
@@ -213,6 +476,24 @@ const CodeViewer: React.FC<CodeViewerProps> = ({
                <RefreshCw size={14} />
              </button>
            )}
+
+           {isDeleted ? (
+             <button 
+               onClick={onRestoreFile}
+               className="p-1.5 text-gray-400 hover:text-green-400 hover:bg-gray-700 rounded-lg transition-colors"
+               title="Restore File"
+             >
+               <Undo2 size={14} />
+             </button>
+           ) : (
+             <button 
+               onClick={onDeleteFile}
+               className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-lg transition-colors"
+               title="Delete File"
+             >
+               <Trash2 size={14} />
+             </button>
+           )}
         </div>
       </div>
 
@@ -309,8 +590,24 @@ const CodeViewer: React.FC<CodeViewerProps> = ({
 
       {/* Content Area */}
       <div className="flex-1 overflow-hidden relative">
-        {activeTab === 'preview' && canPreview ? (
+        {activeTab === 'history' && canShowHistory ? (
+          <FileHistory
+            provider={provider!}
+            repoDetails={repoDetails!}
+            currentRef={currentRef}
+            path={file.path}
+            viewingSha={historical?.commit.sha}
+            onViewCommit={viewAtCommit}
+          />
+        ) : historical ? (
+          renderHistorical(historical)
+        ) : activeTab === 'preview' && canPreview ? (
           <div className="h-full w-full bg-white relative">
+            {repoDetails?.isPrivate && (
+                <div className="absolute top-0 inset-x-0 z-20 bg-yellow-900/90 text-yellow-100 text-xs px-3 py-1.5">
+                    Private repository: images, styles and scripts are loaded from {provider?.host.label ?? 'the host'} without your token, so they may not load in this preview.
+                </div>
+            )}
             {/* Framework Warning Overlay */}
             {isFrameworkFile && !forcePreview && (
                 <div className="absolute inset-0 z-10 bg-gray-900/95 flex flex-col items-center justify-center p-8 text-center backdrop-blur-sm">
@@ -319,26 +616,28 @@ const CodeViewer: React.FC<CodeViewerProps> = ({
                     <p className="text-gray-400 max-w-md mb-6">
                         This looks like a <strong>React/Vue/Vite</strong> file. Browsers cannot run this code directly.
                     </p>
-                    <div className="flex gap-4">
-                        <a 
-                           href={`https://stackblitz.com/github/${repoDetails?.owner}/${repoDetails?.name}?embed=1&view=preview`}
-                           target="_blank"
-                           rel="noreferrer"
-                           className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 text-white px-5 py-2.5 rounded-lg font-medium transition-colors"
-                        >
-                           <Zap size={18} />
-                           Open in StackBlitz
-                        </a>
-                        <a 
-                           href={`https://codesandbox.io/embed/github/${repoDetails?.owner}/${repoDetails?.name}?view=preview`}
-                           target="_blank"
-                           rel="noreferrer"
-                           className="flex items-center gap-2 bg-gray-800 hover:bg-gray-700 text-white px-5 py-2.5 rounded-lg font-medium transition-colors border border-gray-700"
-                        >
-                           <ExternalLink size={18} />
-                           CodeSandbox
-                        </a>
-                    </div>
+                    {sandboxPath && (
+                        <div className="flex gap-4">
+                            <a 
+                               href={`https://stackblitz.com/${sandboxPath}?embed=1&view=preview`}
+                               target="_blank"
+                               rel="noreferrer"
+                               className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 text-white px-5 py-2.5 rounded-lg font-medium transition-colors"
+                            >
+                               <Zap size={18} />
+                               Open in StackBlitz
+                            </a>
+                            <a 
+                               href={`https://codesandbox.io/embed/${sandboxPath}?view=preview`}
+                               target="_blank"
+                               rel="noreferrer"
+                               className="flex items-center gap-2 bg-gray-800 hover:bg-gray-700 text-white px-5 py-2.5 rounded-lg font-medium transition-colors border border-gray-700"
+                            >
+                               <ExternalLink size={18} />
+                               CodeSandbox
+                            </a>
+                        </div>
+                    )}
                     <button 
                        onClick={() => setForcePreview(true)}
                        className="mt-6 text-sm text-gray-500 hover:text-gray-300 underline"
@@ -363,12 +662,10 @@ const CodeViewer: React.FC<CodeViewerProps> = ({
               </div>
             )}
           </div>
+        ) : !isText ? (
+          renderNonText()
         ) : (
-          <div className="h-full overflow-auto custom-scrollbar p-4">
-             <pre className="font-mono text-sm text-gray-300 leading-relaxed tab-4">
-              <code>{contentToRender}</code>
-            </pre>
-          </div>
+          renderCode(contentToRender, highlightLines)
         )}
       </div>
     </div>
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { GitRef, RefComparison, ChangedFile } from '../types';
+import RefSelector from './RefSelector';
+import { Loader2, AlertCircle, ArrowLeftRight, ExternalLink, GitCompare, MessageSquare } from 'lucide-react';
+
+interface ComparePanelProps {
+  refs: GitRef[];
+  defaultBase: string;
+  defaultHead: string;
+  comparison: RefComparison | null;
+  loading: boolean;
+  error: string | null;
+  selectedPath?: string;
+  hostLabel: string;
+  fixed?: boolean; // The comparison is a pull request's, so the ref pickers are hidden
+  commentCounts?: Record<string, number>; // Draft review comments per path
+  onCompare: (base: string, head: string) => void;
+  onSelectFile: (file: ChangedFile) => void;
+}
+
+const STATUS_LETTERS: Record<ChangedFile['status'], { letter: string; className: string }> = {
+  added: { letter: 'A', className: 'text-green-400' },
+  modified: { letter: 'M', className: 'text-blue-400' },
+  removed: { letter: 'D', className: 'text-red-400' },
+  renamed: { letter: 'R', className: 'text-yellow-400' },
+};
+
+// Sidebar view for picking two refs and listing the files that differ between them
+const ComparePanel: React.FC<ComparePanelProps> = ({
+  refs,
+  defaultBase,
+  defaultHead,
+  comparison,
+  loading,
+  error,
+  selectedPath,
+  hostLabel,
+  fixed,
+  commentCounts,
+  onCompare,
+  onSelectFile,
+}) => {
+  // Picks survive switching back to the file tree because they start from the last comparison
+  const [base, setBase] = useState(comparison?.base ?? defaultBase);
+  const [head, setHead] = useState(comparison?.head ?? defaultHead);
+
+  const totals = comparison?.files.reduce(
+    (sum, f) => ({ additions: sum.additions + f.additions, deletions: sum.deletions + f.deletions }),
+    { additions: 0, deletions: 0 }
+  );
+
+  return (
+    <div className="flex flex-col gap-3">
+      {fixed && loading && (
+        <div className="flex items-center justify-center gap-2 text-xs text-blue-400 py-4">
+          <Loader2 size={14} className="animate-spin" /> Loading changes...
+        </div>
+      )}
+
+      {!fixed && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="w-10 text-[10px] font-semibold text-gray-500 uppercase">Base</span>
+            <RefSelector refs={refs} currentRef={base} onSelectRef={setBase} disabled={loading} align="left" />
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="w-10 text-[10px] font-semibold text-gray-500 uppercase">Head</span>
+            <RefSelector refs={refs} currentRef={head} onSelectRef={setHead} disabled={loading} align="left" />
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => { setBase(head); setHead(base); }}
+              disabled={loading}
+              className="p-1.5 text-gray-400 hover:text-gray-200 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-md disabled:opacity-50"
+              title="Swap base and head"
+            >
+              <ArrowLeftRight size={14} />
+            </button>
+            <button
+              onClick={() => onCompare(base, head)}
+              disabled={loading || !base || !head || base === head}
+              className="flex-1 flex items-center justify-center gap-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:hover:bg-blue-600 text-white px-3 py-1.5 rounded-md text-xs font-medium transition-colors"
+            >
+              {loading ? <Loader2 size={14} className="animate-spin" /> : <GitCompare size={14} />}
+              Compare
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 p-2 rounded-lg text-xs text-red-300 flex gap-2">
+          <AlertCircle size={14} className="shrink-0 mt-0.5" />
+          {error}
+        </div>
+      )}
+
+      {comparison && !loading && (
+        <div className={fixed ? '' : 'border-t border-gray-800 pt-3'}>
+          <div className="flex items-center justify-between text-xs text-gray-400 mb-2 px-1">
+            <span>
+              {comparison.commits > 0 && <>{comparison.commits} commit{comparison.commits === 1 ? '' : 's'} · </>}
+              {comparison.files.length} file{comparison.files.length === 1 ? '' : 's'}
+              {totals && (
+                <span className="font-mono ml-1.5">
+                  <span className="text-green-400">+{totals.additions}</span> <span className="text-red-400">−{totals.deletions}</span>
+                </span>
+              )}
+            </span>
+            <a href={comparison.url} target="_blank" rel="noreferrer" className="text-gray-500 hover:text-white" title={`Open on ${hostLabel}`}>
+              <ExternalLink size={12} />
+            </a>
+          </div>
+
+          {comparison.truncated && (
+            <div className="mb-2 text-[11px] bg-yellow-900/30 text-yellow-300 border border-yellow-700/50 px-2 py-1.5 rounded">
+              Only the first {comparison.files.length} changed files are listed.
+            </div>
+          )}
+
+          {comparison.files.length === 0 ? (
+            <p className="text-center text-xs text-gray-500 py-4">These refs have identical trees.</p>
+          ) : (
+            <div className="space-y-0.5">
+              {comparison.files.map(file => {
+                const status = STATUS_LETTERS[file.status];
+                const slash = file.path.lastIndexOf('/');
+                return (
+                  <button
+                    key={file.path}
+                    onClick={() => onSelectFile(file)}
+                    className={`w-full flex items-center gap-2 px-2 py-1 rounded text-xs text-left transition-colors ${selectedPath === file.path ? 'bg-blue-900/40 text-white' : 'text-gray-300 hover:bg-gray-800'}`}
+                    title={file.previousPath ? `${file.previousPath} → ${file.path}` : file.path}
+                  >
+                    <span className={`w-3 shrink-0 font-mono font-bold ${status.className}`}>{status.letter}</span>
+                    <span className="flex-1 min-w-0 truncate">
+                      {file.path.slice(slash + 1)}
+                      {slash > 0 && <span className="text-gray-600 ml-1.5">{file.path.slice(0, slash)}</span>}
+                    </span>
+                    {!!commentCounts?.[file.path] && (
+                      <span className="shrink-0 flex items-center gap-0.5 text-[10px] text-purple-300" title="Draft review comments">
+                        <MessageSquare size={10} /> {commentCounts[file.path]}
+                      </span>
+                    )}
+                    <span className="shrink-0 font-mono text-[10px]">
+                      <span className="text-green-500">+{file.additions}</span> <span className="text-red-500">−{file.deletions}</span>
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparePanel;
@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { FileDiff, ReviewComment } from '../types';
+import { DiffLine, numberDiffLines, foldDiff, pairDiffLines } from '../services/diff';
+import { Loader2, Binary, ChevronsUpDown, Plus, MessageSquare, Pencil, Trash2 } from 'lucide-react';
+
+export type DiffLayout = 'unified' | 'split';
+
+// Line comments of a review draft. Only lines inside hunks can take new comments.
+export interface DiffReview {
+  comments: ReviewComment[];
+  onAdd: (line: DiffLine) => void;
+  onUpdate: (id: string, body: string) => void;
+  onDelete: (id: string) => void;
+}
+
+interface DiffViewProps {
+  diff: FileDiff;
+  layout: DiffLayout;
+  review?: DiffReview;
+}
+
+const lineClass = (line?: DiffLine) => {
+  if (!line) return 'bg-gray-900/60';
+  if (line.type === 'insert') return 'bg-green-500/10';
+  if (line.type === 'delete') return 'bg-red-500/10';
+  return '';
+};
+
+const marker = (line: DiffLine) => (line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' ');
+
+const isAnchoredAt = (comment: ReviewComment, line: DiffLine) =>
+  comment.oldLine === line.oldLine && comment.newLine === line.newLine;
+
+const Gutter = ({ n }: { n?: number }) => (
+  <span className="select-none shrink-0 w-12 pr-3 text-right text-gray-600">{n ?? ''}</span>
+);
+
+// A draft comment. New (empty) comments open in edit mode; cancelling one discards it.
+const CommentBox: React.FC<{ comment: ReviewComment; review: DiffReview }> = ({ comment, review }) => {
+  const [editing, setEditing] = useState(comment.body === '');
+  const [text, setText] = useState(comment.body);
+
+  const cancel = () => {
+    if (comment.body === '') review.onDelete(comment.id);
+    setText(comment.body);
+    setEditing(false);
+  };
+
+  const save = () => {
+    if (!text.trim()) return;
+    review.onUpdate(comment.id, text.trim());
+    setEditing(false);
+  };
+
+  return (
+    <div className="my-1 ml-24 mr-4 max-w-3xl font-sans whitespace-normal rounded-lg border border-purple-700/60 bg-gray-800 text-sm">
+      {editing ? (
+        <div className="p-2 space-y-2">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') cancel();
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) save();
+            }}
+            rows={3}
+            placeholder="Leave a comment..."
+            className="w-full bg-gray-900 border border-gray-600 rounded p-2 text-sm text-gray-200 focus:border-purple-500 focus:outline-none resize-y"
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={cancel} className="px-3 py-1 text-xs text-gray-400 hover:text-gray-200">Cancel</button>
+            <button
+              onClick={save}
+              disabled={!text.trim()}
+              className="px-3 py-1 rounded text-xs font-medium bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-start gap-2 p-2">
+          <MessageSquare size={14} className="shrink-0 mt-0.5 text-purple-400" />
+          <p className="flex-1 text-gray-200 whitespace-pre-wrap">{comment.body}</p>
+          <button onClick={() => setEditing(true)} className="p-1 text-gray-500 hover:text-gray-200" title="Edit comment">
+            <Pencil size={12} />
+          </button>
+          <button onClick={() => review.onDelete(comment.id)} className="p-1 text-gray-500 hover:text-red-400" title="Delete comment">
+            <Trash2 size={12} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Renders one file of a comparison, folding unchanged stretches that can be expanded on click
+const DiffView: React.FC<DiffViewProps> = ({ diff, layout, review }) => {
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const isBinary = !!diff.oldContent?.includes('\0') || !!diff.newContent?.includes('\0');
+  const sections = useMemo(
+    () => (diff.loading || diff.error || isBinary ? [] : foldDiff(numberDiffLines(diff.oldContent ?? '', diff.newContent ?? ''))),
+    [diff.oldContent, diff.newContent, diff.loading, diff.error, isBinary]
+  );
+
+  if (diff.loading) {
+    return (
+      <div className="h-full flex items-center justify-center text-blue-400">
+        <Loader2 className="animate-spin mr-2" />
+        <span>Loading diff...</span>
+      </div>
+    );
+  }
+  if (diff.error) {
+    return <div className="h-full flex items-center justify-center text-red-400"><p>{diff.error}</p></div>;
+  }
+  if (isBinary) {
+    return (
+      <div className="h-full flex items-center justify-center gap-2 text-sm text-gray-400">
+        <Binary size={16} /> Binary file changed
+      </div>
+    );
+  }
+  if (!sections.some(s => s.type === 'lines')) {
+    return <div className="h-full flex items-center justify-center text-sm text-gray-500">No content changes{diff.file.previousPath && ' (renamed only)'}</div>;
+  }
+
+  const addButton = (line: DiffLine | undefined, commentable: boolean) => review && (
+    <span className="select-none shrink-0 w-6 flex justify-center">
+      {commentable && line && (
+        <button
+          onClick={() => review.onAdd(line)}
+          className="opacity-0 group-hover:opacity-100 my-0.5 px-0.5 rounded bg-purple-600 text-white"
+          title="Comment on this line"
+        >
+          <Plus size={12} />
+        </button>
+      )}
+    </span>
+  );
+
+  const commentsAt = (lines: (DiffLine | undefined)[]) => review && review.comments
+    .filter(c => lines.some(line => line && isAnchoredAt(c, line)))
+    .map(c => <CommentBox key={c.id} comment={c} review={review} />);
+
+  const renderLines = (lines: DiffLine[], commentable: boolean) => layout === 'unified'
+    ? lines.map((line, i) => (
+        <React.Fragment key={i}>
+          <div className={`group flex ${lineClass(line)}`}>
+            {addButton(line, commentable)}
+            <Gutter n={line.oldLine} />
+            <Gutter n={line.newLine} />
+            <span className="whitespace-pre pr-4"><span className="select-none text-gray-500">{marker(line)} </span>{line.text}</span>
+          </div>
+          {commentsAt([line])}
+        </React.Fragment>
+      ))
+    : pairDiffLines(lines).map((row, i) => (
+        <React.Fragment key={i}>
+          <div className="flex">
+            {[row.left, row.right].map((line, side) => (
+              <div key={side} className={`group flex w-1/2 min-w-0 overflow-hidden ${side === 0 ? 'border-r border-gray-800' : ''} ${lineClass(line)}`}>
+                {addButton(line, commentable)}
+                <Gutter n={side === 0 ? line?.oldLine : line?.newLine} />
+                <span className="whitespace-pre pr-4">{line?.text ?? ''}</span>
+              </div>
+            ))}
+          </div>
+          {commentsAt(row.left === row.right ? [row.left] : [row.left, row.right])}
+        </React.Fragment>
+      ));
+
+  return (
+    <div className="h-full overflow-auto custom-scrollbar py-4">
+      <pre className="font-mono text-sm text-gray-300 leading-relaxed tab-4">
+        <code>
+          {sections.map((section, i) => section.type === 'lines' || expanded.has(i) ? (
+            <React.Fragment key={i}>{renderLines(section.lines, section.type === 'lines')}</React.Fragment>
+          ) : (
+            <button
+              key={i}
+              onClick={() => setExpanded(prev => new Set(prev).add(i))}
+              className="w-full flex items-center gap-2 px-4 py-1 my-1 text-xs font-sans text-blue-300/80 bg-blue-900/10 hover:bg-blue-900/20"
+            >
+              <ChevronsUpDown size={12} />
+              {section.lines.length} unchanged line{section.lines.length === 1 ? '' : 's'}
+            </button>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+export default DiffView;
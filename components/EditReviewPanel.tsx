@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { ProposedEdit } from '../types';
+import { DiffHunk, diffHunks, splitLines } from '../services/diff';
+import { Sparkles, Check, X, FilePlus } from 'lucide-react';
+
+interface EditReviewPanelProps {
+  edit: ProposedEdit; // The oldest pending edit; the others wait their turn
+  pending: number;
+  onResolve: (accepted: boolean[], feedback: string) => void; // One flag per hunk of diffHunks(original, proposed)
+}
+
+const CONTEXT = 3;
+
+const HunkView: React.FC<{ hunk: DiffHunk; original: string[]; accepted: boolean; onToggle: () => void }> = ({ hunk, original, accepted, onToggle }) => {
+  const before = original.slice(Math.max(0, hunk.oldStart - CONTEXT), hunk.oldStart);
+  const after = original.slice(hunk.oldEnd, hunk.oldEnd + CONTEXT);
+  const firstLine = hunk.oldStart - before.length + 1;
+
+  const row = (text: string, n: number | undefined, type: 'equal' | 'insert' | 'delete', key: string) => (
+    <div key={key} className={`flex ${type === 'insert' ? 'bg-green-500/10' : type === 'delete' ? 'bg-red-500/10' : ''}`}>
+      <span className="select-none shrink-0 w-12 pr-3 text-right text-gray-600">{n ?? ''}</span>
+      <span className="whitespace-pre pr-4">
+        <span className="select-none text-gray-500">{type === 'insert' ? '+' : type === 'delete' ? '-' : ' '} </span>{text}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className={`rounded-lg border overflow-hidden ${accepted ? 'border-gray-700' : 'border-gray-800 opacity-50'}`}>
+      <div className="flex items-center justify-between px-3 py-1.5 bg-gray-800 text-xs">
+        <span className="text-gray-400">
+          {hunk.oldEnd > hunk.oldStart ? `Lines ${hunk.oldStart + 1}-${hunk.oldEnd}` : `After line ${hunk.oldStart}`}
+          <span className="ml-2 text-green-400">+{hunk.lines.length}</span>
+          <span className="ml-1 text-red-400">-{hunk.oldEnd - hunk.oldStart}</span>
+        </span>
+        <button
+          onClick={onToggle}
+          className={`flex items-center gap-1 px-2 py-0.5 rounded font-medium ${accepted ? 'bg-green-600/20 text-green-300 hover:bg-green-600/30' : 'bg-red-600/20 text-red-300 hover:bg-red-600/30'}`}
+          title={accepted ? 'Click to reject this change' : 'Click to accept this change'}
+        >
+          {accepted ? <><Check size={12} /> Accepted</> : <><X size={12} /> Rejected</>}
+        </button>
+      </div>
+      <pre className="overflow-x-auto custom-scrollbar py-1 font-mono text-xs text-gray-300 leading-relaxed tab-4">
+        {before.map((text, i) => row(text, firstLine + i, 'equal', `b${i}`))}
+        {original.slice(hunk.oldStart, hunk.oldEnd).map((text, i) => row(text, hunk.oldStart + i + 1, 'delete', `d${i}`))}
+        {hunk.lines.map((text, i) => row(text, undefined, 'insert', `i${i}`))}
+        {after.map((text, i) => row(text, hunk.oldEnd + i + 1, 'equal', `a${i}`))}
+      </pre>
+    </div>
+  );
+};
+
+// Review of a change the AI proposed: every hunk can be accepted or rejected on its own, and the
+// outcome (with an optional note) goes back to the model as the tool result.
+const EditReviewPanel: React.FC<EditReviewPanelProps> = ({ edit, pending, onResolve }) => {
+  const original = useMemo(() => splitLines(edit.original ?? ''), [edit]);
+  const hunks = useMemo(() => diffHunks(original, splitLines(edit.proposed)), [edit, original]);
+  const [accepted, setAccepted] = useState<boolean[]>(() => hunks.map(() => true));
+  const [feedback, setFeedback] = useState('');
+
+  const acceptedCount = accepted.filter(Boolean).length;
+  const setAll = (value: boolean) => setAccepted(hunks.map(() => value));
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 bg-gray-900">
+      <div className="shrink-0 border-b border-gray-800 px-4 py-3 space-y-1">
+        <div className="flex items-center gap-2 text-sm">
+          <Sparkles size={16} className="text-purple-400 shrink-0" />
+          <span className="font-semibold text-white">Review AI change</span>
+          <span className="font-mono text-gray-300 truncate">{edit.path}</span>
+          {edit.original === null && (
+            <span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-green-900/40 text-green-300 text-xs"><FilePlus size={12} /> New file</span>
+          )}
+          {pending > 1 && <span className="ml-auto text-xs text-gray-500 shrink-0">1 of {pending} pending</span>}
+        </div>
+        <p className="text-xs text-gray-400">{edit.description}</p>
+      </div>
+
+      <div className="flex-1 overflow-auto custom-scrollbar p-4 space-y-3">
+        {hunks.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">The proposed content is identical to the current file.</p>
+        ) : hunks.map((hunk, i) => (
+          <HunkView
+            key={i}
+            hunk={hunk}
+            original={original}
+            accepted={accepted[i]}
+            onToggle={() => setAccepted(prev => prev.map((a, j) => (j === i ? !a : a)))}
+          />
+        ))}
+      </div>
+
+      <div className="shrink-0 border-t border-gray-800 p-3 space-y-2">
+        <textarea
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          placeholder="Note to the AI (optional), e.g. why a change was rejected..."
+          className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-xs text-gray-200 focus:border-purple-500 focus:outline-none h-14 resize-none"
+        />
+        <div className="flex items-center gap-2">
+          {hunks.length > 1 && (
+            <>
+              <button onClick={() => setAll(true)} className="px-2 py-1 text-xs text-gray-400 hover:text-gray-200">Accept all</button>
+              <button onClick={() => setAll(false)} className="px-2 py-1 text-xs text-gray-400 hover:text-gray-200">Reject all</button>
+              <span className="text-xs text-gray-500">{acceptedCount} of {hunks.length} accepted</span>
+            </>
+          )}
+          <div className="ml-auto flex gap-2">
+            <button
+              onClick={() => onResolve(hunks.map(() => false), feedback)}
+              className="flex items-center gap-1 px-3 py-1.5 rounded text-xs font-medium text-red-300 border border-red-900/60 hover:bg-red-900/30"
+            >
+              <X size={14} /> Reject
+            </button>
+            <button
+              onClick={() => onResolve(accepted, feedback)}
+              disabled={hunks.length > 0 && acceptedCount === 0}
+              className="flex items-center gap-1 px-3 py-1.5 rounded text-xs font-medium bg-green-600 hover:bg-green-500 disabled:opacity-50 disabled:hover:bg-green-600 text-white"
+            >
+              <Check size={14} /> {acceptedCount === hunks.length ? 'Apply' : `Apply ${acceptedCount} of ${hunks.length}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditReviewPanel;
@@ -0,0 +1,123 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CommitInfo, RepoDetails, RepoProvider } from '../types';
+import { Loader2, ExternalLink, Eye, AlertCircle, GitCommitHorizontal } from 'lucide-react';
+
+interface FileHistoryProps {
+  provider: RepoProvider;
+  repoDetails: RepoDetails;
+  currentRef: string;
+  path: string;
+  viewingSha?: string; // Commit whose version of the file is open
+  onViewCommit: (commit: CommitInfo) => void;
+}
+
+export const formatCommitDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+// Commits that touched `path` on the current ref, newest first, a page at a time
+const FileHistory: React.FC<FileHistoryProps> = ({ provider, repoDetails, currentRef, path, viewingSha, onViewCommit }) => {
+  const [commits, setCommits] = useState<CommitInfo[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Answers for a previous file or ref are dropped
+  const requestRef = useRef(0);
+
+  const loadPage = async (next: number) => {
+    const request = ++requestRef.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await provider.fetchFileHistory(repoDetails.owner, repoDetails.name, currentRef, path, next);
+      if (request !== requestRef.current) return;
+      setCommits(prev => (next === 1 ? result.commits : [...prev, ...result.commits]));
+      setHasMore(result.hasMore);
+      setPage(next);
+    } catch (err) {
+      if (request === requestRef.current) setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setCommits([]);
+    loadPage(1);
+  }, [provider, repoDetails.owner, repoDetails.name, currentRef, path]);
+
+  return (
+    <div className="h-full overflow-auto custom-scrollbar p-4">
+      <div className="max-w-3xl mx-auto space-y-2">
+        {commits.map(commit => {
+          const [summary, ...rest] = commit.message.split('\n');
+          const isViewing = commit.sha === viewingSha;
+          return (
+            <div
+              key={commit.sha}
+              className={`flex items-start gap-3 p-3 rounded-lg border transition-colors ${isViewing ? 'bg-blue-900/20 border-blue-700' : 'bg-gray-800/50 border-gray-700 hover:border-gray-600'}`}
+            >
+              {commit.avatarUrl ? (
+                <img src={commit.avatarUrl} alt="" className="w-8 h-8 rounded-full shrink-0" />
+              ) : (
+                <div className="w-8 h-8 rounded-full shrink-0 bg-gray-700 flex items-center justify-center text-gray-400">
+                  <GitCommitHorizontal size={16} />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-200 font-medium truncate" title={rest.join('\n').trim() || summary}>{summary}</div>
+                <div className="text-xs text-gray-500 mt-0.5">
+                  <span className="text-gray-400">{commit.author}</span> committed on {formatCommitDate(commit.date)}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <code className="text-xs text-gray-500 font-mono mr-1">{commit.sha.slice(0, 7)}</code>
+                <button
+                  onClick={() => onViewCommit(commit)}
+                  className="p-1.5 text-gray-400 hover:text-blue-400 hover:bg-gray-700 rounded-lg transition-colors"
+                  title="View the file at this commit"
+                >
+                  <Eye size={14} />
+                </button>
+                <a
+                  href={commit.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+                  title={`Open on ${provider.host.label}`}
+                >
+                  <ExternalLink size={14} />
+                </a>
+              </div>
+            </div>
+          );
+        })}
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-lg text-xs text-red-300 flex gap-2">
+            <AlertCircle size={14} className="shrink-0 mt-0.5" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 text-sm text-blue-400 py-4">
+            <Loader2 size={16} className="animate-spin" />
+            Loading history...
+          </div>
+        ) : hasMore ? (
+          <button
+            onClick={() => loadPage(page + 1)}
+            className="w-full py-2 text-xs font-medium text-gray-300 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg transition-colors"
+          >
+            Load older commits
+          </button>
+        ) : !error && commits.length === 0 ? (
+          <p className="text-center text-sm text-gray-500 py-8">No commits touch this file on {currentRef}.</p>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+export default FileHistory;
@@ -1,22 +1,42 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { FileNode } from '../types';
-import { Folder, FolderOpen, FileCode, File, FileJson, FileImage, ChevronRight, ChevronDown } from 'lucide-react';
+import { isSymlink } from '../services/tree';
+import { Folder, FolderOpen, FileCode, File, FileJson, FileImage, ChevronRight, ChevronDown, Loader2, FolderGit2, FileSymlink } from 'lucide-react';
 
 interface FileTreeProps {
   nodes: FileNode[];
   onSelectFile: (node: FileNode) => void;
   selectedPath?: string;
+  revealPath?: string; // Folders on the way to this path are expanded
+  deletedPaths?: string[]; // Files staged for deletion
+  onExpandDirectory?: (node: FileNode) => Promise<unknown>; // Loads `unloaded` folders
 }
 
 const FileIcon = ({ name }: { name: string }) => {
   if (name.endsWith('.tsx') || name.endsWith('.ts') || name.endsWith('.js') || name.endsWith('.jsx')) return <FileCode size={16} className="text-blue-400" />;
   if (name.endsWith('.json')) return <FileJson size={16} className="text-yellow-400" />;
-  if (name.endsWith('.png') || name.endsWith('.jpg') || name.endsWith('.svg')) return <FileImage size={16} className="text-purple-400" />;
+  if (/\.(png|jpe?g|gif|svg|webp|ico|bmp|avif)$/i.test(name)) return <FileImage size={16} className="text-purple-400" />;
   return <File size={16} className="text-gray-400" />;
 };
 
-const TreeNode: React.FC<{ node: FileNode; onSelect: (n: FileNode) => void; selectedPath?: string; depth: number }> = ({ node, onSelect, selectedPath, depth }) => {
-  const [isOpen, setIsOpen] = useState(false);
+const isAncestorOf = (node: FileNode, path?: string) => !!path && (path === node.path || path.startsWith(`${node.path}/`));
+
+type TreeNodeProps = Omit<FileTreeProps, 'nodes' | 'onSelectFile'> & { node: FileNode; onSelect: (n: FileNode) => void; depth: number };
+
+const TreeNode: React.FC<TreeNodeProps> = ({ node, onSelect, selectedPath, revealPath, deletedPaths, onExpandDirectory, depth }) => {
+  const [isOpen, setIsOpen] = useState(() => node.type === 'tree' && isAncestorOf(node, revealPath));
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Folders from truncated trees fetch their children the first time they're opened
+  useEffect(() => {
+    if (!isOpen || !node.unloaded || !onExpandDirectory) return;
+    setIsLoading(true);
+    onExpandDirectory(node).catch(console.error).finally(() => setIsLoading(false));
+  }, [isOpen, node.unloaded]);
+
+  useEffect(() => {
+    if (node.type === 'tree' && isAncestorOf(node, revealPath)) setIsOpen(true);
+  }, [revealPath, node.path, node.type]);
   
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -28,6 +48,7 @@ const TreeNode: React.FC<{ node: FileNode; onSelect: (n: FileNode) => void; sele
   };
 
   const isSelected = selectedPath === node.path;
+  const isDeleted = !!deletedPaths?.includes(node.path);
 
   return (
     <div>
@@ -40,15 +61,23 @@ const TreeNode: React.FC<{ node: FileNode; onSelect: (n: FileNode) => void; sele
       >
         {node.type === 'tree' && (
           <span className="text-gray-500">
-            {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+            {isLoading ? <Loader2 size={14} className="animate-spin" /> : isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
           </span>
         )}
         {node.type === 'tree' ? (
            isOpen ? <FolderOpen size={16} className="text-yellow-500" /> : <Folder size={16} className="text-yellow-500" />
+        ) : node.type === 'commit' ? (
+          <FolderGit2 size={16} className="text-orange-400" />
+        ) : isSymlink(node) ? (
+          <FileSymlink size={16} className="text-cyan-400" />
         ) : (
           <FileIcon name={node.name} />
         )}
-        <span className="truncate">{node.name}</span>
+        <span className={`truncate ${isDeleted ? 'line-through text-red-400/70' : ''}`}>{node.name}</span>
+        {/* Submodules show the commit they pin, like on GitHub */}
+        {node.type === 'commit' && node.sha && (
+          <span className="text-[10px] font-mono text-gray-500 shrink-0" title={`Submodule at ${node.sha}`}>@ {node.sha.slice(0, 7)}</span>
+        )}
       </div>
       
       {node.type === 'tree' && isOpen && node.children && (
@@ -59,6 +88,9 @@ const TreeNode: React.FC<{ node: FileNode; onSelect: (n: FileNode) => void; sele
               node={child} 
               onSelect={onSelect} 
               selectedPath={selectedPath}
+              revealPath={revealPath}
+              deletedPaths={deletedPaths}
+              onExpandDirectory={onExpandDirectory}
               depth={depth + 1}
             />
           ))}
@@ -68,7 +100,7 @@ const TreeNode: React.FC<{ node: FileNode; onSelect: (n: FileNode) => void; sele
   );
 };
 
-const FileTree: React.FC<FileTreeProps> = ({ nodes, onSelectFile, selectedPath }) => {
+const FileTree: React.FC<FileTreeProps> = ({ nodes, onSelectFile, selectedPath, revealPath, deletedPaths, onExpandDirectory }) => {
   return (
     <div className="flex flex-col select-none pb-4">
       {nodes.map(node => (
@@ -77,6 +109,9 @@ const FileTree: React.FC<FileTreeProps> = ({ nodes, onSelectFile, selectedPath }
           node={node} 
           onSelect={onSelectFile}
           selectedPath={selectedPath}
+          revealPath={revealPath}
+          deletedPaths={deletedPaths}
+          onExpandDirectory={onExpandDirectory}
           depth={0}
         />
       ))}
@@ -0,0 +1,87 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { HostConfig, RateLimitInfo } from '../types';
+import { HOST_KINDS } from '../services/providers';
+import { KeyRound, Gauge, Clock } from 'lucide-react';
+
+interface HostStatusProps {
+  host: HostConfig;
+  token: string;
+  onTokenChange: (token: string) => void;
+  rateLimit: RateLimitInfo | null;
+}
+
+const formatTime = (epochMs: number) => new Date(epochMs).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const HostStatus: React.FC<HostStatusProps> = ({ host, token, onTokenChange, rateLimit }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Tick while a retry countdown is visible
+  useEffect(() => {
+    if (!rateLimit?.retryingAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [rateLimit?.retryingAt]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const ratio = rateLimit ? rateLimit.remaining / Math.max(rateLimit.limit, 1) : 1;
+  const quotaColor = ratio < 0.1 ? 'text-red-400' : ratio < 0.3 ? 'text-yellow-400' : 'text-gray-400';
+
+  return (
+    <div ref={containerRef} className="relative flex items-center gap-2">
+      {rateLimit?.retryingAt ? (
+        <span className="flex items-center gap-1 text-xs text-yellow-400" title={`${host.label} rate limit hit, waiting before retrying`}>
+          <Clock size={14} className="animate-pulse" />
+          Retrying in {Math.max(Math.ceil((rateLimit.retryingAt - now) / 1000), 0)}s
+        </span>
+      ) : rateLimit && (
+        <span
+          className={`flex items-center gap-1 text-xs font-mono ${quotaColor}`}
+          title={`${host.label} API quota (${rateLimit.resource}). Resets at ${formatTime(rateLimit.resetAt)}.`}
+        >
+          <Gauge size={14} />
+          {rateLimit.remaining.toLocaleString()}/{rateLimit.limit.toLocaleString()}
+        </span>
+      )}
+
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-2 rounded-lg transition-colors ${token ? 'text-green-400 hover:bg-gray-800' : 'text-gray-400 hover:bg-gray-800 hover:text-gray-200'}`}
+        title={token ? `${host.label} token set` : `Add a ${host.label} token`}
+      >
+        <KeyRound size={18} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-80 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-3 z-50 space-y-2">
+          <label className="block text-xs font-medium text-gray-400">{host.label} Access Token <span className="text-gray-600 font-normal">({host.id})</span></label>
+          <input
+            type="password"
+            value={token}
+            onChange={(e) => onTokenChange(e.target.value)}
+            placeholder={HOST_KINDS[host.kind].tokenPlaceholder}
+            className="w-full bg-gray-900 border border-gray-600 rounded p-2 text-xs text-gray-200 focus:border-blue-500 focus:outline-none"
+            autoFocus
+          />
+          <p className="text-[10px] text-gray-500 leading-relaxed">
+            Used for all requests to {host.label}: raises the rate limit and lets you open private repositories.
+            Kept for this browser session only, one token per host.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HostStatus;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { MergeConflict } from '../types';
+import { merge3, renderMerge, hasConflictMarkers } from '../services/diff';
+import { GitMerge, X, Check, AlertTriangle } from 'lucide-react';
+
+interface MergeViewProps {
+  conflicts: MergeConflict[];
+  onResolve: (files: Record<string, string | null>) => void;
+  onCancel: () => void;
+}
+
+// Initial resolution: an auto-merge with conflict markers, or undecided when one side deleted the file
+const initialResolution = (conflict: MergeConflict): string | null | undefined => {
+  if (conflict.ours === null || conflict.theirs === null) return undefined;
+  return renderMerge(merge3(conflict.base, conflict.ours, conflict.theirs));
+};
+
+const Pane = ({ title, content, className }: { title: string; content: string | null; className: string }) => (
+  <div className="flex-1 min-w-0 flex flex-col border-r border-gray-800 last:border-r-0">
+    <div className={`shrink-0 px-3 py-1.5 text-xs font-semibold border-b border-gray-800 ${className}`}>{title}</div>
+    <div className="flex-1 overflow-auto custom-scrollbar p-3">
+      {content === null ? (
+        <p className="text-xs italic text-gray-500">Deleted</p>
+      ) : (
+        <pre className="font-mono text-xs text-gray-300 leading-relaxed whitespace-pre">{content}</pre>
+      )}
+    </div>
+  </div>
+);
+
+const MergeView: React.FC<MergeViewProps> = ({ conflicts, onResolve, onCancel }) => {
+  const [activePath, setActivePath] = useState(conflicts[0]?.path);
+  // undefined = still needs a decision
+  const [resolutions, setResolutions] = useState<Record<string, string | null | undefined>>(
+    () => Object.fromEntries(conflicts.map(c => [c.path, initialResolution(c)]))
+  );
+
+  const isResolved = (path: string) => {
+    const value = resolutions[path];
+    return value === null || (typeof value === 'string' && !hasConflictMarkers(value));
+  };
+  const allResolved = conflicts.every(c => isResolved(c.path));
+  const active = conflicts.find(c => c.path === activePath) ?? conflicts[0];
+  const activeResolution = resolutions[active.path];
+
+  const setResolution = (value: string | null) => {
+    setResolutions(prev => ({ ...prev, [active.path]: value }));
+  };
+
+  const handleResolve = () => {
+    if (!allResolved) return;
+    onResolve(Object.fromEntries(conflicts.map(c => [c.path, resolutions[c.path] as string | null])));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-gray-950 flex flex-col">
+      {/* Header */}
+      <div className="h-14 shrink-0 border-b border-gray-800 flex items-center justify-between px-4">
+        <div className="flex items-center gap-2 text-white font-semibold">
+          <GitMerge size={20} className="text-yellow-400" />
+          Resolve Conflicts
+          <span className="text-xs font-normal text-gray-500">
+            {conflicts.filter(c => isResolved(c.path)).length}/{conflicts.length} resolved
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleResolve}
+            disabled={!allResolved}
+            className="bg-green-600 hover:bg-green-500 disabled:opacity-50 disabled:hover:bg-green-600 text-white px-4 py-1.5 rounded-lg text-sm font-medium flex items-center gap-2"
+          >
+            <Check size={16} />
+            Use Resolutions & Push
+          </button>
+          <button onClick={onCancel} className="p-2 text-gray-500 hover:text-white" title="Cancel push">
+            <X size={20} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* File List */}
+        <div className="w-64 shrink-0 border-r border-gray-800 overflow-y-auto custom-scrollbar py-2">
+          {conflicts.map(c => (
+            <button
+              key={c.path}
+              onClick={() => setActivePath(c.path)}
+              className={`w-full flex items-center gap-2 px-3 py-1.5 text-xs font-mono text-left ${c.path === active.path ? 'bg-blue-900/40 text-blue-200' : 'text-gray-300 hover:bg-gray-800'}`}
+            >
+              {isResolved(c.path)
+                ? <Check size={14} className="shrink-0 text-green-400" />
+                : <AlertTriangle size={14} className="shrink-0 text-yellow-400" />}
+              <span className="truncate">{c.path}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 min-w-0 flex flex-col">
+          {/* Base / Ours / Theirs */}
+          <div className="h-1/2 flex border-b border-gray-800">
+            <Pane title="Base (when you loaded it)" content={active.base} className="text-gray-400" />
+            <Pane title="Ours (your changes)" content={active.ours} className="text-blue-300" />
+            <Pane title="Theirs (remote now)" content={active.theirs} className="text-purple-300" />
+          </div>
+
+          {/* Result */}
+          <div className="flex-1 min-h-0 flex flex-col">
+            <div className="shrink-0 flex items-center justify-between px-3 py-1.5 border-b border-gray-800">
+              <span className="text-xs font-semibold text-gray-300">Result</span>
+              <div className="flex items-center gap-2 text-xs">
+                <button onClick={() => setResolution(active.ours)} className="px-2 py-1 rounded bg-gray-800 text-blue-300 hover:bg-gray-700">
+                  {active.ours === null ? 'Keep Deleted' : 'Take Ours'}
+                </button>
+                <button onClick={() => setResolution(active.theirs)} className="px-2 py-1 rounded bg-gray-800 text-purple-300 hover:bg-gray-700">
+                  {active.theirs === null ? 'Accept Deletion' : 'Take Theirs'}
+                </button>
+                {active.ours !== null && active.theirs !== null && (
+                  <button onClick={() => setResolution(initialResolution(active) as string)} className="px-2 py-1 rounded bg-gray-800 text-gray-300 hover:bg-gray-700">
+                    Reset to Auto-Merge
+                  </button>
+                )}
+              </div>
+            </div>
+            {activeResolution === undefined ? (
+              <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+                The file was deleted on one side. Choose which version to keep.
+              </div>
+            ) : activeResolution === null ? (
+              <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+                The file will be deleted.
+              </div>
+            ) : (
+              <textarea
+                value={activeResolution}
+                onChange={(e) => setResolution(e.target.value)}
+                spellCheck={false}
+                className="flex-1 bg-gray-900 p-3 font-mono text-xs text-gray-200 leading-relaxed resize-none focus:outline-none"
+              />
+            )}
+            {typeof activeResolution === 'string' && hasConflictMarkers(activeResolution) && (
+              <div className="shrink-0 px-3 py-1.5 text-xs text-yellow-300 bg-yellow-900/20 border-t border-yellow-900/50">
+                Remove all <span className="font-mono">{'<<<<<<<'}</span> / <span className="font-mono">{'>>>>>>>'}</span> conflict markers to mark this file resolved.
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeView;
@@ -0,0 +1,146 @@
+import React from 'react';
+import { AgentPlan, PlanStep } from '../types';
+import { ListChecks, Play, Plus, Trash2, Circle, CheckCircle2, XCircle, Loader2, MinusCircle, FileCode } from 'lucide-react';
+
+interface PlanViewProps {
+  plan: AgentPlan;
+  disabled: boolean; // Another run is in progress
+  onChange: (plan: AgentPlan) => void;
+  onRun: () => void;
+  onOpenFile?: (path: string) => void;
+}
+
+const STATUS_ICONS: Record<PlanStep['status'], React.ReactNode> = {
+  pending: <Circle size={14} className="text-gray-500" />,
+  running: <Loader2 size={14} className="text-blue-400 animate-spin" />,
+  done: <CheckCircle2 size={14} className="text-emerald-400" />,
+  failed: <XCircle size={14} className="text-red-400" />,
+  skipped: <MinusCircle size={14} className="text-gray-600" />,
+};
+
+const parseFiles = (text: string) => text.split(',').map(f => f.trim()).filter(Boolean);
+
+// A proposed plan as a checklist. Before it runs (or after it stopped) the open steps can be edited,
+// unchecked to skip them, removed or added to; while it runs each step shows its progress and the files it changed.
+const PlanView: React.FC<PlanViewProps> = ({ plan, disabled, onChange, onRun, onOpenFile }) => {
+  const editable = plan.status === 'draft' || plan.status === 'stopped';
+  const open = plan.steps.filter(s => s.status !== 'done' && s.status !== 'skipped').length;
+  const done = plan.steps.filter(s => s.status === 'done').length;
+
+  const updateStep = (id: string, changes: Partial<PlanStep>) =>
+    onChange({ ...plan, steps: plan.steps.map(s => (s.id === id ? { ...s, ...changes } : s)) });
+  const removeStep = (id: string) => onChange({ ...plan, steps: plan.steps.filter(s => s.id !== id) });
+  const addStep = () => onChange({
+    ...plan,
+    steps: [...plan.steps, { id: `${Date.now()}`, title: '', files: [], status: 'pending', touched: [] }],
+  });
+
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-700 text-xs">
+      <div className="flex items-center gap-2 text-gray-400 mb-1.5">
+        <ListChecks size={14} />
+        <span className="font-medium text-gray-300">Plan</span>
+        <span className="text-gray-500">
+          {done} of {plan.steps.filter(s => s.status !== 'skipped').length} steps done
+          {plan.status === 'stopped' && ' · stopped'}
+        </span>
+      </div>
+
+      <ol className="space-y-1.5">
+        {plan.steps.map((step, i) => {
+          const stepEditable = editable && step.status !== 'done';
+          return (
+            <li key={step.id} className="flex gap-2">
+              {stepEditable ? (
+                <input
+                  type="checkbox"
+                  checked={step.status !== 'skipped'}
+                  onChange={(e) => updateStep(step.id, { status: e.target.checked ? 'pending' : 'skipped' })}
+                  className="mt-1 shrink-0 accent-blue-500"
+                  title={step.status === 'skipped' ? 'Include this step' : 'Skip this step'}
+                />
+              ) : (
+                <span className="mt-0.5 shrink-0">{STATUS_ICONS[step.status]}</span>
+              )}
+              <div className="min-w-0 flex-1 space-y-1">
+                {stepEditable ? (
+                  <>
+                    <input
+                      type="text"
+                      value={step.title}
+                      onChange={(e) => updateStep(step.id, { title: e.target.value })}
+                      placeholder={`Step ${i + 1}`}
+                      className={`w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-blue-500 ${step.status === 'skipped' ? 'opacity-50 line-through' : ''}`}
+                    />
+                    {/* Committed on blur, so typing a comma doesn't get trimmed away */}
+                    <input
+                      key={step.files.join(',')}
+                      type="text"
+                      defaultValue={step.files.join(', ')}
+                      onBlur={(e) => updateStep(step.id, { files: parseFiles(e.target.value) })}
+                      placeholder="Files, comma separated"
+                      className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 font-mono text-[11px] text-gray-400 focus:outline-none focus:border-blue-500"
+                    />
+                  </>
+                ) : (
+                  <>
+                    <div className={step.status === 'skipped' ? 'text-gray-500 line-through' : 'text-gray-200'}>{step.title}</div>
+                    {step.files.length > 0 && <div className="font-mono text-[11px] text-gray-500 truncate">{step.files.join(', ')}</div>}
+                  </>
+                )}
+                {step.touched.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {step.touched.map(path => (
+                      <button
+                        key={path}
+                        type="button"
+                        onClick={() => onOpenFile?.(path)}
+                        className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-emerald-600/20 text-emerald-300 hover:bg-emerald-600/30 font-mono text-[11px]"
+                        title={`Changed in this step. Open ${path}`}
+                      >
+                        <FileCode size={11} />
+                        {path}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {stepEditable && (
+                <button
+                  type="button"
+                  onClick={() => removeStep(step.id)}
+                  className="shrink-0 self-start p-1 text-gray-500 hover:text-red-400"
+                  title="Remove step"
+                >
+                  <Trash2 size={12} />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {editable && (
+        <div className="flex items-center gap-2 mt-2">
+          <button
+            type="button"
+            onClick={addStep}
+            className="flex items-center gap-1 px-2 py-1 rounded text-gray-400 hover:text-gray-200 hover:bg-gray-700"
+          >
+            <Plus size={12} /> Add step
+          </button>
+          <button
+            type="button"
+            onClick={onRun}
+            disabled={disabled || open === 0 || plan.steps.some(s => s.status !== 'skipped' && s.status !== 'done' && !s.title.trim())}
+            className="ml-auto flex items-center gap-1 px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 text-white font-medium disabled:opacity-50 disabled:hover:bg-blue-600"
+          >
+            <Play size={12} /> {plan.status === 'stopped' ? 'Resume' : 'Run plan'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlanView;
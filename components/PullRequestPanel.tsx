@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { PullRequestInfo, ReviewEvent } from '../types';
+import { Loader2, AlertCircle, ExternalLink, Sparkles, Send, GitPullRequest, CheckCircle } from 'lucide-react';
+
+interface PullRequestPanelProps {
+  pr: PullRequestInfo;
+  hostLabel: string;
+  commentCount: number;
+  ready: boolean; // The changed files are listed
+  onAiReview: () => Promise<{ summary: string; notes: string[] }>;
+  onSubmit: (body: string, event: ReviewEvent) => Promise<string>; // Resolves to the review's URL
+}
+
+const STATE_STYLES: Record<PullRequestInfo['state'], string> = {
+  open: 'bg-green-900 text-green-200 border-green-700',
+  merged: 'bg-purple-900 text-purple-200 border-purple-700',
+  closed: 'bg-red-900 text-red-200 border-red-700',
+};
+
+const EVENTS: { value: ReviewEvent; label: string }[] = [
+  { value: 'COMMENT', label: 'Comment' },
+  { value: 'APPROVE', label: 'Approve' },
+  { value: 'REQUEST_CHANGES', label: 'Request changes' },
+];
+
+// The open pull request, and the review being drafted for it
+const PullRequestPanel: React.FC<PullRequestPanelProps> = ({ pr, hostLabel, commentCount, ready, onAiReview, onSubmit }) => {
+  const [body, setBody] = useState('');
+  const [event, setEvent] = useState<ReviewEvent>('COMMENT');
+  const [status, setStatus] = useState<'idle' | 'reviewing' | 'submitting'>('idle');
+  const [notes, setNotes] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [submittedUrl, setSubmittedUrl] = useState<string | null>(null);
+
+  const runAiReview = async () => {
+    setStatus('reviewing');
+    setError(null);
+    setNotes([]);
+    try {
+      const result = await onAiReview();
+      if (result.summary) setBody(result.summary);
+      setNotes(result.notes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'AI review failed');
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const submit = async () => {
+    setStatus('submitting');
+    setError(null);
+    try {
+      setSubmittedUrl(await onSubmit(body, event));
+      setBody('');
+      setNotes([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit review');
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const canSubmit = status === 'idle' && (commentCount > 0 || !!body.trim() || event === 'APPROVE');
+
+  return (
+    <div className="flex flex-col gap-3 pb-3 mb-3 border-b border-gray-800">
+      <div className="space-y-1.5">
+        <div className="flex items-start gap-2">
+          <GitPullRequest size={14} className="shrink-0 mt-0.5 text-gray-400" />
+          <a href={pr.url} target="_blank" rel="noreferrer" className="flex-1 text-sm text-gray-200 font-medium hover:text-blue-400 leading-snug" title={`Open on ${hostLabel}`}>
+            {pr.title} <span className="text-gray-500 font-normal">#{pr.number}</span>
+          </a>
+        </div>
+        <div className="flex items-center gap-2 text-[11px] text-gray-500 pl-5">
+          <span className={`px-1.5 py-0.5 rounded-full border capitalize ${STATE_STYLES[pr.state]}`}>{pr.state}</span>
+          <span className="truncate">{pr.author}</span>
+        </div>
+        <div className="text-[11px] font-mono text-gray-500 pl-5 truncate" title={`${pr.head} into ${pr.base}`}>
+          {pr.isFork && 'fork:'}{pr.head} → {pr.base}
+        </div>
+      </div>
+
+      <button
+        onClick={runAiReview}
+        disabled={!ready || status !== 'idle'}
+        className="flex items-center justify-center gap-1.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 disabled:hover:bg-purple-600 text-white px-3 py-1.5 rounded-md text-xs font-medium transition-colors"
+      >
+        {status === 'reviewing' ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+        {status === 'reviewing' ? 'Reviewing...' : 'AI review'}
+      </button>
+
+      {notes.map((note, i) => (
+        <p key={i} className="text-[11px] text-yellow-300/80">{note}</p>
+      ))}
+
+      <div className="space-y-2">
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={4}
+          placeholder="Review summary (optional)"
+          className="w-full bg-gray-800 border border-gray-700 rounded p-2 text-xs text-gray-200 focus:border-blue-500 focus:outline-none resize-y"
+        />
+        <div className="flex gap-2">
+          <select
+            value={event}
+            onChange={(e) => setEvent(e.target.value as ReviewEvent)}
+            className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-blue-500"
+          >
+            {EVENTS.map(e => <option key={e.value} value={e.value}>{e.label}</option>)}
+          </select>
+          <button
+            onClick={submit}
+            disabled={!canSubmit}
+            className="flex items-center gap-1.5 bg-green-600 hover:bg-green-500 disabled:opacity-50 disabled:hover:bg-green-600 text-white px-3 py-1.5 rounded-md text-xs font-medium transition-colors"
+            title={`Submit the review with ${commentCount} line comment(s)`}
+          >
+            {status === 'submitting' ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+            Submit{commentCount > 0 && ` (${commentCount})`}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 p-2 rounded-lg text-xs text-red-300 flex gap-2">
+          <AlertCircle size={14} className="shrink-0 mt-0.5" />
+          {error}
+        </div>
+      )}
+
+      {submittedUrl && !error && (
+        <a href={submittedUrl} target="_blank" rel="noreferrer" className="flex items-center gap-1.5 text-xs text-green-400 hover:text-green-300">
+          <CheckCircle size={14} /> Review submitted <ExternalLink size={12} />
+        </a>
+      )}
+    </div>
+  );
+};
+
+export default PullRequestPanel;
@@ -0,0 +1,352 @@
+import React, { useState } from 'react';
+import { RepoDetails, GitRef, PushAccess, PushRequest, PushResult, MergeConflict, HostConfig } from '../types';
+import { HOST_KINDS } from '../services/providers';
+import MergeView from './MergeView';
+import { X, Zap, Loader2, UploadCloud, GitPullRequest, GitBranch, GitFork, ExternalLink, AlertCircle } from 'lucide-react';
+
+export interface PendingFile {
+  path: string;
+  status: 'A' | 'M' | 'D';
+}
+
+interface PushModalProps {
+  host: HostConfig;
+  repoDetails: RepoDetails;
+  refs: GitRef[];
+  currentRef: string;
+  canPushToCurrentRef: boolean;
+  pendingFiles: PendingFile[];
+  token: string;
+  onTokenChange: (token: string) => void;
+  onCheckAccess: () => Promise<PushAccess>;
+  onPush: (request: PushRequest, onProgress: (status: string) => void) => Promise<PushResult>;
+  onClose: () => void;
+}
+
+const STATUS_COLORS: Record<PendingFile['status'], string> = {
+  A: 'text-green-400',
+  M: 'text-yellow-400',
+  D: 'text-red-400',
+};
+
+const defaultBranchName = () => {
+  const stamp = new Date().toISOString().slice(0, 16).replace(/[-:]/g, '').replace('T', '-');
+  return `gitgenius/update-${stamp}`;
+};
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 rounded-lg p-2.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+const PushModal: React.FC<PushModalProps> = ({
+  host,
+  repoDetails,
+  refs,
+  currentRef,
+  canPushToCurrentRef,
+  pendingFiles,
+  token,
+  onTokenChange,
+  onCheckAccess,
+  onPush,
+  onClose
+}) => {
+  const branches = refs.filter(r => r.type === 'branch');
+
+  const [mode, setMode] = useState<PushRequest['mode']>('pull-request');
+  const [commitMessage, setCommitMessage] = useState('Update files via GitGenius');
+  const [branchName, setBranchName] = useState(defaultBranchName);
+  const [baseBranch, setBaseBranch] = useState(canPushToCurrentRef && currentRef ? currentRef : repoDetails.defaultBranch);
+  const [prTitle, setPrTitle] = useState('');
+  const [prBody, setPrBody] = useState('');
+
+  const [access, setAccess] = useState<PushAccess | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [result, setResult] = useState<Extract<PushResult, { status: 'pushed' }> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<{ request: PushRequest; headSha: string; conflicts: MergeConflict[] } | null>(null);
+
+  const isPushing = status !== null && !result;
+  const needsFork = !!access && !access.canPush;
+
+  const runPush = async (request: PushRequest) => {
+    setError(null);
+    try {
+      const pushResult = await onPush(request, setStatus);
+
+      // Someone changed our files upstream: resolve them, then push again against the same remote commit
+      if (pushResult.status === 'conflicts') {
+        setStatus(null);
+        setPendingMerge({ request, headSha: pushResult.headSha, conflicts: pushResult.conflicts });
+        return;
+      }
+
+      setResult(pushResult);
+      setStatus(pushResult.pullRequestUrl ? 'Pull request opened!' : 'Success! All files committed.');
+
+      // Direct pushes have nothing more to show, close like before
+      if (!pushResult.pullRequestUrl) setTimeout(onClose, 1500);
+    } catch (err) {
+      setStatus(null);
+      setError(err instanceof Error ? err.message : 'Failed to push changes');
+    }
+  };
+
+  const push = async (useFork: boolean) => {
+    setError(null);
+    setStatus('Checking permissions...');
+
+    try {
+      // Permissions depend on the token, so re-check whenever we don't have an answer yet
+      const currentAccess = access ?? await onCheckAccess();
+      setAccess(currentAccess);
+
+      if (!currentAccess.canPush && !useFork) {
+        setStatus(null);
+        if (mode === 'direct') {
+          setError(`You don't have write access to ${repoDetails.owner}/${repoDetails.name}. Open a pull request from your fork instead.`);
+        }
+        return; // The fork offer is rendered below
+      }
+    } catch (err) {
+      setStatus(null);
+      setError(err instanceof Error ? err.message : 'Failed to check permissions');
+      return;
+    }
+
+    await runPush({
+      mode,
+      commitMessage,
+      branch: mode === 'direct' ? currentRef : branchName.trim(),
+      baseBranch: mode === 'pull-request' ? baseBranch : undefined,
+      prTitle: prTitle.trim() || commitMessage,
+      prBody,
+      useFork,
+    });
+  };
+
+  const handleMergeResolved = (files: Record<string, string | null>) => {
+    if (!pendingMerge) return;
+    const { request, headSha } = pendingMerge;
+    setPendingMerge(null);
+    setStatus('Pushing merged changes...');
+    runPush({ ...request, resolved: { headSha, files } });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || (mode === 'direct' && !canPushToCurrentRef)) return;
+    push(false);
+  };
+
+  if (pendingMerge) {
+    return (
+      <MergeView
+        conflicts={pendingMerge.conflicts}
+        onResolve={handleMergeResolved}
+        onCancel={() => {
+          setPendingMerge(null);
+          setError('Push cancelled: resolve the conflicting files to continue.');
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 flex items-center justify-center p-4 backdrop-blur-sm">
+        <div className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl max-w-md w-full overflow-hidden animate-in fade-in zoom-in duration-200 max-h-[90vh] overflow-y-auto custom-scrollbar">
+            <div className="p-6">
+                <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-2 text-white font-semibold text-lg">
+                        <UploadCloud size={24} />
+                        Push Changes to {host.label}
+                    </div>
+                    {!isPushing && (
+                       <button onClick={onClose} className="text-gray-500 hover:text-white">
+                           <X size={20} />
+                       </button>
+                    )}
+                </div>
+
+                {status ? (
+                     <div className="flex flex-col items-center justify-center py-8 text-center space-y-4">
+                        {result ? (
+                            <div className="w-12 h-12 bg-green-500 rounded-full flex items-center justify-center mb-2">
+                                <Zap className="text-white" size={24} />
+                            </div>
+                        ) : (
+                            <Loader2 className="animate-spin text-blue-500" size={32} />
+                        )}
+                        <p className="text-gray-300 font-medium">{status}</p>
+                        {result?.pullRequestUrl && (
+                            <>
+                                <a
+                                    href={result.pullRequestUrl}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                                >
+                                    <GitPullRequest size={16} />
+                                    View Pull Request
+                                    <ExternalLink size={14} />
+                                </a>
+                                <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-300">Close</button>
+                            </>
+                        )}
+                    </div>
+                ) : (
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                        {/* Mode Toggle */}
+                        <div className="flex bg-gray-800 rounded-lg p-1 border border-gray-700">
+                            <button
+                                type="button"
+                                onClick={() => setMode('pull-request')}
+                                className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-all ${mode === 'pull-request' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                            >
+                                <GitPullRequest size={14} /> New branch + PR
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => setMode('direct')}
+                                className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-all ${mode === 'direct' ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                            >
+                                <GitBranch size={14} /> Commit directly
+                            </button>
+                        </div>
+
+                        <div>
+                            <label className="block text-xs font-medium text-gray-400 mb-1">{host.label} Access Token</label>
+                            <input
+                                type="password"
+                                value={token}
+                                onChange={(e) => { onTokenChange(e.target.value); setAccess(null); }}
+                                placeholder={HOST_KINDS[host.kind].tokenPlaceholder}
+                                className={inputClass}
+                                required
+                            />
+                            <p className="text-[10px] text-gray-500 mt-1">
+                                Token must have <span className="font-mono bg-gray-800 px-1 rounded">{HOST_KINDS[host.kind].tokenScope}</span> scope.
+                            </p>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-400 mb-1">Commit Message</label>
+                            <input
+                                type="text"
+                                value={commitMessage}
+                                onChange={(e) => setCommitMessage(e.target.value)}
+                                className={inputClass}
+                                required
+                            />
+                        </div>
+
+                        {mode === 'pull-request' && (
+                            <>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-400 mb-1">New Branch</label>
+                                        <input
+                                            type="text"
+                                            value={branchName}
+                                            onChange={(e) => setBranchName(e.target.value)}
+                                            className={`${inputClass} font-mono text-xs`}
+                                            required
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-400 mb-1">Base Branch</label>
+                                        <select
+                                            value={baseBranch}
+                                            onChange={(e) => setBaseBranch(e.target.value)}
+                                            className={`${inputClass} font-mono text-xs`}
+                                        >
+                                            {branches.length === 0 && <option value={baseBranch}>{baseBranch}</option>}
+                                            {branches.map(b => <option key={b.name} value={b.name}>{b.name}</option>)}
+                                        </select>
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-medium text-gray-400 mb-1">Pull Request Title</label>
+                                    <input
+                                        type="text"
+                                        value={prTitle}
+                                        onChange={(e) => setPrTitle(e.target.value)}
+                                        placeholder={commitMessage}
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-medium text-gray-400 mb-1">Description</label>
+                                    <textarea
+                                        value={prBody}
+                                        onChange={(e) => setPrBody(e.target.value)}
+                                        placeholder="What does this change do?"
+                                        className={`${inputClass} h-20 resize-none`}
+                                    />
+                                </div>
+                            </>
+                        )}
+
+                        <div className="max-h-32 overflow-y-auto custom-scrollbar bg-gray-800/50 border border-gray-700 rounded-lg p-2 space-y-1">
+                            {pendingFiles.map(file => (
+                                <div key={file.path} className="flex items-center gap-2 text-xs font-mono text-gray-300">
+                                    <span className={STATUS_COLORS[file.status]}>{file.status}</span>
+                                    <span className="truncate">{file.path}</span>
+                                </div>
+                            ))}
+                        </div>
+
+                        {error && (
+                            <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-lg text-xs text-red-300 flex gap-2">
+                                <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                                {error}
+                            </div>
+                        )}
+
+                        {mode === 'pull-request' && needsFork ? (
+                            <div className="bg-purple-900/20 border border-purple-900/50 p-3 rounded-lg text-xs text-purple-200 space-y-3">
+                                <p>
+                                    <strong>{access!.login}</strong> can't push to {repoDetails.owner}/{repoDetails.name}.
+                                    {access!.fork
+                                        ? <> Push the branch to your fork <strong>{access!.fork.owner}/{access!.fork.name}</strong> and open the PR from there?</>
+                                        : <> Fork the repository to your account and open the PR from the fork?</>}
+                                </p>
+                                <button
+                                    type="button"
+                                    onClick={() => push(true)}
+                                    className="w-full bg-purple-600 hover:bg-purple-500 text-white font-medium py-2 rounded-lg transition-colors flex items-center justify-center gap-2"
+                                >
+                                    <GitFork size={16} />
+                                    {access!.fork ? 'Push to My Fork' : 'Fork & Push'}
+                                </button>
+                            </div>
+                        ) : mode === 'pull-request' ? (
+                            <div className="bg-blue-900/20 border border-blue-900/50 p-3 rounded-lg text-xs text-blue-300">
+                                This will commit {pendingFiles.length} changed file(s) to a new branch <strong>{branchName || '…'}</strong> and open a pull request into <strong>{baseBranch}</strong>.
+                            </div>
+                        ) : canPushToCurrentRef ? (
+                            <div className="bg-blue-900/20 border border-blue-900/50 p-3 rounded-lg text-xs text-blue-300">
+                                This will create a single commit with {pendingFiles.length} changed file(s) on the <strong>{currentRef}</strong> branch.
+                            </div>
+                        ) : (
+                            <div className="bg-yellow-900/20 border border-yellow-900/50 p-3 rounded-lg text-xs text-yellow-300">
+                                <strong>{currentRef}</strong> is not a branch. Switch to a branch or open a pull request instead.
+                            </div>
+                        )}
+
+                        {!(mode === 'pull-request' && needsFork) && (
+                            <button
+                                type="submit"
+                                disabled={mode === 'direct' && !canPushToCurrentRef}
+                                className="w-full bg-green-600 hover:bg-green-500 disabled:opacity-50 disabled:hover:bg-green-600 text-white font-medium py-2.5 rounded-lg transition-colors flex items-center justify-center gap-2"
+                            >
+                                {mode === 'pull-request' ? <GitPullRequest size={18} /> : <UploadCloud size={18} />}
+                                {mode === 'pull-request' ? 'Create Branch & Open PR' : `Push ${pendingFiles.length} File(s)`}
+                            </button>
+                        )}
+                    </form>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default PushModal;
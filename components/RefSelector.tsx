@@ -0,0 +1,125 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { GitRef } from '../types';
+import { GitBranch, Tag, GitCommit, ChevronDown, Check } from 'lucide-react';
+
+interface RefSelectorProps {
+  refs: GitRef[];
+  currentRef: string;
+  onSelectRef: (ref: string) => void;
+  disabled?: boolean;
+  align?: 'left' | 'right'; // Which edge of the button the dropdown lines up with
+}
+
+const RefIcon = ({ type }: { type: GitRef['type'] }) => {
+  if (type === 'tag') return <Tag size={14} />;
+  if (type === 'commit') return <GitCommit size={14} />;
+  return <GitBranch size={14} />;
+};
+
+const RefSelector: React.FC<RefSelectorProps> = ({ refs, currentRef, onSelectRef, disabled, align = 'right' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [tab, setTab] = useState<'branch' | 'tag'>('branch');
+  const [filter, setFilter] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown on outside click
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const current = refs.find(r => r.name === currentRef);
+  const currentType = current?.type ?? 'commit';
+  const visibleRefs = refs.filter(r => r.type === tab && r.name.toLowerCase().includes(filter.toLowerCase()));
+  const looksLikeSha = /^[0-9a-f]{7,40}$/i.test(filter.trim());
+
+  const select = (ref: string) => {
+    onSelectRef(ref);
+    setIsOpen(false);
+    setFilter('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    // Exact matches win, otherwise treat the input as a commit SHA
+    const exact = refs.find(r => r.name === filter.trim());
+    if (exact) select(exact.name);
+    else if (visibleRefs.length === 1) select(visibleRefs[0].name);
+    else if (looksLikeSha) select(filter.trim());
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-sm bg-gray-900 border border-gray-700 text-gray-300 hover:border-gray-500 disabled:opacity-50 max-w-[12rem]"
+        title="Switch branch, tag or commit"
+      >
+        <RefIcon type={currentType} />
+        <span className="truncate font-mono text-xs">{currentType === 'commit' ? currentRef.slice(0, 7) : currentRef}</span>
+        <ChevronDown size={14} className="shrink-0 text-gray-500" />
+      </button>
+
+      {isOpen && (
+        <div className={`absolute top-full ${align === 'right' ? 'right-0' : 'left-0'} mt-2 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-50 overflow-hidden`}>
+          <div className="p-2 border-b border-gray-700">
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Filter refs or paste a commit SHA..."
+              className="w-full bg-gray-900 border border-gray-600 rounded p-2 text-xs text-gray-200 focus:border-blue-500 focus:outline-none"
+              autoFocus
+            />
+          </div>
+          <div className="flex border-b border-gray-700 text-xs">
+            {(['branch', 'tag'] as const).map(t => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`flex-1 py-2 font-medium ${tab === t ? 'text-white border-b-2 border-blue-500' : 'text-gray-400 hover:text-gray-200'}`}
+              >
+                {t === 'branch' ? 'Branches' : 'Tags'}
+              </button>
+            ))}
+          </div>
+          <div className="max-h-64 overflow-y-auto custom-scrollbar py-1">
+            {visibleRefs.map(r => (
+              <button
+                key={`${r.type}:${r.name}`}
+                onClick={() => select(r.name)}
+                className="w-full flex items-center gap-2 px-3 py-1.5 text-xs text-left text-gray-300 hover:bg-gray-700"
+              >
+                <span className="w-3.5 shrink-0">{r.name === currentRef && <Check size={14} className="text-blue-400" />}</span>
+                <span className="truncate font-mono">{r.name}</span>
+              </button>
+            ))}
+            {visibleRefs.length === 0 && !looksLikeSha && (
+              <div className="px-3 py-4 text-center text-xs text-gray-500">No matching {tab === 'branch' ? 'branches' : 'tags'}</div>
+            )}
+            {looksLikeSha && (
+              <button
+                onClick={() => select(filter.trim())}
+                className="w-full flex items-center gap-2 px-3 py-1.5 text-xs text-left text-gray-300 hover:bg-gray-700 border-t border-gray-700"
+              >
+                <GitCommit size={14} className="text-gray-500" />
+                Browse commit <span className="font-mono">{filter.trim().slice(0, 12)}</span>
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RefSelector;
@@ -0,0 +1,327 @@
+import React, { useEffect, useState } from 'react';
+import { HostConfig, HostKind, LlmConfig, LlmProviderKind, LlmSettings, LlmTask } from '../types';
+import { HOST_KINDS, DEFAULT_HOSTS, defaultApiUrl, hostIdFromUrl } from '../services/providers';
+import { LLM_KINDS, LLM_TASKS, contextBudgetFor } from '../services/models';
+import { AgentLimits } from '../services/agent';
+import { CacheStats, getCacheStats, clearCache } from '../services/cache';
+import { formatBytes } from '../services/files';
+import { Settings, X, Server, Plus, Trash2, AlertCircle, Database, Loader2, Bot } from 'lucide-react';
+
+interface SettingsPanelProps {
+  hosts: HostConfig[];
+  onChangeHosts: (hosts: HostConfig[]) => void;
+  llmSettings: LlmSettings;
+  onChangeLlmSettings: (settings: LlmSettings) => void;
+  agentLimits: AgentLimits;
+  onChangeAgentLimits: (limits: AgentLimits) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-xs focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ hosts, onChangeHosts, llmSettings, onChangeLlmSettings, agentLimits, onChangeAgentLimits, onClose }) => {
+  const [kind, setKind] = useState<HostKind>('gitlab');
+  const [label, setLabel] = useState('');
+  const [webUrl, setWebUrl] = useState('');
+  const [apiUrl, setApiUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+  const [cacheError, setCacheError] = useState<string | null>(null);
+  const [isPurging, setIsPurging] = useState(false);
+
+  useEffect(() => {
+    getCacheStats().then(setCacheStats).catch(() => setCacheError('The cache is unavailable in this browser.'));
+  }, []);
+
+  const handlePurgeCache = async () => {
+    setIsPurging(true);
+    try {
+      await clearCache();
+      setCacheStats(await getCacheStats());
+    } catch (err) {
+      setCacheError('Could not clear the cache.');
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  const handleAddHost = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    let id: string;
+    try {
+      id = hostIdFromUrl(webUrl.trim());
+    } catch (err) {
+      setError('Enter the web URL of the host, e.g. https://gitlab.example.com');
+      return;
+    }
+    const existing = hosts.find(h => h.id === id);
+    if (existing && !existing.builtIn) {
+      setError(`${id} is already configured. Remove it first to change it.`);
+      return;
+    }
+
+    // A host with a built-in's id replaces it, e.g. to point github.com at a proxy or mock server
+    const host: HostConfig = {
+      id,
+      kind,
+      label: label.trim() || id,
+      webUrl: webUrl.trim().replace(/\/+$/, ''),
+      apiUrl: (apiUrl.trim() || defaultApiUrl(kind, webUrl.trim())).replace(/\/+$/, ''),
+    };
+    onChangeHosts([...hosts.filter(h => h.id !== id), host]);
+    setLabel('');
+    setWebUrl('');
+    setApiUrl('');
+  };
+
+  const updateLlm = (task: LlmTask, changes: Partial<LlmConfig>) => {
+    onChangeLlmSettings({ ...llmSettings, [task]: { ...llmSettings[task], ...changes } });
+  };
+
+  // A different backend starts from its usual model and default endpoint
+  const switchLlmProvider = (task: LlmTask, provider: LlmProviderKind) => {
+    updateLlm(task, { provider, model: LLM_KINDS[provider].modelPlaceholder, endpoint: '' });
+  };
+
+  const removeHost = (host: HostConfig) => {
+    const builtIn = DEFAULT_HOSTS.find(h => h.id === host.id);
+    onChangeHosts([...hosts.filter(h => h.id !== host.id), ...(builtIn ? [builtIn] : [])]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 flex items-center justify-center p-4 backdrop-blur-sm">
+        <div className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl max-w-lg w-full overflow-hidden animate-in fade-in zoom-in duration-200 max-h-[90vh] overflow-y-auto custom-scrollbar">
+            <div className="p-6 space-y-5">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 text-white font-semibold text-lg">
+                        <Settings size={22} />
+                        Settings
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {/* Git Hosts */}
+                <section className="space-y-3">
+                    <div>
+                        <h3 className="text-sm font-semibold text-gray-200 flex items-center gap-2"><Server size={16} /> Git Hosts</h3>
+                        <p className="text-[11px] text-gray-500 mt-1">
+                            Repository links are opened with the host whose web URL they start with. Add GitHub Enterprise, self-managed GitLab or Gitea servers here.
+                        </p>
+                    </div>
+
+                    <div className="bg-gray-800/50 border border-gray-700 rounded-lg divide-y divide-gray-700">
+                        {hosts.map(host => (
+                            <div key={host.id} className="flex items-center gap-3 p-2.5">
+                                <div className="flex-1 min-w-0">
+                                    <div className="flex items-center gap-2 text-xs text-gray-200 font-medium">
+                                        {host.label}
+                                        <span className="text-[10px] text-gray-500 font-normal">{HOST_KINDS[host.kind].name}</span>
+                                    </div>
+                                    <div className="text-[10px] font-mono text-gray-500 truncate" title={`API: ${host.apiUrl}`}>
+                                        {host.webUrl} · {host.apiUrl}
+                                    </div>
+                                </div>
+                                {!host.builtIn && (
+                                    <button onClick={() => removeHost(host)} className="p-1.5 text-gray-500 hover:text-red-400" title="Remove host">
+                                        <Trash2 size={14} />
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
+                    <form onSubmit={handleAddHost} className="space-y-2">
+                        <div className="grid grid-cols-2 gap-2">
+                            <select value={kind} onChange={(e) => setKind(e.target.value as HostKind)} className={inputClass}>
+                                {(Object.keys(HOST_KINDS) as HostKind[]).map(k => (
+                                    <option key={k} value={k}>{HOST_KINDS[k].name}</option>
+                                ))}
+                            </select>
+                            <input
+                                type="text"
+                                value={label}
+                                onChange={(e) => setLabel(e.target.value)}
+                                placeholder="Label (e.g. Company GitLab)"
+                                className={inputClass}
+                            />
+                        </div>
+                        <input
+                            type="url"
+                            value={webUrl}
+                            onChange={(e) => setWebUrl(e.target.value)}
+                            placeholder="Web URL, e.g. https://git.example.com"
+                            className={`${inputClass} font-mono`}
+                            required
+                        />
+                        <input
+                            type="url"
+                            value={apiUrl}
+                            onChange={(e) => setApiUrl(e.target.value)}
+                            placeholder={webUrl ? defaultApiUrl(kind, webUrl) : 'API URL (optional, derived from the web URL)'}
+                            className={`${inputClass} font-mono`}
+                        />
+                        {error && (
+                            <div className="bg-red-500/10 border border-red-500/20 p-2 rounded-lg text-xs text-red-300 flex gap-2">
+                                <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                                {error}
+                            </div>
+                        )}
+                        <button
+                            type="submit"
+                            className="w-full bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium py-2 rounded-lg transition-colors flex items-center justify-center gap-1.5"
+                        >
+                            <Plus size={14} />
+                            Add Host
+                        </button>
+                    </form>
+                </section>
+
+                {/* AI Models */}
+                <section className="space-y-3">
+                    <div>
+                        <h3 className="text-sm font-semibold text-gray-200 flex items-center gap-2"><Bot size={16} /> AI Models</h3>
+                        <p className="text-[11px] text-gray-500 mt-1">
+                            Pick a backend per task. OpenAI-compatible covers OpenAI and servers like vLLM or LM Studio; Ollama runs models locally. API keys are kept for this browser session only.
+                        </p>
+                    </div>
+
+                    {(Object.keys(LLM_TASKS) as LlmTask[]).map(task => {
+                        const config = llmSettings[task];
+                        const kind = LLM_KINDS[config.provider];
+                        return (
+                            <div key={task} className="bg-gray-800/50 border border-gray-700 rounded-lg p-2.5 space-y-2">
+                                <div className="text-xs text-gray-200 font-medium">
+                                    {LLM_TASKS[task].name}
+                                    <span className="text-[10px] text-gray-500 font-normal ml-2">{LLM_TASKS[task].description}</span>
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <select value={config.provider} onChange={(e) => switchLlmProvider(task, e.target.value as LlmProviderKind)} className={inputClass}>
+                                        {(Object.keys(LLM_KINDS) as LlmProviderKind[]).map(k => (
+                                            <option key={k} value={k}>{LLM_KINDS[k].name}</option>
+                                        ))}
+                                    </select>
+                                    <input
+                                        type="text"
+                                        value={config.model}
+                                        onChange={(e) => updateLlm(task, { model: e.target.value })}
+                                        placeholder={kind.modelPlaceholder}
+                                        className={`${inputClass} font-mono`}
+                                    />
+                                </div>
+                                <input
+                                    type="url"
+                                    value={config.endpoint}
+                                    onChange={(e) => updateLlm(task, { endpoint: e.target.value.trim() })}
+                                    placeholder={kind.endpoint}
+                                    className={`${inputClass} font-mono`}
+                                />
+                                {config.provider !== 'ollama' && (
+                                    <input
+                                        type="password"
+                                        value={config.apiKey ?? ''}
+                                        onChange={(e) => updateLlm(task, { apiKey: e.target.value.trim() || undefined })}
+                                        placeholder={kind.needsKey ? 'API key' : 'API key (optional, defaults to the server\'s key)'}
+                                        className={`${inputClass} font-mono`}
+                                    />
+                                )}
+                                {task === 'chat' && (
+                                    <label className="flex items-center gap-2 text-[11px] text-gray-400">
+                                        <span className="shrink-0">Context budget (tokens)</span>
+                                        <input
+                                            type="number"
+                                            min={2000}
+                                            step={1000}
+                                            value={config.contextBudget ?? ''}
+                                            onChange={(e) => updateLlm(task, { contextBudget: Number(e.target.value) > 0 ? Number(e.target.value) : undefined })}
+                                            placeholder={`${contextBudgetFor({ ...config, contextBudget: undefined })} (from the model)`}
+                                            className={inputClass}
+                                        />
+                                    </label>
+                                )}
+                            </div>
+                        );
+                    })}
+
+                    <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-2.5 space-y-2">
+                        <div className="text-xs text-gray-200 font-medium">
+                            Agent limits
+                            <span className="text-[10px] text-gray-500 font-normal ml-2">When a chat run stops by itself</span>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <label className="text-[11px] text-gray-400 space-y-1">
+                                <span>Max tool rounds</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={agentLimits.maxToolRounds}
+                                    onChange={(e) => onChangeAgentLimits({ ...agentLimits, maxToolRounds: Math.max(1, Number(e.target.value) || 1) })}
+                                    className={inputClass}
+                                />
+                            </label>
+                            <label className="text-[11px] text-gray-400 space-y-1">
+                                <span>Tool timeout (seconds)</span>
+                                <input
+                                    type="number"
+                                    min={5}
+                                    value={agentLimits.toolTimeoutSeconds}
+                                    onChange={(e) => onChangeAgentLimits({ ...agentLimits, toolTimeoutSeconds: Math.max(5, Number(e.target.value) || 5) })}
+                                    className={inputClass}
+                                />
+                            </label>
+                            <label className="text-[11px] text-gray-400 space-y-1">
+                                <span>Model idle timeout (seconds)</span>
+                                <input
+                                    type="number"
+                                    min={10}
+                                    value={agentLimits.modelIdleSeconds}
+                                    onChange={(e) => onChangeAgentLimits({ ...agentLimits, modelIdleSeconds: Math.max(10, Number(e.target.value) || 10) })}
+                                    className={inputClass}
+                                />
+                            </label>
+                        </div>
+                    </div>
+                </section>
+
+                {/* Cache */}
+                <section className="space-y-3">
+                    <div>
+                        <h3 className="text-sm font-semibold text-gray-200 flex items-center gap-2"><Database size={16} /> Cache</h3>
+                        <p className="text-[11px] text-gray-500 mt-1">
+                            File contents and trees are kept in the browser by SHA, so repositories you've opened reload instantly and can be browsed offline.
+                        </p>
+                    </div>
+
+                    <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-2.5 flex items-center gap-3">
+                        <div className="flex-1 text-xs text-gray-300">
+                            {cacheError ? (
+                                <span className="text-red-300">{cacheError}</span>
+                            ) : cacheStats ? (
+                                <>
+                                    <span className="font-medium">{formatBytes(cacheStats.bytes)}</span>
+                                    <span className="text-gray-500"> · {cacheStats.blobs} files, {cacheStats.trees} trees, {cacheStats.blame} blames, {cacheStats.repos} repo records, {cacheStats.retrieval} search indexes</span>
+                                </>
+                            ) : (
+                                <span className="text-gray-500">Measuring…</span>
+                            )}
+                        </div>
+                        <button
+                            onClick={handlePurgeCache}
+                            disabled={isPurging || !cacheStats || cacheStats.bytes === 0}
+                            className="px-3 py-1.5 text-xs font-medium rounded-lg bg-gray-700 hover:bg-red-600/80 text-gray-200 disabled:opacity-50 disabled:hover:bg-gray-700 transition-colors flex items-center gap-1.5"
+                        >
+                            {isPurging ? <Loader2 size={12} className="animate-spin" /> : <Trash2 size={12} />}
+                            Purge
+                        </button>
+                    </div>
+                </section>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { IncomingMessage } from 'node:http';
+import { clientIdFrom, trustedHops } from './forwarded';
+
+const request = (forwardedFor?: string | string[]) =>
+  ({ headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {}, socket: { remoteAddress: '10.0.0.2' } }) as IncomingMessage;
+
+test('TRUST_PROXY is a hop count, with "true" meaning one', () => {
+  assert.equal(trustedHops(undefined), 0);
+  assert.equal(trustedHops('false'), 0);
+  assert.equal(trustedHops('true'), 1);
+  assert.equal(trustedHops('2'), 2);
+  assert.equal(trustedHops('-1'), 0);
+});
+
+test('without trusted proxies a spoofed X-Forwarded-For is ignored', () => {
+  assert.equal(clientIdFrom(request('1.2.3.4'), 0), '10.0.0.2');
+  assert.equal(clientIdFrom(request(), 0), '10.0.0.2');
+});
+
+test('behind proxies only the entries they appended count', () => {
+  // The client sent "1.2.3.4"; our proxy appended the address it saw, 203.0.113.7
+  assert.equal(clientIdFrom(request('1.2.3.4, 203.0.113.7'), 1), '203.0.113.7');
+  assert.equal(clientIdFrom(request(['1.2.3.4', '203.0.113.7, 10.0.0.1']), 2), '203.0.113.7');
+  // Fewer entries than proxies: the first one is the best there is
+  assert.equal(clientIdFrom(request('203.0.113.7'), 2), '203.0.113.7');
+  assert.equal(clientIdFrom(request(), 1), '10.0.0.2');
+});
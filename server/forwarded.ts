@@ -0,0 +1,15 @@
+import { IncomingMessage } from 'node:http';
+
+// The number of reverse proxies in front of the server from TRUST_PROXY, each appending the address it saw
+// to X-Forwarded-For ("true" means one)
+export const trustedHops = (value: string | undefined) =>
+  value === 'true' ? 1 : Math.max(0, Math.floor(Number(value) || 0));
+
+// Behind a reverse proxy every request comes from the proxy, so the forwarded address is used instead.
+// Only the entries our own proxies appended count: the client can put anything in front of them.
+export const clientIdFrom = (req: IncomingMessage, hops: number) => {
+  const header = req.headers['x-forwarded-for'];
+  const entries = (Array.isArray(header) ? header.join(',') : header ?? '').split(',').map(e => e.trim()).filter(Boolean);
+  const forwarded = hops && entries.length ? entries[Math.max(0, entries.length - hops)] : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
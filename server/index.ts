@@ -0,0 +1,251 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import { extname, join, normalize } from 'node:path';
+import { LlmRequest } from '../types';
+import { createGeminiProvider } from '../services/gemini';
+import { clientIdFrom, trustedHops } from './forwarded';
+
+// GitGenius server: holds the Gemini API key so it never reaches the browser, and relays model turns
+// to the app (services/proxy.ts) as NDJSON stream events. Each client is held to a request rate and a
+// daily token budget. In development it runs next to `vite dev`, which forwards /api here; in production
+// it also serves the built app from dist/.
+
+try {
+  process.loadEnvFile();
+} catch (e) {
+  // No .env file, use the environment as is
+}
+
+const numberEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const PORT = numberEnv('PORT', 8787);
+const API_KEY = process.env.API_KEY;
+const RATE_LIMIT_PER_MINUTE = numberEnv('RATE_LIMIT_PER_MINUTE', 20);
+const DAILY_TOKEN_BUDGET = numberEnv('DAILY_TOKEN_BUDGET', 1_000_000);
+const ALLOWED_MODELS = (process.env.ALLOWED_MODELS || 'gemini-2.5-flash,gemini-3-pro-preview').split(',').map(m => m.trim()).filter(Boolean);
+const EMBEDDING_MODEL = process.env.EMBEDDING_MODEL || 'gemini-embedding-001';
+const MAX_EMBED_TEXTS = 100; // Gemini's batch limit
+const TRUST_PROXY = trustedHops(process.env.TRUST_PROXY);
+const MAX_BODY_BYTES = 10 * 1024 * 1024; // Screenshots are sent inline
+const DIST_DIR = join(process.cwd(), 'dist');
+
+// --- Per-client limits -------------------------------------------------------
+
+interface ClientUsage {
+  requests: number[]; // Start times within the last minute
+  day: string; // UTC date the token count belongs to
+  tokens: number;
+}
+
+const clients = new Map<string, ClientUsage>();
+
+const usageFor = (id: string): ClientUsage => {
+  const today = new Date().toISOString().slice(0, 10);
+  let usage = clients.get(id);
+  if (!usage || usage.day !== today) {
+    usage = { requests: usage?.requests ?? [], day: today, tokens: 0 };
+    clients.set(id, usage);
+  }
+  const minuteAgo = Date.now() - 60_000;
+  usage.requests = usage.requests.filter(t => t > minuteAgo);
+  return usage;
+};
+
+// Returns why the client has to wait, or null when the request may go ahead
+const checkLimits = (usage: ClientUsage): { message: string; retryAfter: number } | null => {
+  if (usage.tokens >= DAILY_TOKEN_BUDGET) {
+    const midnight = new Date(`${usage.day}T00:00:00Z`).getTime() + 86_400_000;
+    return {
+      message: `Daily budget of ${DAILY_TOKEN_BUDGET.toLocaleString('en-US')} tokens used up. It resets at midnight UTC, or add your own API key in Settings.`,
+      retryAfter: Math.ceil((midnight - Date.now()) / 1000),
+    };
+  }
+  if (usage.requests.length >= RATE_LIMIT_PER_MINUTE) {
+    return {
+      message: `Rate limit of ${RATE_LIMIT_PER_MINUTE} model requests per minute reached. Try again in a moment.`,
+      retryAfter: Math.ceil((usage.requests[0] + 60_000 - Date.now()) / 1000),
+    };
+  }
+  return null;
+};
+
+// Forget clients that have been idle for a day
+setInterval(() => {
+  const today = new Date().toISOString().slice(0, 10);
+  for (const [id, usage] of clients) {
+    if (usage.day !== today && usage.requests.length === 0) clients.delete(id);
+  }
+}, 3_600_000).unref();
+
+// --- Helpers -------------------------------------------------------------------
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      // Stop reading instead of taking in the rest of the upload
+      reject(new Error('Request too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+// --- Routes --------------------------------------------------------------------
+
+// Checks the key and the client's limits, then reads the JSON body. Answers the request itself and returns null when it can't go ahead.
+const admit = async <T>(req: IncomingMessage, res: ServerResponse): Promise<{ usage: ClientUsage; raw: string; body: T } | null> => {
+  if (!API_KEY) {
+    sendJson(res, 503, { error: 'The server has no API_KEY configured. Set it in .env, or add your own API key in Settings.' });
+    return null;
+  }
+
+  const usage = usageFor(clientIdFrom(req, TRUST_PROXY));
+  const limited = checkLimits(usage);
+  if (limited) {
+    sendJson(res, 429, { error: limited.message }, { 'Retry-After': String(Math.max(1, limited.retryAfter)) });
+    return null;
+  }
+
+  try {
+    const raw = await readBody(req);
+    return { usage, raw, body: JSON.parse(raw) };
+  } catch (e) {
+    sendJson(res, 400, { error: e instanceof Error && e.message === 'Request too large' ? e.message : 'Invalid JSON body' });
+    return null;
+  }
+};
+
+// POST /api/llm/stream { model, request: LlmRequest } -> NDJSON LlmStreamEvents
+const handleStream = async (req: IncomingMessage, res: ServerResponse) => {
+  const admitted = await admit<{ model?: unknown; request?: LlmRequest }>(req, res);
+  if (!admitted) return;
+  const { usage, raw, body } = admitted;
+
+  const model = typeof body.model === 'string' ? body.model : '';
+  if (!ALLOWED_MODELS.includes(model)) {
+    sendJson(res, 400, { error: `Model "${model}" is not available on this server. Allowed: ${ALLOWED_MODELS.join(', ')}` });
+    return;
+  }
+  if (!Array.isArray(body.request?.messages)) {
+    sendJson(res, 400, { error: 'Missing request messages' });
+    return;
+  }
+
+  usage.requests.push(Date.now());
+  // A client that stops listening (the Stop button) cancels the upstream request too
+  const upstream = new AbortController();
+  res.on('close', () => upstream.abort());
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+
+  // Token counts come from the model's usage report; if it never arrives, estimate at ~4 characters per token
+  let tokens = 0;
+  let outputChars = 0;
+  try {
+    const llm = createGeminiProvider({ provider: 'gemini', model, endpoint: '', apiKey: API_KEY });
+    for await (const event of llm.stream({ ...body.request!, signal: upstream.signal })) {
+      if (upstream.signal.aborted) break;
+      if (event.type === 'usage') tokens = event.inputTokens + event.outputTokens;
+      if (event.type === 'text') outputChars += event.text.length;
+      res.write(JSON.stringify(event) + '\n');
+    }
+  } catch (e) {
+    if (!upstream.signal.aborted) res.write(JSON.stringify({ type: 'error', message: `Gemini API Error: ${e instanceof Error ? e.message : String(e)}` }) + '\n');
+  } finally {
+    usage.tokens += tokens || Math.ceil((raw.length + outputChars) / 4);
+    res.end();
+  }
+};
+
+// POST /api/llm/embed { model, texts, purpose } -> { embeddings }, for the app's retrieval index
+const handleEmbed = async (req: IncomingMessage, res: ServerResponse) => {
+  const admitted = await admit<{ model?: unknown; texts?: unknown; purpose?: unknown }>(req, res);
+  if (!admitted) return;
+  const { usage, raw, body } = admitted;
+
+  if (body.model !== EMBEDDING_MODEL) {
+    sendJson(res, 400, { error: `Embedding model "${body.model}" is not available on this server. Allowed: ${EMBEDDING_MODEL}` });
+    return;
+  }
+  const texts = body.texts;
+  if (!Array.isArray(texts) || texts.length === 0 || texts.length > MAX_EMBED_TEXTS || !texts.every(t => typeof t === 'string')) {
+    sendJson(res, 400, { error: `"texts" must be 1 to ${MAX_EMBED_TEXTS} strings` });
+    return;
+  }
+
+  usage.requests.push(Date.now());
+  // Embedding responses carry no token counts
+  usage.tokens += Math.ceil(raw.length / 4);
+  try {
+    const llm = createGeminiProvider({ provider: 'gemini', model: '', endpoint: '', apiKey: API_KEY, embeddingModel: EMBEDDING_MODEL });
+    sendJson(res, 200, { embeddings: await llm.embed!(texts, body.purpose === 'query' ? 'query' : 'document') });
+  } catch (e) {
+    sendJson(res, 502, { error: `Gemini API Error: ${e instanceof Error ? e.message : String(e)}` });
+  }
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+// The built app, with unknown paths falling back to index.html
+const serveStatic = async (req: IncomingMessage, res: ServerResponse) => {
+  const pathname = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+  let file = join(DIST_DIR, normalize(pathname).replace(/^(\.\.[/\\])+/, ''));
+  if (!file.startsWith(DIST_DIR) || !(await stat(file).then(s => s.isFile(), () => false))) {
+    file = join(DIST_DIR, 'index.html');
+  }
+  try {
+    const content = await readFile(file);
+    res.writeHead(200, { 'Content-Type': MIME_TYPES[extname(file)] ?? 'application/octet-stream' });
+    res.end(content);
+  } catch (e) {
+    sendJson(res, 404, { error: 'Not found. Run "npm run build" to serve the app from this server.' });
+  }
+};
+
+// POST routes of the model API
+const ROUTES: Record<string, (req: IncomingMessage, res: ServerResponse) => Promise<void>> = {
+  '/api/llm/stream': handleStream,
+  '/api/llm/embed': handleEmbed,
+};
+
+const server = createServer((req, res) => {
+  const path = (req.url ?? '/').split('?')[0];
+  const handler = req.method === 'POST' ? ROUTES[path] : undefined;
+  const route = handler
+    ? handler(req, res)
+    : path.startsWith('/api/')
+      ? Promise.resolve(sendJson(res, 404, { error: 'Not found' }))
+      : serveStatic(req, res);
+  route.catch(e => {
+    console.error(e);
+    if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error' });
+    else res.end();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`GitGenius server on http://localhost:${PORT} (models: ${ALLOWED_MODELS.join(', ')})`);
+  if (!API_KEY) console.warn('API_KEY is not set: only users with their own key can use Gemini.');
+});
@@ -0,0 +1,144 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LlmMessage, LlmProvider, LlmStreamEvent } from '../types';
+import { AgentTool, DEFAULT_AGENT_LIMITS, runAgentLoop } from './agent';
+import { createScriptedProvider } from './scripted';
+
+const call = (id: string, name: string, args: Record<string, unknown> = {}): LlmStreamEvent =>
+  ({ type: 'tool_call', call: { id, name, args } });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Tools that log when each call starts and ends, and how many run at once. With `announce` they yield a
+// progress line first, like the real tools do.
+const recorder = () => {
+  const log: string[] = [];
+  let active = 0;
+  let maxActive = 0;
+  const tool = (name: string, readOnly: boolean): AgentTool => ({
+    definition: { name, description: name, parameters: { type: 'object', properties: {} } },
+    readOnly,
+    async *run(args) {
+      if (args.announce) yield `[${args.id}]`;
+      log.push(`start ${args.id}`);
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await sleep(Number(args.ms ?? 10));
+      active--;
+      log.push(`end ${args.id}`);
+      return { id: args.id };
+    },
+  });
+  return { log, tool, maxActive: () => maxActive };
+};
+
+const run = async (tools: AgentTool[], turns: LlmStreamEvent[][]) => {
+  const llm = createScriptedProvider(turns);
+  const conversation: LlmMessage[] = [{ role: 'user', parts: [{ type: 'text', text: 'Go' }] }];
+  let text = '';
+  for await (const line of runAgentLoop(llm, { system: 'Test', conversation, tools })) text += line;
+  return { llm, conversation, text };
+};
+
+test('all calls of a turn come back in one tool message, in call order', async () => {
+  const { tool } = recorder();
+  const { llm, text } = await run([tool('read', true)], [
+    [call('a', 'read', { id: 'a', ms: 30 }), call('b', 'read', { id: 'b', ms: 1 }), call('c', 'read', { id: 'c', ms: 15 })],
+    [{ type: 'text', text: 'Done' }],
+  ]);
+
+  assert.equal(llm.requests.length, 2);
+  const sent = llm.requests[1].messages;
+  assert.deepEqual(sent.map(m => m.role), ['user', 'model', 'tool']);
+  const results = sent[2].role === 'tool' ? sent[2].results : [];
+  assert.deepEqual(results.map(r => r.callId), ['a', 'b', 'c']);
+  assert.deepEqual(results.map(r => r.response), [{ id: 'a' }, { id: 'b' }, { id: 'c' }]);
+  assert.match(text, /Done$/);
+});
+
+test('read-only calls run in parallel, with or without progress lines', async () => {
+  const { tool, maxActive } = recorder();
+  const { text } = await run([tool('read', true)], [
+    [
+      call('a', 'read', { id: 'a', ms: 50 }),
+      call('b', 'read', { id: 'b', ms: 50, announce: true }),
+      call('c', 'read', { id: 'c', ms: 50, announce: true }),
+    ],
+    [{ type: 'text', text: 'Done' }],
+  ]);
+
+  assert.equal(maxActive(), 3);
+  assert.equal(text, '[b][c]Done');
+});
+
+test('an edit runs alone, after the calls before it and before the calls after it', async () => {
+  const { tool, log, maxActive } = recorder();
+  const { llm } = await run([tool('read', true), tool('edit', false)], [
+    [
+      call('1', 'read', { id: 'r1', ms: 20 }),
+      call('2', 'read', { id: 'r2', ms: 5 }),
+      call('3', 'edit', { id: 'e', ms: 10 }),
+      call('4', 'read', { id: 'r3', ms: 5 }),
+    ],
+    [{ type: 'text', text: 'Done' }],
+  ]);
+
+  // The two reads before the edit overlap; nothing overlaps the edit
+  assert.deepEqual(log.slice(0, 2).sort(), ['start r1', 'start r2']);
+  assert.deepEqual(log.slice(4), ['start e', 'end e', 'start r3', 'end r3']);
+  assert.equal(maxActive(), 2);
+
+  const sent = llm.requests[1].messages[2];
+  assert.deepEqual(sent.role === 'tool' ? sent.results.map(r => r.callId) : [], ['1', '2', '3', '4']);
+});
+
+test('a model stream that goes silent fails the run and cancels its request', async () => {
+  let cancelled = false;
+  const llm: LlmProvider = {
+    config: { provider: 'openai', model: 'stalled', endpoint: '' },
+    async *stream(request) {
+      yield { type: 'text', text: 'Thinking' };
+      await new Promise(resolve => request.signal?.addEventListener('abort', resolve, { once: true }));
+      cancelled = true;
+    },
+  };
+  const conversation: LlmMessage[] = [{ role: 'user', parts: [{ type: 'text', text: 'Go' }] }];
+  const limits = { ...DEFAULT_AGENT_LIMITS, modelIdleSeconds: 0.05 };
+  let text = '';
+  await assert.rejects(async () => {
+    for await (const line of runAgentLoop(llm, { system: 'Test', conversation, tools: [], limits })) text += line;
+  }, /The model sent nothing for 0.05s/);
+  assert.equal(text, 'Thinking');
+  assert.ok(cancelled);
+});
+
+test('a read cut off by its deadline is closed at its next line', async () => {
+  const log: string[] = [];
+  const slow: AgentTool = {
+    definition: { name: 'slow', description: 'slow', parameters: { type: 'object', properties: {} } },
+    readOnly: true,
+    async *run() {
+      try {
+        yield '[slow]';
+        await sleep(100);
+        log.push('woke');
+        yield '[more]';
+        log.push('carried on');
+        return {};
+      } finally {
+        log.push('closed');
+      }
+    },
+  };
+  const llm = createScriptedProvider([[call('1', 'slow')], [{ type: 'text', text: 'Done' }]]);
+  const conversation: LlmMessage[] = [{ role: 'user', parts: [{ type: 'text', text: 'Go' }] }];
+  const limits = { ...DEFAULT_AGENT_LIMITS, toolTimeoutSeconds: 0.02 };
+  let text = '';
+  for await (const line of runAgentLoop(llm, { system: 'Test', conversation, tools: [slow], limits })) text += line;
+
+  assert.equal(text, '[slow]Done');
+  const sent = llm.requests[1].messages[2];
+  assert.match(String(sent.role === 'tool' ? sent.results[0].response.error : ''), /'slow' timed out/);
+  await sleep(150);
+  assert.deepEqual(log, ['woke', 'closed']);
+});
@@ -0,0 +1,275 @@
+import { AgentTraceEntry, LlmProvider, LlmMessage, LlmTool, LlmToolCall } from '../types';
+import { compactToolResults, estimateTokens } from './context';
+
+// The agent's tool loop: one model turn, then every tool call of that turn, then all their results back
+// to the model in a single message, until a turn has no calls. The model is only reached through
+// `llm.stream`, so a provider replaying scripted turns (scripted.ts) drives it deterministically in tests.
+
+const LIMITS_STORAGE_KEY = 'gitgenius.agent';
+
+export type ToolResponse = Record<string, unknown>;
+
+export interface AgentTool {
+  definition: LlmTool;
+  // Read-only tools run concurrently with the read-only calls next to them. Everything else runs alone,
+  // in call order, so reads after an edit see it.
+  readOnly?: boolean;
+  // Yields progress lines for the transcript and returns the response sent to the model
+  run(args: Record<string, any>): AsyncGenerator<string, ToolResponse, undefined>;
+}
+
+export interface AgentLimits {
+  maxToolRounds: number; // Model turns with tool calls before the run stops
+  toolTimeoutSeconds: number; // Read-only calls still running after this are answered with an error
+  modelIdleSeconds: number; // A model stream that sends nothing for this long fails the run
+}
+
+export const DEFAULT_AGENT_LIMITS: AgentLimits = { maxToolRounds: 25, toolTimeoutSeconds: 60, modelIdleSeconds: 120 };
+
+export const loadAgentLimits = (): AgentLimits => {
+  try {
+    return { ...DEFAULT_AGENT_LIMITS, ...JSON.parse(localStorage.getItem(LIMITS_STORAGE_KEY) || '{}') };
+  } catch (e) {
+    return DEFAULT_AGENT_LIMITS;
+  }
+};
+
+export const saveAgentLimits = (limits: AgentLimits) => {
+  localStorage.setItem(LIMITS_STORAGE_KEY, JSON.stringify(limits));
+};
+
+export interface AgentRequest {
+  system: string;
+  conversation: LlmMessage[]; // Grows with each model turn and its tool results
+  tools: AgentTool[];
+  limits?: AgentLimits;
+  contextBudget?: number; // Estimated tokens per request; older tool results are elided to stay under it
+  // Stops the run wherever it is, including mid-stream or while an edit waits for review. What was
+  // streamed so far stays, followed by a "stopped" line.
+  signal?: AbortSignal;
+  onTrace?: (entry: AgentTraceEntry) => void; // Each model turn and tool call as it finishes, then how the run ended
+}
+
+type Execution = AsyncGenerator<string, ToolResponse, undefined>;
+type Step = { type: 'line'; line: string } | { type: 'done'; response: ToolResponse };
+type Settled = { response: ToolResponse; startedAt: number; durationMs: number };
+
+async function* unknownTool(name: string): Execution {
+  return { error: `Unknown tool '${name}'.` };
+}
+
+// One step of a tool: a progress line, or its response. Errors, and running past `deadline`, become the response.
+const advance = async (execution: Execution, deadline?: Promise<Step>): Promise<Step> => {
+  try {
+    const next = execution.next().then((step): Step => (
+      step.done ? { type: 'done', response: step.value as ToolResponse } : { type: 'line', line: step.value as string }
+    ));
+    return await (deadline ? Promise.race([next, deadline]) : next);
+  } catch (e) {
+    return { type: 'done', response: { error: e instanceof Error ? e.message : String(e) } };
+  }
+};
+
+// Runs the rest of a tool, collecting its progress lines
+const drain = async (execution: Execution, deadline?: Promise<Step>, lines: string[] = []) => {
+  for (let step = await advance(execution, deadline); ; step = await advance(execution, deadline)) {
+    if (step.type === 'done') return { lines, response: step.response };
+    lines.push(step.line);
+  }
+};
+
+// Resolves with a timeout error for the model once the call has run for `seconds`
+const startDeadline = (seconds: number, name: string) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const promise = new Promise<Step>(resolve => {
+    timer = setTimeout(() => resolve({
+      type: 'done',
+      response: { error: `'${name}' timed out after ${seconds}s. Try something narrower, or continue without it.` },
+    }), seconds * 1000);
+  });
+  return { promise, clear: () => clearTimeout(timer) };
+};
+
+// Rejects once the model stream has been silent for `seconds`
+const startIdleTimer = (seconds: number) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const promise = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`The model sent nothing for ${seconds}s. Try again, or pick another model in Settings.`)), seconds * 1000);
+  });
+  promise.catch(() => {});
+  return { promise, clear: () => clearTimeout(timer) };
+};
+
+// Consecutive read-only calls form one batch; any other call is a batch of its own
+const batchCalls = (calls: { call: LlmToolCall; tool?: AgentTool }[]) => {
+  const batches: (typeof calls)[] = [];
+  for (const entry of calls) {
+    const last = batches[batches.length - 1];
+    if (entry.tool?.readOnly && last?.[0].tool?.readOnly) last.push(entry);
+    else batches.push([entry]);
+  }
+  return batches;
+};
+
+// Runs one batch of calls and returns their responses, with timings, in call order
+async function* runBatch(
+  batch: { call: LlmToolCall; tool?: AgentTool }[],
+  limits: AgentLimits,
+  untilStopped: <T>(promise: Promise<T>) => Promise<T>
+): AsyncGenerator<string, Settled[]> {
+  const startedAt = Date.now();
+  const settle = (response: ToolResponse): Settled => ({ response, startedAt, durationMs: Date.now() - startedAt });
+  const executions = batch.map(({ call, tool }) => (tool ? tool.run(call.args ?? {}) : unknownTool(call.name)));
+  // Edits wait for the user, so only reads have a time limit
+  const timers = batch.map(({ call, tool }) => (tool?.readOnly ? startDeadline(limits.toolTimeoutSeconds, call.name) : undefined));
+  const deadlines = timers.map(t => t?.promise);
+
+  try {
+    if (batch.length === 1) {
+      // Alone, progress streams as it happens (an edit waits for the user's review in between)
+      while (true) {
+        const step = await untilStopped(advance(executions[0], deadlines[0]));
+        if (step.type === 'done') return [settle(step.response)];
+        yield step.line;
+      }
+    }
+
+    // All reads start at once and run independently. Each one's first line (it announces itself) is shown
+    // once the reads before it have shown theirs; the remaining lines follow in call order when all are done.
+    const runs = executions.map((execution, i) => {
+      let announce: (line: string | null) => void = () => {};
+      const first = new Promise<string | null>(resolve => { announce = resolve; });
+      const done = (async () => {
+        const step = await advance(execution, deadlines[i]);
+        if (step.type === 'done') {
+          announce(null);
+          return { lines: [] as string[], settled: settle(step.response) };
+        }
+        announce(step.line);
+        const { lines, response } = await drain(execution, deadlines[i]);
+        return { lines, settled: settle(response) };
+      })();
+      return { first, done };
+    });
+    for (const { first } of runs) {
+      const line = await untilStopped(first);
+      if (line !== null) yield line;
+    }
+    const results: Settled[] = [];
+    for (const { lines, settled } of await untilStopped(Promise.all(runs.map(r => r.done)))) {
+      yield* lines;
+      results.push(settled);
+    }
+    return results;
+  } finally {
+    timers.forEach(t => t?.clear());
+    // Calls cut off by their deadline or by Stop are closed: they run their cleanup at their next line
+    // instead of carrying on unseen. The rest have returned already, which makes this a no-op for them.
+    executions.forEach(execution => execution.return({}).catch(() => {}));
+  }
+}
+
+export async function* runAgentLoop(llm: LlmProvider, request: AgentRequest): AsyncGenerator<string> {
+  const { system, conversation, tools, limits = DEFAULT_AGENT_LIMITS, contextBudget, signal, onTrace = () => {} } = request;
+  const definitions = tools.map(t => t.definition);
+  const byName = new Map(tools.map(t => [t.definition.name, t]));
+  const end = (outcome: 'done' | 'stopped' | 'limit' | 'error', error?: string) => onTrace({ type: 'end', at: Date.now(), outcome, ...(error ? { error } : {}) });
+
+  // Whatever the run is waiting on (a model stream, a tool, the user's review) gives way to Stop
+  const stopped = new Promise<never>((_, reject) => {
+    if (signal?.aborted) reject(signal.reason);
+    signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+  stopped.catch(() => {});
+  const untilStopped = <T,>(promise: Promise<T>) => (signal ? Promise.race([promise, stopped]) : promise);
+
+  try {
+    for (let round = 1; ; round++) {
+      signal?.throwIfAborted();
+      let text = '';
+      const calls: LlmToolCall[] = [];
+      let usage: { inputTokens: number; outputTokens: number } | undefined;
+      const startedAt = Date.now();
+      const traceModel = (error?: string) => onTrace({
+        type: 'model', round, startedAt, durationMs: Date.now() - startedAt, textChars: text.length, toolCalls: calls.length, ...usage, ...(error ? { error } : {}),
+      });
+
+      if (contextBudget && round > 1) compactToolResults(conversation, contextBudget - estimateTokens(system));
+
+      // The turn's request is cancelled on Stop, and when the stream stalls
+      const turn = new AbortController();
+      const cancelTurn = () => turn.abort(signal?.reason);
+      signal?.addEventListener('abort', cancelTurn, { once: true });
+      try {
+        const events = llm.stream({ system, messages: conversation, tools: definitions, signal: turn.signal })[Symbol.asyncIterator]();
+        const nextEvent = async () => {
+          const idle = startIdleTimer(limits.modelIdleSeconds);
+          const next = events.next();
+          next.catch(() => {}); // Once given up on, the stream may still fail
+          try {
+            return await untilStopped(Promise.race([next, idle.promise]));
+          } catch (e) {
+            turn.abort(e);
+            throw e;
+          } finally {
+            idle.clear();
+          }
+        };
+        for (let next = await nextEvent(); !next.done; next = await nextEvent()) {
+          const event = next.value;
+          if (event.type === 'text') {
+            text += event.text;
+            yield event.text;
+          } else if (event.type === 'tool_call') {
+            calls.push(event.call);
+          } else if (event.type === 'usage') {
+            usage = { inputTokens: event.inputTokens, outputTokens: event.outputTokens };
+          }
+        }
+      } catch (e) {
+        if (!signal?.aborted) traceModel(e instanceof Error ? e.message : String(e));
+        throw e;
+      } finally {
+        signal?.removeEventListener('abort', cancelTurn);
+      }
+      traceModel();
+      conversation.push({ role: 'model', text, toolCalls: calls });
+      if (calls.length === 0) {
+        end('done');
+        return;
+      }
+
+      // Every call gets an answer, in call order, before the model continues
+      const results: Settled[] = [];
+      for (const batch of batchCalls(calls.map(call => ({ call, tool: byName.get(call.name) })))) {
+        const settled = yield* runBatch(batch, limits, untilStopped);
+        settled.forEach(({ response, startedAt, durationMs }, i) => onTrace({
+          type: 'tool',
+          round,
+          name: batch[i].call.name,
+          args: batch[i].call.args ?? {},
+          startedAt,
+          durationMs,
+          resultChars: JSON.stringify(response).length,
+          ...(typeof response.error === 'string' ? { error: response.error } : {}),
+        }));
+        results.push(...settled);
+      }
+
+      conversation.push({ role: 'tool', results: calls.map((call, i) => ({ callId: call.id, name: call.name, response: results[i].response })) });
+
+      if (round >= limits.maxToolRounds) {
+        end('limit');
+        yield `\n\n*⏹ Stopped after ${round} rounds of tool calls, the limit set in Settings. Ask me to continue if the task isn't done.*`;
+        return;
+      }
+    }
+  } catch (e) {
+    if (!signal?.aborted) {
+      end('error', e instanceof Error ? e.message : String(e));
+      throw e;
+    }
+    end('stopped');
+    yield '\n\n*⏹ Stopped.*';
+  }
+}
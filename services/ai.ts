@@ -1,8 +1,12 @@
-import { GoogleGenAI, GenerateContentResponse, FunctionDeclaration, Type, Part, Content } from "@google/genai";
-import { ChatMessage } from '../types';
-
-// Ensure API Key is available
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { ChatMessage, ChangedFile, PullRequestInfo, LlmProvider, LlmTool, LlmMessage, LlmPart, ProposedEdit, EditDecision, ContextUsage, AgentPlan } from '../types';
+import { generateText, contextBudgetFor, contextWindowFor } from './models';
+import { HistorySummary, IMAGE_TOKENS, estimateTokens, fitHistory } from './context';
+import { applySearchReplace, applyUnifiedDiff } from './patch';
+import { CodeIndex, IndexResult, escapeRegExp } from './search';
+import { RetrievedChunk } from './retrieval';
+import { formatUnifiedDiff } from './diff';
+import { AgentRequest, AgentTool, ToolResponse, runAgentLoop } from './agent';
+import { ApiError } from './http';
 
 const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } | null => {
   const matches = dataUrl.match(/^data:(.+);base64,(.+)$/);
@@ -10,23 +14,30 @@ const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } | nul
   return { mimeType: matches[1], data: matches[2] };
 };
 
+const toParts = (text: string, image?: string): LlmPart[] => {
+  const parts: LlmPart[] = [{ type: 'text', text }];
+  const imgData = image ? parseDataUrl(image) : null;
+  if (imgData) parts.push({ type: 'image', ...imgData });
+  return parts;
+};
+
 // Tool: Update File
-const updateFileTool: FunctionDeclaration = {
+const updateFileTool: LlmTool = {
   name: 'update_file',
-  description: 'Overwrite the content of a file at the given path. Use this to modify existing files or create new ones. This is the ONLY way to change code. Do not output code in text.',
+  description: 'Overwrite the whole content of a file at the given path. Use this to create new files or to rewrite small ones; prefer apply_edit for changes to existing files. Do not output code in text.',
   parameters: {
-    type: Type.OBJECT,
+    type: 'object',
     properties: {
       path: {
-        type: Type.STRING,
+        type: 'string',
         description: 'The full path of the file to update or create (e.g., "src/components/Button.tsx"). If not provided, it defaults to the currently open file.',
       },
       code: {
-        type: Type.STRING,
+        type: 'string',
         description: 'The full modified code content. Do not include markdown formatting.',
       },
       description: {
-        type: Type.STRING,
+        type: 'string',
         description: 'A brief description of the changes made.',
       }
     },
@@ -34,208 +45,646 @@ const updateFileTool: FunctionDeclaration = {
   },
 };
 
+// Tool: Apply Edit
+const applyEditTool: LlmTool = {
+  name: 'apply_edit',
+  description: 'Change part of an existing file, either with search/replace blocks or with a unified diff. Only the changed region is sent, so this works for files of any length. If the edit does not apply, the error says which block failed and why; fix it and call again.',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'The full path of the file to edit (e.g., "src/components/Button.tsx")',
+      },
+      edits: {
+        type: 'array',
+        description: 'Search/replace blocks, applied in order. Each "search" must match exactly one place in the file, copied line for line including indentation.',
+        items: {
+          type: 'object',
+          properties: {
+            search: { type: 'string', description: 'Exact existing lines to replace, with enough context to be unique.' },
+            replace: { type: 'string', description: 'The lines to put in their place.' },
+          },
+          required: ['search', 'replace'],
+        },
+      },
+      diff: {
+        type: 'string',
+        description: 'Alternatively, a unified diff of the file with "@@ -l,s +l,s @@" hunk headers and \' \', \'-\' and \'+\' lines.',
+      },
+      description: {
+        type: 'string',
+        description: 'A brief description of the changes made.',
+      }
+    },
+    required: ['path', 'description'],
+  },
+};
+
 // Tool: Read File
-const readFileTool: FunctionDeclaration = {
+const readFileTool: LlmTool = {
   name: 'read_file',
-  description: 'Read the content of a file from the repository. CRITICAL: Use this to inspect code, check logic, or understand dependencies that are not currently visible. Do not guess file contents.',
+  description: 'Read the content of a file from the repository. CRITICAL: Use this to inspect code, check logic, or understand dependencies that are not currently visible. Do not guess file contents. Long files come back in parts; the response says which lines it covers.',
   parameters: {
-    type: Type.OBJECT,
+    type: 'object',
     properties: {
       path: {
-        type: Type.STRING,
+        type: 'string',
         description: 'The full path of the file to read (e.g., "src/components/App.tsx")',
       },
+      start_line: {
+        type: 'integer',
+        description: 'First line to read (1-based), for reading further into a long file. Defaults to 1.',
+      },
+    },
+    required: ['path'],
+  },
+};
+
+// How much of a file the model sees at once; less when the model's context budget is small
+const MAX_READ_CHARS = 30000;
+const SUMMARY_RESERVE = 500; // Room for the summary of earlier turns, in tokens
+
+const readFileFurther = (line: number) =>
+  `Read further with read_file and start_line ${line}. Change this file with apply_edit: update_file would need its full content.`;
+
+// The whole lines of `content` from `startLine` that fit in `maxChars`. `readFurther` tells the model how to get the next part.
+const readWindow = (content: string, startLine = 1, maxChars = MAX_READ_CHARS, readFurther = readFileFurther) => {
+  const lines = content.split('\n');
+  const first = Math.min(Math.max(1, Math.floor(startLine)), Math.max(lines.length, 1));
+  let end = first - 1;
+  let size = 0;
+  while (end < lines.length && size + lines[end].length + 1 <= maxChars) size += lines[end++].length + 1;
+  // A single line longer than the limit (minified code) is cut
+  const text = end === first - 1 ? lines[end].slice(0, maxChars) : lines.slice(first - 1, end).join('\n');
+  const last = Math.max(end, first);
+  const partial = first > 1 || last < lines.length || text.length < (lines[first - 1] ?? '').length;
+  return {
+    text,
+    partial,
+    note: partial
+      ? `Showing lines ${first}-${last} of ${lines.length}. ${readFurther(last + 1)}`
+      : undefined,
+  };
+};
+
+// Tool: Search Code
+const searchCodeTool: LlmTool = {
+  name: 'search_code',
+  description: 'Search the contents of all files in the repository, like grep. Returns "path:line: text" for each matching line. Use this to find where something is used or defined instead of guessing file names.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Text to look for (case-insensitive), or a regular expression if "regex" is true.',
+      },
+      regex: {
+        type: 'boolean',
+        description: 'Treat the query as a JavaScript regular expression. Defaults to false.',
+      },
+      case_sensitive: {
+        type: 'boolean',
+        description: 'Match case exactly. Defaults to false.',
+      },
+      path: {
+        type: 'string',
+        description: 'Only search inside this folder or file (e.g., "src/components").',
+      },
+      include: {
+        type: 'string',
+        description: 'Only search files whose path matches this glob (e.g., "*.tsx" or "src/**/*.test.ts").',
+      },
+    },
+    required: ['query'],
+  },
+};
+
+// Tool: Find Symbol
+const findSymbolTool: LlmTool = {
+  name: 'find_symbol',
+  description: 'Find where a TypeScript/JavaScript function, class, interface, type, enum, variable or method is defined. Returns "path:line [kind] text" for each definition.',
+  parameters: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'The exact identifier (e.g., "createChatStream" or "FileNode").',
+      },
+      path: {
+        type: 'string',
+        description: 'Only look inside this folder (e.g., "src/services").',
+      },
+    },
+    required: ['name'],
+  },
+};
+
+// Tool: List Directory
+const listDirectoryTool: LlmTool = {
+  name: 'list_directory',
+  description: 'List the files and folders directly inside a folder of the repository. Folders end in "/". Use this to explore parts of the file structure that are not listed below.',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'The folder path (e.g., "src/components"); empty for the repository root.',
+      },
     },
     required: ['path'],
   },
 };
 
+// Tool: Read Diff (only offered while two refs are being compared)
+const readDiffTool: LlmTool = {
+  name: 'read_diff',
+  description: 'Read the unified diff of one changed file in the comparison the user is browsing. Use this to see what actually changed instead of guessing from file names. Long diffs come back in parts; the response says which lines it covers.',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'The path of a changed file, as listed in the comparison (e.g., "src/components/App.tsx")',
+      },
+      start_line: {
+        type: 'integer',
+        description: 'First line of the diff to read (1-based), for reading further into a long diff. Defaults to 1.',
+      },
+    },
+    required: ['path'],
+  },
+};
+
+// Tool: Propose Plan (only offered in planning mode)
+const proposePlanTool: LlmTool = {
+  name: 'propose_plan',
+  description: 'Present your plan for the requested change as a checklist. The user edits and approves it, then each step is carried out in its own turn. Call this once, after reading what you need.',
+  parameters: {
+    type: 'object',
+    properties: {
+      steps: {
+        type: 'array',
+        description: 'The steps in the order they should be done. Each should be a change that can be made and reviewed on its own.',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', description: 'What the step does, in one sentence.' },
+            files: { type: 'array', items: { type: 'string' }, description: 'Paths the step creates or changes.' },
+          },
+          required: ['title', 'files'],
+        },
+      },
+    },
+    required: ['steps'],
+  },
+};
+
+// The request for one step of an approved plan, sent as a user turn when the plan runs
+export const planStepPrompt = (plan: AgentPlan, index: number) => {
+  const step = plan.steps[index];
+  const checklist = plan.steps.map((s, i) => {
+    const mark = i === index ? 'now' : s.status === 'done' ? 'done' : s.status === 'skipped' ? 'skipped' : 'later';
+    return `${i + 1}. [${mark}] ${s.title}${s.files.length ? ` (${s.files.join(', ')})` : ''}`;
+  });
+  return `Carry out step ${index + 1} of the plan I approved for: ${plan.goal}
+
+${checklist.join('\n')}
+
+Do only step ${index + 1}: ${step.title}${step.files.length ? `\nFiles: ${step.files.join(', ')}` : ''}
+Make every edit it needs with the tools; the later steps follow in their own turns. Then say in a sentence or two what changed.`;
+};
+
+// Read access to the repository for the agent's tools
+export interface RepoAccess {
+  readFile: (path: string) => Promise<string>;
+  listDirectory: (path: string) => Promise<string[]>; // Entry names; folders end in "/"
+  index: CodeIndex;
+  retrieve?: (query: string, signal?: AbortSignal) => Promise<RetrievedChunk[]>; // Code related to the question, from the retrieval index
+}
+
+// Retrieved chunks with line numbers, so answers can cite them as path:line
+const formatRetrieved = (chunks: RetrievedChunk[]) => chunks.map(chunk => {
+  const width = String(chunk.end).length;
+  const lines = chunk.text.split('\n').map((line, i) => `${String(chunk.start + i).padStart(width)}| ${line}`);
+  return `--- ${chunk.path}:${chunk.start}-${chunk.end}\n${lines.join('\n')}`;
+}).join('\n\n');
+
+// What a search left out, so the model knows when to narrow it down
+const describeCoverage = (result: IndexResult<unknown>, limit: number) => [
+  `Searched ${result.searched} files.`,
+  result.limited ? `Stopped at ${limit} results; narrow the search with "path" or "include".` : '',
+  result.skipped ? `${result.skipped} more files were not searched; narrow the search with "path".` : '',
+  result.rateLimited
+    ? `The host's rate limit was reached, so ${result.failed} files could not be read and were not searched. Try again later, or narrow the search with "path".`
+    : result.failed ? `${result.failed} files could not be read and were not searched; another search will try them again.` : '',
+  result.unloaded.length
+    ? `These folders are not loaded yet and were not searched (pass one as "path" to search it): ${result.unloaded.slice(0, 20).join(', ')}${result.unloaded.length > 20 ? ', ...' : ''}`
+    : '',
+].filter(Boolean).join(' ');
+
+// One-line outcome of a review, for the chat transcript
+const describeReview = (path: string, decision: EditDecision) => {
+  if (decision.status === 'accepted') return `✓ Change to ${path} accepted.`;
+  if (decision.status === 'partial') return `Change to ${path} partly accepted (${decision.acceptedHunks} of ${decision.totalHunks} hunks).`;
+  return `✗ Change to ${path} rejected.`;
+};
+
+// The tool result for a reviewed edit. For partial accepts the model gets the hunks that did not land,
+// as a diff from the file's current content, so it can tell what the user kept.
+const decisionResult = (path: string, proposed: string, decision: EditDecision): Record<string, unknown> => {
+  const feedback = decision.feedback?.trim() ? { userFeedback: decision.feedback.trim() } : {};
+  if (decision.status === 'accepted') return { result: `The user reviewed and accepted the change to ${path}.`, ...feedback };
+  if (decision.status === 'partial') {
+    return {
+      result: `The user accepted ${decision.acceptedHunks} of ${decision.totalHunks} changed hunks in ${path}. The rejected hunks below were not applied; the file now has the rest. Don't reapply them unless the user asks.`,
+      rejected: formatUnifiedDiff(path, decision.content ?? '', proposed).slice(0, 30000),
+      ...feedback,
+    };
+  }
+  return {
+    result: `The user rejected the change to ${path}; the file is unchanged.${feedback.userFeedback ? ' Take their feedback into account before trying again.' : ' Ask what they would prefer instead of repeating it.'}`,
+    ...feedback,
+  };
+};
+
+// Settles like `promise`, or rejects as soon as `signal` aborts, so Stop also works during setup
+const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// The ref comparison open in the sidebar
+export interface CompareContext {
+  base: string;
+  head: string;
+  files: ChangedFile[];
+  readDiff: (path: string) => Promise<string>;
+}
+
 export const createChatStream = async (
-  messages: ChatMessage[], 
+  llm: LlmProvider,
+  messages: ChatMessage[],
   fileStructure: string[], // List of all file paths in the repo
   currentFileContext: { path: string; content: string } | undefined,
-  onToolCall: (toolCall: any) => void,
-  onReadFile: (path: string) => Promise<string>
+  onProposeEdit: (edit: Omit<ProposedEdit, 'id'>) => Promise<EditDecision>, // Resolves once the user has reviewed the change
+  repo: RepoAccess,
+  compare?: CompareContext,
+  control: Pick<AgentRequest, 'signal' | 'limits' | 'onTrace'> & {
+    summary?: HistorySummary | null; // Earlier turns already summarized in this chat
+    onContext?: (usage: ContextUsage, summary: HistorySummary | null) => void; // Reports what is sent, and the summary to reuse next time
+    onProposePlan?: (steps: { title: string; files: string[] }[]) => void; // Planning mode: no edits, the plan comes back here
+  } = {}
 ): Promise<AsyncIterable<string>> => {
-  
-  // Using gemini-2.5-flash for fast conversational responses and tool use
-  const model = 'gemini-2.5-flash';
-  
-  // Construct a prompt history
+
   const lastMsg = messages[messages.length - 1];
-  
-  const history: Content[] = messages.slice(0, -1).map(m => {
-    const parts: Part[] = [{ text: m.text }];
-    if (m.image) {
-      const imgData = parseDataUrl(m.image);
-      if (imgData) {
-        parts.push({ inlineData: imgData });
-      }
-    }
-    return {
-      role: m.role,
-      parts: parts
-    };
-  });
 
-  // Limit file list size to avoid context overflow if repo is massive
-  const availableFiles = fileStructure.slice(0, 1500).join('\n');
-  const truncatedWarning = fileStructure.length > 1500 ? `\n...(and ${fileStructure.length - 1500} more files)` : '';
+  // Everything below is sized against the model's context budget, in estimated tokens
+  const budget = contextBudgetFor(llm.config);
+  const readChars = Math.min(MAX_READ_CHARS, budget); // A file read may take about a quarter of it
+
+  // The file list may take a tenth of the budget, and at most 1500 paths; the tools reach the rest
+  let listed = 0;
+  let listChars = 0;
+  while (listed < Math.min(fileStructure.length, 1500) && listChars + fileStructure[listed].length + 1 <= budget * 0.4) {
+    listChars += fileStructure[listed++].length + 1;
+  }
+  const availableFiles = fileStructure.slice(0, listed).join('\n');
+  const truncatedWarning = listed < fileStructure.length ? `\n...(and ${fileStructure.length - listed} more files; find them with 'search_code' or 'list_directory')` : '';
+  const partialTreeNote = fileStructure.some(p => p.endsWith('/'))
+    ? `\n  (Entries ending in "/" are folders whose contents are not listed yet; 'list_directory' shows them and 'read_file' can open any path inside them.)`
+    : '';
+
+  const compareSection = compare ? `
+  COMPARISON IN VIEW: The user is comparing '${compare.base}' (base) with '${compare.head}' (head). Changed files:
+  ${compare.files.slice(0, 500).map(f => `${f.status.toUpperCase()} ${f.previousPath ? `${f.previousPath} -> ` : ''}${f.path} (+${f.additions} -${f.deletions})`).join('\n  ')}${compare.files.length > 500 ? `\n  ...(and ${compare.files.length - 500} more files)` : ''}
+  Use 'read_diff' to read a file's changes before describing them.
+  ` : '';
+
+  const planSection = control.onProposePlan ? `
+  PLANNING MODE: The user wants a plan before anything changes. 'apply_edit' and 'update_file' are not available now.
+  Read what you need to understand the change, then call 'propose_plan' once with the ordered steps and the files each one touches.
+  Afterwards, add a short note on open questions or choices the user should make before running it. Don't write the code yet.
+  ` : '';
+
+  const systemInstruction = (earlier: string) => `You are an expert Senior Software Engineer and Code Reviewer.
+  You are assisting a user in viewing and improving a Git repository.
 
-  const systemInstruction = `You are an expert Senior Software Engineer and Code Reviewer. 
-  You are assisting a user in viewing and improving a GitHub repository.
-  
   MANDATORY OPERATIONAL PROTOCOL:
-  1. **ACTION OVER TALK**: If the user asks to change, fix, or add code, you MUST use the 'update_file' tool. 
+  1. **ACTION OVER TALK**: If the user asks to change, fix, or add code, you MUST use the 'apply_edit' or 'update_file' tool.
      - DO NOT output the code block in your text response.
      - DO NOT say "Here is the code".
      - JUST call the tool.
-  
+
   2. **FULL CONTEXT**: You have access to the file structure:
-  ${availableFiles}${truncatedWarning}
-  
+  ${availableFiles}${truncatedWarning}${partialTreeNote}
+
   3. **TOOLS**:
      - 'read_file': Call this to read ANY file content. Don't guess. Read imports/definitions before editing.
-     - 'update_file': Use this to write code to a file. 
-  
+     - 'search_code', 'find_symbol': Find where code is used or defined across the repository.
+     - 'list_directory': List a folder, including folders whose contents are not listed above.
+     - 'apply_edit': Use this to change existing files, with search/replace blocks or a unified diff.
+     - 'update_file': Use this to create a file or rewrite a small one completely.
+     The user reviews every change before it is written. The tool result says whether it was accepted, partly accepted or rejected, often with a note from them: follow it.
+  ${compareSection}${planSection}${earlier}
   STRATEGY:
   - If the user asks "Fix this", READ the file first if you don't have it.
   - If the user asks "Add a feature", determine which files need changes, READ them, then UPDATE them using the tool.
-  - You can update multiple files in sequence if needed (though currently the UI handles one turn at a time, aim for the most critical update first).
+  - When you refer to code, cite it as \`path:line\` (e.g. \`src/App.tsx:42\`) so the user can jump to it.
+  - When a change spans several files, make every edit it needs before you answer, one file after another.
   `;
 
-  const chat = ai.chats.create({
-    model,
-    history,
-    config: {
-      tools: [{ functionDeclarations: [updateFileTool, readFileTool] }],
-      systemInstruction
-    }
+  // Files written during this run (the caller's state won't show them until it re-renders), and files
+  // the model has only seen part of, which must not be overwritten whole. A file read whole in this run
+  // stays writable even if a read of one of its pages finishes later.
+  const written: Record<string, string> = {};
+  const partiallyRead = new Set<string>();
+  const readWhole = new Set<string>();
+  const readCurrent = (path: string) => (path in written ? Promise.resolve(written[path]) : repo.readFile(path));
+  // Null when the file doesn't exist; any other failure to read it (rate limit, network) is passed on
+  const readExisting = (path: string) => readCurrent(path).catch(e => {
+    if (e instanceof ApiError && e.status === 404) return null;
+    throw e;
   });
 
+  // Sends a change to the user for review and reports the outcome
+  async function* proposeEdit(path: string, original: string | null, proposed: string, description: string): AsyncGenerator<string, ToolResponse> {
+    yield `\n\n*⚡ Proposed change to ${path}: ${description}. Waiting for your review...*\n\n`;
+    const decision = await onProposeEdit({ path, original, proposed, description });
+    if (decision.content !== null) written[path] = decision.content;
+    yield `\n\n*${describeReview(path, decision)}*\n\n`;
+    return decisionResult(path, proposed, decision);
+  }
+
+  const tools: AgentTool[] = [
+    {
+      definition: applyEditTool,
+      async *run(args) {
+        const path = args['path'] as string;
+        const { edits, diff } = args;
+
+        let content: string;
+        let updated: string;
+        try {
+          content = await readExisting(path);
+          if (content === null) throw new Error(`${path} does not exist. Use 'update_file' to create it.`);
+          if (Array.isArray(edits) && edits.length) updated = applySearchReplace(content, edits);
+          else if (typeof diff === 'string' && diff.trim()) updated = applyUnifiedDiff(content, diff);
+          else throw new Error("Give either 'edits' (search/replace blocks) or 'diff' (a unified diff).");
+        } catch (e) {
+          yield `\n\n*Edit to ${path} did not apply, retrying...*\n\n`;
+          return { error: e instanceof Error ? e.message : String(e) };
+        }
+
+        return yield* proposeEdit(path, content, updated, (args['description'] as string | undefined) || `Edit ${path}`);
+      },
+    },
+    {
+      definition: updateFileTool,
+      async *run(args) {
+        const path = (args['path'] as string | undefined) || currentFileContext?.path;
+        const code = args['code'];
+        if (!path || typeof code !== 'string') return { error: "Both 'path' and 'code' are required." };
+        if (partiallyRead.has(path)) {
+          return { error: `You have only seen part of ${path}, so rewriting it whole would drop the rest. Use 'apply_edit' instead.` };
+        }
+
+        let original: string | null;
+        try {
+          original = await readExisting(path);
+        } catch (e) {
+          return { error: `Could not read the current ${path}: ${e instanceof Error ? e.message : String(e)}` };
+        }
+        const description = (args['description'] as string | undefined) || (original === null ? `Create ${path}` : `Rewrite ${path}`);
+        return yield* proposeEdit(path, original, code, description);
+      },
+    },
+    {
+      definition: readFileTool,
+      readOnly: true,
+      async *run(args) {
+        const path = args['path'] as string;
+        yield `\n\n*Reading file: ${path}...*\n\n`;
+
+        let content = "";
+        try {
+          content = await readCurrent(path);
+        } catch (e) {
+          return { content: "Error: Could not read file. It might not exist or is not a text file." };
+        }
+
+        const window = readWindow(content, args['start_line'], readChars);
+        if (!window.partial) {
+          readWhole.add(path);
+          partiallyRead.delete(path);
+        } else if (!readWhole.has(path)) {
+          partiallyRead.add(path);
+        }
+        return window.note ? { content: window.text, note: window.note } : { content: window.text };
+      },
+    },
+    {
+      definition: searchCodeTool,
+      readOnly: true,
+      async *run(args) {
+        const query = String(args['query'] ?? '');
+        yield `\n\n*Searching code: ${query}...*\n\n`;
+
+        const limit = 100;
+        try {
+          if (!query) throw new Error("'query' is required.");
+          const pattern = new RegExp(args['regex'] ? query : escapeRegExp(query), args['case_sensitive'] ? '' : 'i');
+          const result = await repo.index.search(pattern, { scope: args['path'], include: args['include'] }, limit);
+          return {
+            matches: result.matches.map(m => `${m.path}:${m.line}: ${m.text}`).join('\n') || 'No matches.',
+            note: describeCoverage(result, limit),
+          };
+        } catch (e) {
+          return { error: e instanceof SyntaxError ? `Invalid regular expression: ${e.message}` : e instanceof Error ? e.message : String(e) };
+        }
+      },
+    },
+    {
+      definition: findSymbolTool,
+      readOnly: true,
+      async *run(args) {
+        const name = String(args['name'] ?? '').trim();
+        yield `\n\n*Finding symbol: ${name}...*\n\n`;
+
+        const limit = 50;
+        if (!/^[\w$#]+$/.test(name)) return { error: "'name' must be a single identifier." };
+        const result = await repo.index.findSymbol(name.replace(/^#/, ''), { scope: args['path'] }, limit);
+        return {
+          definitions: result.matches.map(m => `${m.path}:${m.line} [${m.kind}] ${m.text}`).join('\n') || `No definition of ${name} found. Try search_code to find where it comes from.`,
+          note: describeCoverage(result, limit),
+        };
+      },
+    },
+    {
+      definition: listDirectoryTool,
+      readOnly: true,
+      async *run(args) {
+        const path = String(args['path'] ?? '').replace(/^\/+|\/+$/g, '');
+        yield `\n\n*Listing: ${path || '/'}...*\n\n`;
+        return { entries: await repo.listDirectory(path) };
+      },
+    },
+  ];
+
+  if (compare) {
+    tools.push({
+      definition: readDiffTool,
+      readOnly: true,
+      async *run(args) {
+        const path = args['path'] as string;
+        yield `\n\n*Reading diff: ${path}...*\n\n`;
+
+        let diff = "";
+        try {
+          diff = await compare.readDiff(path);
+        } catch (e) {
+          return { diff: `Error: Could not load the diff. ${e instanceof Error ? e.message : ''}` };
+        }
+        const window = readWindow(diff, args['start_line'], readChars, line => `Read further with read_diff and start_line ${line}.`);
+        return window.note ? { diff: window.text, note: window.note } : { diff: window.text };
+      },
+    });
+  }
+
+  if (control.onProposePlan) {
+    const onProposePlan = control.onProposePlan;
+    tools.push({
+      definition: proposePlanTool,
+      async *run(args) {
+        const steps = (Array.isArray(args['steps']) ? args['steps'] : [])
+          .filter((step: any) => step && typeof step.title === 'string' && step.title.trim())
+          .map((step: any) => ({
+            title: step.title.trim() as string,
+            files: (Array.isArray(step.files) ? step.files : []).filter((f: unknown): f is string => typeof f === 'string'),
+          }));
+        if (!steps.length) return { error: "'steps' needs at least one step with a title." };
+        onProposePlan(steps);
+        yield `\n\n*📋 Proposed a plan with ${steps.length} step${steps.length === 1 ? '' : 's'}.*\n\n`;
+        return { result: 'The plan is shown to the user as a checklist to edit and run. Do not start on it.' };
+      },
+    });
+  }
+
   let textPrompt = lastMsg.text;
-  
+
+  // Code that looks related to the question, so repository-wide questions don't start from file names alone
+  let retrieved: RetrievedChunk[] = [];
+  if (repo.retrieve) {
+    const startedAt = Date.now();
+    let error: string | undefined;
+    try {
+      retrieved = await abortable(repo.retrieve(lastMsg.text, control.signal), control.signal);
+    } catch (e) {
+      if (control.signal?.aborted) throw e;
+      console.warn('Retrieval failed', e);
+      error = e instanceof Error ? e.message : String(e);
+    }
+    control.onTrace?.({
+      type: 'retrieval',
+      startedAt,
+      durationMs: Date.now() - startedAt,
+      chunks: retrieved.length,
+      chars: retrieved.reduce((sum, c) => sum + c.text.length, 0),
+      ...(error ? { error } : {}),
+    });
+  }
+
   // Implicitly provide the current file context if available, so it doesn't have to fetch it
   if (currentFileContext) {
+    const window = readWindow(currentFileContext.content, 1, readChars);
+    if (window.partial) partiallyRead.add(currentFileContext.path);
     textPrompt = `
     [CURRENTLY OPEN FILE]
     Path: ${currentFileContext.path}
     Content:
     \`\`\`
-    ${currentFileContext.content.slice(0, 30000)} 
-    \`\`\`
-    
+    ${window.text}
+    \`\`\`${window.note ? `\n    (${window.note})` : ''}
+
     [USER QUERY]
     ${lastMsg.text}
-    
+
     (Reminder: You can read other files using the 'read_file' tool if needed to answer this query.)
     `;
   }
 
-  // Construct message with potential image part
-  const msgParts: Part[] = [{ text: textPrompt }];
-  if (lastMsg.image) {
-    const imgData = parseDataUrl(lastMsg.image);
-    if (imgData) {
-      msgParts.push({ inlineData: imgData });
-    }
+  if (retrieved.length) {
+    const related = `
+    [RELATED CODE]
+    Excerpts picked automatically by relevance to the query (from the last commit; files edited in this session may differ). They may be incomplete or off-topic: read the files before relying on details. When you use them, cite the location as \`path:line\`.
+
+${formatRetrieved(retrieved)}
+`;
+    textPrompt = currentFileContext ? `${related}${textPrompt}` : `${related}
+    [USER QUERY]
+    ${lastMsg.text}
+    `;
   }
 
-  return {
-    async *[Symbol.asyncIterator]() {
-      let currentSendPromise = chat.sendMessageStream({ message: msgParts });
-
-      // Agentic Loop: Keep processing until the model stops calling tools
-      while (true) {
-          const stream = await currentSendPromise;
-          let toolCalled = false;
-
-          for await (const chunk of stream) {
-             const c = chunk as GenerateContentResponse;
-             
-             // Yield text chunks to user
-             if (c.text) {
-                 yield c.text;
-             }
-
-             // Handle Tool Calls
-             if (c.functionCalls && c.functionCalls.length > 0) {
-                 toolCalled = true;
-                 
-                 for (const call of c.functionCalls) {
-                     if (call.name === 'read_file') {
-                         const path = call.args['path'] as string;
-                         yield `\n\n*Reading file: ${path}...*\n\n`;
-                         
-                         let content = "";
-                         try {
-                            content = await onReadFile(path);
-                         } catch (e) {
-                            content = "Error: Could not read file. It might not exist or is not a text file.";
-                         }
-
-                         // Send tool response back to model
-                         const responsePart: Part = {
-                             functionResponse: {
-                                 name: call.name,
-                                 id: call.id,
-                                 response: { content: content.slice(0, 30000) } // Limit size
-                             }
-                         };
-                         
-                         currentSendPromise = chat.sendMessageStream({
-                             message: [responsePart]
-                         });
-                     } 
-                     else if (call.name === 'update_file') {
-                         onToolCall(call);
-                         yield `\n\n*⚡ AI Auto-Update: ${call.args['description'] || 'Updating file...'}*\n\n`;
-                         
-                         // Send success response
-                         const responsePart: Part = {
-                             functionResponse: {
-                                 name: call.name,
-                                 id: call.id,
-                                 response: { result: "File updated successfully." }
-                             }
-                         };
-                         
-                         currentSendPromise = chat.sendMessageStream({
-                             message: [responsePart]
-                         });
-                     }
-                 }
-             }
-          }
-
-          // If no tools were called in this turn, we are done
-          if (!toolCalled) {
-              break;
-          }
-      }
-    }
-  };
+  // Earlier messages get what's left after the instructions, the question and a reserve for this run's
+  // tool results; older ones are summarized once they don't fit
+  const promptTokens = estimateTokens(textPrompt) + (lastMsg.image ? IMAGE_TOKENS : 0);
+  const instructionTokens = estimateTokens(systemInstruction(''));
+  const historyBudget = Math.max(0, budget - instructionTokens - promptTokens - SUMMARY_RESERVE - Math.floor(budget * 0.3));
+  const fitted = await abortable(fitHistory(llm, messages.slice(0, -1), control.summary ?? null, historyBudget, control.signal), control.signal);
+
+  const earlier = fitted.summary || fitted.omitted ? `
+  EARLIER IN THIS CONVERSATION:${fitted.summary ? `\n  ${fitted.summary.text}` : ''}${fitted.omitted ? `\n  (${fitted.omitted} earlier messages are not shown.)` : ''}
+  ` : '';
+  const system = systemInstruction(earlier);
+
+  control.onContext?.({
+    budget,
+    window: contextWindowFor(llm.config),
+    instructions: instructionTokens,
+    summary: estimateTokens(earlier),
+    history: fitted.tokens,
+    prompt: promptTokens,
+    summarizedMessages: fitted.summary?.messages ?? 0,
+    omittedMessages: fitted.omitted,
+    droppedImages: fitted.droppedImages,
+    omittedFiles: fileStructure.length - listed,
+  }, fitted.summary);
+
+  // The conversation grows with each model turn and its tool results
+  const conversation: LlmMessage[] = [...fitted.history, { role: 'user', parts: toParts(textPrompt, lastMsg.image) }];
+
+  return runAgentLoop(llm, {
+    system,
+    conversation,
+    // Planning reads and proposes; edits wait for the approved plan
+    tools: control.onProposePlan ? tools.filter(t => t.readOnly || t.definition === proposePlanTool) : tools,
+    contextBudget: budget,
+    limits: control.limits,
+    signal: control.signal,
+    onTrace: control.onTrace,
+  });
 };
 
-export const modifyCode = async (code: string, instruction: string, filename: string, image?: string): Promise<string> => {
-  // Using gemini-3-pro-preview for superior code generation and vision capabilities
-  const model = 'gemini-3-pro-preview'; 
-  
-  const chat = ai.chats.create({
-    model,
-    config: {
-      systemInstruction: `You are an expert coding assistant. 
+// Models sometimes wrap their whole answer in a markdown code block
+const stripCodeFence = (text: string) => text.trim().replace(/^```[\w-]*\s*/, '').replace(/\s*```$/, '');
+
+export const modifyCode = async (llm: LlmProvider, code: string, instruction: string, filename: string, image?: string): Promise<string> => {
+  const system = `You are an expert coding assistant.
       The user wants to modify a file named "${filename}".
       Return ONLY the valid, complete code for the modified file.
-      Do not wrap it in markdown code blocks (like \`\`\`). 
+      Do not wrap it in markdown code blocks (like \`\`\`).
       Do not include any conversational text.
       Just the raw code.
-      
+
       Ensure you preserve the existing functionality unless asked to change it.
       If an image is provided, use it as a visual reference for the requested changes (e.g., matching colors, layout, or fixing UI bugs).
-      `
-    }
-  });
+      `;
 
   const textPrompt = code ? `
   [ORIGINAL CODE]
@@ -246,25 +695,79 @@ export const modifyCode = async (code: string, instruction: string, filename: st
   ` : `
   [INSTRUCTION]
   ${instruction}
-  
+
   Generate the full code for the file "${filename}".
   `;
 
-  const msgParts: Part[] = [{ text: textPrompt }];
-  
-  if (image) {
-    const imgData = parseDataUrl(image);
-    if (imgData) {
-      msgParts.push({ inlineData: imgData });
-    }
-  }
+  const text = await generateText(llm, { system, messages: [{ role: 'user', parts: toParts(textPrompt, image) }] });
+  return stripCodeFence(text);
+};
+
+// A line comment proposed by the reviewer. `side` says which line number `line` is:
+// 'new' for added and unchanged lines, 'old' for removed ones.
+export interface ReviewFinding {
+  path: string;
+  line: number;
+  side: 'old' | 'new';
+  body: string;
+}
+
+const reviewSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'Overall assessment of the pull request, in Markdown.' },
+    comments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          line: { type: 'integer' },
+          side: { type: 'string', enum: ['old', 'new'] },
+          body: { type: 'string' },
+        },
+        required: ['path', 'line', 'side', 'body'],
+      },
+    },
+  },
+  required: ['summary', 'comments'],
+};
 
-  const result = await chat.sendMessage({ message: msgParts });
-  let text = result.text || '';
-  
-  // Robustly strip markdown code blocks if the model includes them
-  text = text.trim();
-  text = text.replace(/^```[\w-]*\s*/, '').replace(/\s*```$/, '');
-  
-  return text;
-};
\ No newline at end of file
+// One-shot review of a pull request. `diffs` are numbered hunks (see formatNumberedDiff);
+// `skipped` lists changed files that didn't fit or couldn't be read.
+export const reviewPullRequest = async (
+  llm: LlmProvider,
+  pr: PullRequestInfo,
+  diffs: { file: ChangedFile; diff: string }[],
+  skipped: string[]
+): Promise<{ summary: string; comments: ReviewFinding[] }> => {
+  const system = `You are an expert Senior Software Engineer reviewing a pull request.
+  Point out bugs, security problems, missing error handling, unclear code and risky changes. Skip praise and nitpicks about formatting.
+
+  Each diff line reads "<old line> <new line> |<marker> <text>": '+' lines only have a new line number, '-' lines only an old one, unchanged lines have both.
+  Anchor every comment to one line shown in the hunks: use side "new" with the new line number for '+' and unchanged lines, side "old" with the old line number for '-' lines.
+  Keep comments specific and actionable. Put the overall assessment in "summary".`;
+
+  const files = diffs.map(({ file, diff }) =>
+    `### ${file.previousPath ? `${file.previousPath} -> ` : ''}${file.path} (${file.status})\n${diff}`
+  ).join('\n\n');
+
+  const prompt = `Pull request #${pr.number}: ${pr.title} (${pr.head} -> ${pr.base}, by ${pr.author})
+
+${pr.body || '(no description)'}
+
+${files}${skipped.length ? `\n\nNot included (too large, binary or unreadable): ${skipped.join(', ')}` : ''}`;
+
+  const text = await generateText(llm, { system, messages: [{ role: 'user', parts: [{ type: 'text', text: prompt }] }], responseSchema: reviewSchema });
+
+  let data: any;
+  try {
+    data = JSON.parse(stripCodeFence(text) || '{}');
+  } catch (e) {
+    throw new Error('The model did not answer with a valid review');
+  }
+  return {
+    summary: typeof data.summary === 'string' ? data.summary : '',
+    comments: Array.isArray(data.comments) ? data.comments : [],
+  };
+};
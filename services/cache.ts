@@ -0,0 +1,200 @@
+import { BlameRange, FileData, FileNode, GitRef, RepoDetails, RepoProvider } from '../types';
+import { ApiError } from './http';
+
+// Persistent cache in IndexedDB. Git objects are immutable, so blobs are stored by blob SHA and
+// trees and blame by the commit/tree SHA they were read at; entries never go stale, they're only purged.
+// Repo details and refs do change; they're refreshed on every load and only served when the host is unreachable.
+// Retrieval indexes (see retrieval.ts) are stored per commit SHA like trees.
+
+const DB_NAME = 'gitgenius-cache';
+const DB_VERSION = 3;
+const STORES = ['blobs', 'trees', 'blame', 'repos', 'retrieval'] as const;
+type StoreName = typeof STORES[number];
+
+interface CacheRecord<T> {
+  value: T;
+  size: number; // Approximate bytes, for the settings panel
+  storedAt: number;
+}
+
+export interface CacheStats {
+  blobs: number;
+  trees: number;
+  blame: number;
+  repos: number;
+  retrieval: number;
+  bytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      STORES.forEach(name => {
+        if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name);
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+};
+
+const run = async <T>(store: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// The cache is an optimization: when IndexedDB is unavailable (e.g. some private windows) reads miss and writes are dropped
+const getCached = async <T>(store: StoreName, key: string): Promise<T | undefined> => {
+  try {
+    const record = await run<CacheRecord<T> | undefined>(store, 'readonly', s => s.get(key));
+    return record?.value;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// `size` defaults to the JSON length, which is misleading (and slow) for typed arrays
+const putCached = async <T>(store: StoreName, key: string, value: T, size = JSON.stringify(value).length) => {
+  try {
+    const record: CacheRecord<T> = { value, size, storedAt: Date.now() };
+    await run(store, 'readwrite', s => s.put(record, key));
+  } catch (e) {
+    // Quota exceeded or no IndexedDB
+  }
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const stats: CacheStats = { blobs: 0, trees: 0, blame: 0, repos: 0, retrieval: 0, bytes: 0 };
+  for (const store of STORES) {
+    const records = await run<CacheRecord<unknown>[]>(store, 'readonly', s => s.getAll());
+    stats[store] = records.length;
+    stats.bytes += records.reduce((sum, r) => sum + r.size, 0);
+  }
+  return stats;
+};
+
+export const clearCache = async () => {
+  for (const store of STORES) {
+    await run(store, 'readwrite', s => s.clear());
+  }
+};
+
+export const loadRetrievalIndex = <T>(key: string) => getCached<T>('retrieval', key);
+
+export const saveRetrievalIndex = <T>(key: string, value: T, size: number) => putCached('retrieval', key, value, size);
+
+// A blob stored by an earlier read, without going to the network
+export const loadCachedBlob = (sha: string) => getCached<FileData>('blobs', sha);
+
+// Network failures and exhausted rate limits; anything else (404, no access) is a real answer
+const isUnavailable = (error: unknown) => error instanceof TypeError || (error instanceof ApiError && error.rateLimited);
+
+const SHA_PATTERN = /^[0-9a-f]{40}$/i;
+
+// Wraps a provider so reads are served from (and saved to) the cache. Writes pass straight through,
+// but a commit moves the remembered ref so the branch's next tree isn't served from its old commit.
+export const withCache = (provider: RepoProvider): RepoProvider => {
+  const repoKey = (owner: string, repo: string) => `${provider.host.id}:${owner}/${repo}`.toLowerCase();
+  // Latest refs per repo, to find the commit SHA a ref name points at
+  const knownRefs = new Map<string, GitRef[]>();
+
+  const moveRef = (owner: string, repo: string, name: string, sha: string) => {
+    const refs = knownRefs.get(repoKey(owner, repo));
+    if (refs) knownRefs.set(repoKey(owner, repo), refs.map(r => (r.name === name ? { ...r, sha } : r)));
+  };
+
+  // The commit a branch/tag name points at, as of the last refs fetch. Null when unknown.
+  const commitSha = (owner: string, repo: string, ref: string) =>
+    knownRefs.get(repoKey(owner, repo))?.find(r => r.name === ref)?.sha ?? (SHA_PATTERN.test(ref) ? ref : null);
+
+  // Online: fetch and remember. Host unreachable: fall back to what we remembered.
+  const withFallback = async <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+    try {
+      const value = await fetcher();
+      putCached('repos', key, value);
+      return value;
+    } catch (e) {
+      const cached = isUnavailable(e) ? await getCached<T>('repos', key) : undefined;
+      if (cached === undefined) throw e;
+      return cached;
+    }
+  };
+
+  return {
+    ...provider,
+
+    fetchRepoDetails: (owner, repo) =>
+      withFallback<RepoDetails>(`${repoKey(owner, repo)}:details`, () => provider.fetchRepoDetails(owner, repo)),
+
+    fetchRefs: async (owner, repo) => {
+      const refs = await withFallback<GitRef[]>(`${repoKey(owner, repo)}:refs`, () => provider.fetchRefs(owner, repo));
+      knownRefs.set(repoKey(owner, repo), refs);
+      return refs;
+    },
+
+    fetchRepoTree: async (owner, repo, ref) => {
+      const sha = commitSha(owner, repo, ref);
+      const key = sha && `${repoKey(owner, repo)}@${sha}`;
+      if (key) {
+        const cached = await getCached<{ nodes: FileNode[]; truncated: boolean }>('trees', key);
+        if (cached) return cached;
+      }
+      const tree = await provider.fetchRepoTree(owner, repo, ref);
+      if (key) putCached('trees', key, tree);
+      return tree;
+    },
+
+    fetchDirectory: async (owner, repo, ref, dir) => {
+      const key = dir.sha && `${repoKey(owner, repo)}:tree:${dir.sha}`;
+      if (key) {
+        const cached = await getCached<FileNode[]>('trees', key);
+        if (cached) return cached;
+      }
+      const children = await provider.fetchDirectory(owner, repo, ref, dir);
+      if (key) putCached('trees', key, children);
+      return children;
+    },
+
+    fetchFileContent: async (node) => {
+      if (node.sha) {
+        const cached = await getCached<FileData>('blobs', node.sha);
+        if (cached) return cached;
+      }
+      const file = await provider.fetchFileContent(node);
+      if (node.sha) putCached('blobs', node.sha, file);
+      return file;
+    },
+
+    fetchBlobText: async (owner, repo, sha) => {
+      const cached = await getCached<FileData>('blobs', sha);
+      if (cached?.kind === 'text') return cached.content;
+      return provider.fetchBlobText(owner, repo, sha);
+    },
+
+    fetchBlame: provider.fetchBlame && (async (owner, repo, ref, path) => {
+      const sha = commitSha(owner, repo, ref);
+      const key = sha && `${repoKey(owner, repo)}@${sha}:${path}`;
+      if (key) {
+        const cached = await getCached<BlameRange[]>('blame', key);
+        if (cached) return cached;
+      }
+      const ranges = await provider.fetchBlame!(owner, repo, ref, path);
+      if (key) putCached('blame', key, ranges);
+      return ranges;
+    }),
+
+    commitToBranch: async (owner, repo, changes, message, branch, onProgress, headSha) => {
+      const commit = await provider.commitToBranch(owner, repo, changes, message, branch, onProgress, headSha);
+      moveRef(owner, repo, branch, commit.sha);
+      return commit;
+    },
+  };
+};
@@ -0,0 +1,141 @@
+import { ChatMessage, LlmMessage, LlmProvider, LlmPart } from '../types';
+import { generateText } from './models';
+
+// Context budgeting for chat requests. Token counts are estimates (about four characters per token), good
+// enough to keep requests under a model's budget without a tokenizer per backend.
+
+export const IMAGE_TOKENS = 800; // Rough cost of one attached image
+const KEEP_IMAGE_MESSAGES = 1; // Earlier user messages whose images are still sent
+const MAX_SUMMARY_WORDS = 250;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const messageTokens = (message: LlmMessage): number => {
+  if (message.role === 'user') return message.parts.reduce((sum, p) => sum + (p.type === 'text' ? estimateTokens(p.text) : IMAGE_TOKENS), 0);
+  if (message.role === 'model') return estimateTokens(message.text) + (message.toolCalls ?? []).reduce((sum, c) => sum + estimateTokens(JSON.stringify(c.args)), 0);
+  return message.results.reduce((sum, r) => sum + estimateTokens(JSON.stringify(r.response)), 0);
+};
+
+export const conversationTokens = (messages: LlmMessage[]) => messages.reduce((sum, m) => sum + messageTokens(m), 0);
+
+// Earlier turns folded into a running summary. `throughId` is the last chat message it covers.
+export interface HistorySummary {
+  throughId: string;
+  messages: number;
+  text: string;
+}
+
+export interface FittedHistory {
+  history: LlmMessage[];
+  summary: HistorySummary | null;
+  tokens: number; // History as sent, without the summary
+  droppedImages: number;
+  omitted: number; // Messages neither sent nor summarized, because summarizing failed
+}
+
+const transcript = (messages: ChatMessage[]) =>
+  messages.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.text}${m.image ? ' [attached an image]' : ''}`).join('\n\n');
+
+const summarize = async (llm: LlmProvider, previous: string | undefined, messages: ChatMessage[], signal?: AbortSignal) => {
+  const text = await generateText(llm, {
+    system: `You condense chat history between a user and a coding assistant working on a Git repository. Write at most ${MAX_SUMMARY_WORDS} words of plain notes: what the user wanted, decisions made, files and symbols involved (with paths), edits made or rejected, and open questions. No preamble.`,
+    messages: [{
+      role: 'user',
+      parts: [{ type: 'text', text: `${previous ? `Summary so far:\n${previous}\n\nLater messages:\n` : ''}${transcript(messages)}` }],
+    }],
+    signal,
+  });
+  if (!text.trim()) throw new Error('The model returned an empty summary');
+  return text.trim();
+};
+
+// Turns the chat history (everything before the current question) into model messages that fit in
+// `budget` tokens. Recent messages are kept verbatim; once they don't fit, the oldest are folded into
+// the summary, down to half the budget so it doesn't have to be redone on every turn. Only the most
+// recent images are sent again.
+export const fitHistory = async (
+  llm: LlmProvider,
+  messages: ChatMessage[],
+  summary: HistorySummary | null,
+  budget: number,
+  signal?: AbortSignal
+): Promise<FittedHistory> => {
+  // Messages an existing summary covers aren't sent again
+  const start = summary ? messages.findIndex(m => m.id === summary.throughId) + 1 : 0;
+  let current = start > 0 ? summary : null;
+  let pending = messages.slice(start);
+
+  let imageMessages = 0;
+  let droppedImages = 0;
+  const converted = new Map<ChatMessage, LlmMessage>();
+  for (const m of [...pending].reverse()) {
+    if (m.role === 'model') {
+      converted.set(m, { role: 'model', text: m.text });
+      continue;
+    }
+    const parts: LlmPart[] = [{ type: 'text', text: m.text }];
+    const image = m.image?.match(/^data:(.+);base64,(.+)$/);
+    if (image && imageMessages < KEEP_IMAGE_MESSAGES) {
+      parts.push({ type: 'image', mimeType: image[1], data: image[2] });
+      imageMessages++;
+    } else if (m.image) {
+      parts[0] = { type: 'text', text: `${m.text}\n[An image was attached here; it is no longer shown.]` };
+      droppedImages++;
+    }
+    converted.set(m, { role: 'user', parts });
+  }
+
+  const tokensOf = (list: ChatMessage[]) => list.reduce((sum, m) => sum + messageTokens(converted.get(m)!), 0);
+  let omitted = 0;
+
+  if (tokensOf(pending) > budget) {
+    // Keep the newest messages that fit in half the budget, starting with a user message
+    let kept = 0;
+    let size = 0;
+    for (let i = pending.length - 1; i >= 0; i--) {
+      const tokens = messageTokens(converted.get(pending[i])!);
+      if (size + tokens > budget / 2) break;
+      size += tokens;
+      kept++;
+    }
+    let cut = pending.length - kept;
+    while (cut < pending.length && pending[cut].role !== 'user') cut++;
+    const folded = pending.slice(0, cut);
+    pending = pending.slice(cut);
+
+    try {
+      const text = await summarize(llm, current?.text, folded, signal);
+      current = { throughId: folded[folded.length - 1].id, messages: (current?.messages ?? 0) + folded.length, text };
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      // The old summary stays; the messages in between are left out
+      console.warn('Summarizing the conversation failed', e);
+      omitted = folded.length;
+    }
+  }
+
+  // Providers expect the history to open with a user message
+  while (pending.length && pending[0].role !== 'user') pending = pending.slice(1);
+  const history = pending.map(m => converted.get(m)!);
+  return { history, summary: current, tokens: tokensOf(pending), droppedImages, omitted };
+};
+
+// Within one agent run, tool results pile up. When the conversation outgrows `budget`, the oldest results
+// are replaced by a note (the latest round is always kept whole). Returns how many were elided.
+export const compactToolResults = (conversation: LlmMessage[], budget: number): number => {
+  let total = conversationTokens(conversation);
+  let elided = 0;
+  const lastTool = conversation.map(m => m.role).lastIndexOf('tool');
+  for (let i = 0; i < lastTool && total > budget; i++) {
+    const message = conversation[i];
+    if (message.role !== 'tool') continue;
+    message.results = message.results.map(result => {
+      if (total <= budget || result.response.elided) return result;
+      const response = { elided: 'This result was removed to save context. Call the tool again if you still need it.' };
+      total += estimateTokens(JSON.stringify(response)) - estimateTokens(JSON.stringify(result.response));
+      elided++;
+      return { ...result, response };
+    });
+  }
+  return elided;
+};
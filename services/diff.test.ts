@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyHunks, diffHunks, diffLines, formatUnifiedDiff, merge3, renderMerge, splitLines } from './diff';
+import { applyUnifiedDiff } from './patch';
+
+const lines = (...l: string[]) => l.join('\n');
+const count = (ops: { type: string }[], type: string) => ops.filter(op => op.type === type).length;
+
+const PAIRS: [string, string][] = [
+  [lines('a', 'b', 'c', 'd', 'e'), lines('a', 'B', 'c', 'e', 'f')],
+  [lines('one', 'two', 'three'), lines('zero', 'one', 'three', 'four')],
+  [lines('same', 'same', 'same'), lines('same', 'other', 'same', 'same')],
+  ['', lines('new', 'file')],
+  [lines('old', 'file'), ''],
+];
+
+test('a diff turns the old text into the new one', () => {
+  for (const [oldText, newText] of PAIRS) {
+    const a = splitLines(oldText);
+    const b = splitLines(newText);
+    const ops = diffLines(a, b);
+    assert.deepEqual(ops.filter(op => op.type !== 'insert').map(op => op.line), a);
+    assert.deepEqual(ops.filter(op => op.type !== 'delete').map(op => op.line), b);
+    assert.deepEqual(applyHunks(a, diffHunks(a, b)), b);
+    if (oldText) assert.equal(applyUnifiedDiff(oldText, formatUnifiedDiff('f', oldText, newText)), newText);
+  }
+});
+
+test('past the edit limit the changed middle becomes one replace, which still round-trips', () => {
+  // Every other line changes: 2 * 150 edits is a real diff, 2 * 1500 is over the limit
+  const alternating = (n: number, side: string) => Array.from({ length: n }, (_, i) => (i % 2 ? `${side}${i}` : `same${i}`));
+
+  const small = diffLines(alternating(300, 'a'), alternating(300, 'b'));
+  assert.equal(count(small, 'equal'), 150);
+
+  const a = alternating(3000, 'a');
+  const b = alternating(3000, 'b');
+  const large = diffLines(a, b);
+  assert.equal(count(large, 'equal'), 1); // Only the common first line
+  assert.equal(count(large, 'delete'), 2999);
+  assert.deepEqual(large.slice(1, 3000).map(op => op.type), Array(2999).fill('delete'));
+  assert.deepEqual(applyHunks(a, diffHunks(a, b)), b);
+});
+
+test('insertions at the start and end of a file', () => {
+  const a = ['a', 'b'];
+  const b = ['x', 'a', 'b', 'y'];
+  assert.deepEqual(diffHunks(a, b), [
+    { oldStart: 0, oldEnd: 0, lines: ['x'] },
+    { oldStart: 2, oldEnd: 2, lines: ['y'] },
+  ]);
+  assert.equal(formatUnifiedDiff('f', lines(...a), lines(...b)), lines('--- a/f', '+++ b/f', '@@ -1,2 +1,4 @@', '+x', ' a', ' b', '+y'));
+
+  const oldText = lines('a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i');
+  const newText = lines('x', oldText, 'y');
+  const diff = formatUnifiedDiff('f', oldText, newText, 1);
+  assert.equal(diff, lines('--- a/f', '+++ b/f', '@@ -1,1 +1,2 @@', '+x', ' a', '@@ -9,1 +10,2 @@', ' i', '+y'));
+  assert.equal(applyUnifiedDiff(oldText, diff), newText);
+});
+
+test('merge3 takes one-sided and identical changes and conflicts on the rest', () => {
+  const base = lines('a', 'b', 'c', 'd', 'e', 'f', 'g');
+  const clean = merge3(base, lines('a', 'B', 'c', 'd', 'e', 'f', 'g'), lines('a', 'b', 'c', 'd', 'e', 'F', 'g'));
+  assert.equal(clean.conflicts, 0);
+  assert.equal(renderMerge(clean), lines('a', 'B', 'c', 'd', 'e', 'F', 'g'));
+
+  const same = merge3(base, lines('a', 'b', 'c', 'D', 'e', 'f', 'g'), lines('a', 'b', 'c', 'D', 'e', 'f', 'g'));
+  assert.deepEqual(same, { chunks: [{ type: 'clean', lines: ['a', 'b', 'c', 'D', 'e', 'f', 'g'] }], conflicts: 0 });
+
+  const conflicting = merge3(base, lines('a', 'B', 'c', 'ours', 'e', 'f', 'g'), lines('a', 'b', 'c', 'theirs', 'e', 'f', 'G'));
+  assert.equal(conflicting.conflicts, 1);
+  assert.deepEqual(conflicting.chunks, [
+    { type: 'clean', lines: ['a', 'B', 'c'] },
+    { type: 'conflict', base: ['d'], ours: ['ours'], theirs: ['theirs'] },
+    { type: 'clean', lines: ['e', 'f', 'G'] },
+  ]);
+});
+
+test('merge3 of insertions at the start and end of a file', () => {
+  assert.deepEqual(merge3(lines('a', 'b'), lines('x', 'a', 'b'), lines('a', 'b', 'y')), {
+    chunks: [{ type: 'clean', lines: ['x', 'a', 'b', 'y'] }],
+    conflicts: 0,
+  });
+  // Both sides inserting different lines at the same place is a conflict over nothing in the base
+  assert.deepEqual(merge3(lines('a', 'b'), lines('x', 'a', 'b'), lines('z', 'a', 'b')).chunks[0], {
+    type: 'conflict', base: [], ours: ['x'], theirs: ['z'],
+  });
+});
@@ -0,0 +1,302 @@
+// Line-based diffing and three-way merging, used for push conflicts and for browsing ref comparisons.
+
+export type DiffOp =
+  | { type: 'equal'; line: string }
+  | { type: 'insert'; line: string }
+  | { type: 'delete'; line: string };
+
+// A contiguous change against the old text: old lines [oldStart, oldEnd) become `lines`.
+export interface DiffHunk {
+  oldStart: number;
+  oldEnd: number;
+  lines: string[];
+}
+
+export type MergeChunk =
+  | { type: 'clean'; lines: string[] }
+  | { type: 'conflict'; base: string[]; ours: string[]; theirs: string[] };
+
+export interface MergeResult {
+  chunks: MergeChunk[];
+  conflicts: number;
+}
+
+export const splitLines = (text: string): string[] => text === '' ? [] : text.split('\n');
+
+// Beyond this many changed lines the changed region is treated as one replace, which keeps the diff's
+// memory (about D² numbers) and time bounded on the main thread
+const MAX_EDIT_DISTANCE = 2000;
+
+// Myers' O((N+M)D) diff. Returns the full edit script from `a` to `b`.
+export const diffLines = (a: string[], b: string[]): DiffOp[] => {
+  // Common ends are matched directly; only the middle is searched
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const head: DiffOp[] = a.slice(0, prefix).map(line => ({ type: 'equal', line }));
+  const tail: DiffOp[] = a.slice(a.length - suffix).map(line => ({ type: 'equal', line }));
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle = myers(middleA, middleB) ?? [
+    ...middleA.map((line): DiffOp => ({ type: 'delete', line })),
+    ...middleB.map((line): DiffOp => ({ type: 'insert', line })),
+  ];
+  return [...head, ...middle, ...tail];
+};
+
+// The edit script, or null when it would take more than MAX_EDIT_DISTANCE edits. Each step keeps only
+// the diagonals it can reach, [-d, d], for the walk back.
+const myers = (a: string[], b: string[]): DiffOp[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 2);
+  const trace: Int32Array[] = []; // trace[d][k + d] is v[k] before step d
+  let found = n + m === 0;
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break outer;
+      }
+    }
+  }
+  if (!found) return null;
+
+  // Walk the trace backwards to recover the edit script
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const at = (k: number) => vd[k + d];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+    const prevX = d > 0 ? at(prevK) : 0;
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) ops.push({ type: 'insert', line: b[--y] });
+      else ops.push({ type: 'delete', line: a[--x] });
+    }
+  }
+  return ops.reverse();
+};
+
+// Groups an edit script into hunks of consecutive changes.
+export const diffHunks = (a: string[], b: string[]): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let oldIndex = 0;
+
+  for (const op of diffLines(a, b)) {
+    if (op.type === 'equal') {
+      current = null;
+      oldIndex++;
+      continue;
+    }
+    if (!current) {
+      current = { oldStart: oldIndex, oldEnd: oldIndex, lines: [] };
+      hunks.push(current);
+    }
+    if (op.type === 'delete') {
+      oldIndex++;
+      current.oldEnd = oldIndex;
+    } else {
+      current.lines.push(op.line);
+    }
+  }
+  return hunks;
+};
+
+// Replays the hunks that fall inside base[start, end) and returns the resulting lines.
+const applyHunksInRange = (base: string[], start: number, end: number, hunks: DiffHunk[]): string[] => {
+  const out: string[] = [];
+  let index = start;
+  for (const hunk of hunks) {
+    out.push(...base.slice(index, hunk.oldStart), ...hunk.lines);
+    index = hunk.oldEnd;
+  }
+  out.push(...base.slice(index, end));
+  return out;
+};
+
+// Applies a subset of the hunks diffHunks(base, …) returned, e.g. the ones a reviewer accepted
+export const applyHunks = (base: string[], hunks: DiffHunk[]): string[] => applyHunksInRange(base, 0, base.length, hunks);
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+// diff3-style merge: changes made on only one side are taken as-is, overlapping
+// (or touching) changes from both sides become conflicts unless they're identical.
+export const merge3 = (base: string, ours: string, theirs: string): MergeResult => {
+  const baseLines = splitLines(base);
+  const tagged = [
+    ...diffHunks(baseLines, splitLines(ours)).map(h => ({ ...h, side: 'ours' as const })),
+    ...diffHunks(baseLines, splitLines(theirs)).map(h => ({ ...h, side: 'theirs' as const })),
+  ].sort((a, b) => a.oldStart - b.oldStart || a.oldEnd - b.oldEnd);
+
+  const chunks: MergeChunk[] = [];
+  let conflicts = 0;
+  let index = 0;
+
+  const pushClean = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === 'clean') last.lines.push(...lines);
+    else chunks.push({ type: 'clean', lines: [...lines] });
+  };
+
+  let i = 0;
+  while (i < tagged.length) {
+    // Collect every hunk overlapping the growing region
+    let start = tagged[i].oldStart;
+    let end = tagged[i].oldEnd;
+    const region = [tagged[i++]];
+    while (i < tagged.length && tagged[i].oldStart <= end) {
+      end = Math.max(end, tagged[i].oldEnd);
+      region.push(tagged[i++]);
+    }
+
+    pushClean(baseLines.slice(index, start));
+    index = end;
+
+    const oursHunks = region.filter(h => h.side === 'ours');
+    const theirsHunks = region.filter(h => h.side === 'theirs');
+    const oursLines = applyHunksInRange(baseLines, start, end, oursHunks);
+    const theirsLines = applyHunksInRange(baseLines, start, end, theirsHunks);
+
+    if (theirsHunks.length === 0) pushClean(oursLines);
+    else if (oursHunks.length === 0) pushClean(theirsLines);
+    else if (sameLines(oursLines, theirsLines)) pushClean(oursLines);
+    else {
+      conflicts++;
+      chunks.push({ type: 'conflict', base: baseLines.slice(start, end), ours: oursLines, theirs: theirsLines });
+    }
+  }
+  pushClean(baseLines.slice(index));
+
+  return { chunks, conflicts };
+};
+
+// Renders a merge with git-style conflict markers.
+export const renderMerge = (result: MergeResult): string => {
+  return result.chunks.flatMap(chunk => chunk.type === 'clean'
+    ? chunk.lines
+    : ['<<<<<<< ours', ...chunk.ours, '||||||| base', ...chunk.base, '=======', ...chunk.theirs, '>>>>>>> theirs']
+  ).join('\n');
+};
+
+export const hasConflictMarkers = (text: string): boolean => /^(<<<<<<< |>>>>>>> )/m.test(text);
+
+// A line of a rendered diff. Unchanged lines carry both line numbers, changed lines only their own side's.
+export interface DiffLine {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+// Runs of unchanged lines far from any change are folded into `skipped` sections
+export type DiffSection =
+  | { type: 'lines'; lines: DiffLine[] }
+  | { type: 'skipped'; lines: DiffLine[] };
+
+export const numberDiffLines = (oldText: string, newText: string): DiffLine[] => {
+  let oldLine = 0;
+  let newLine = 0;
+  return diffLines(splitLines(oldText), splitLines(newText)).map((op): DiffLine => {
+    if (op.type === 'equal') return { type: 'equal', text: op.line, oldLine: ++oldLine, newLine: ++newLine };
+    if (op.type === 'delete') return { type: 'delete', text: op.line, oldLine: ++oldLine };
+    return { type: 'insert', text: op.line, newLine: ++newLine };
+  });
+};
+
+export const countChanges = (lines: DiffLine[]) => ({
+  additions: lines.filter(l => l.type === 'insert').length,
+  deletions: lines.filter(l => l.type === 'delete').length,
+});
+
+// Keeps `context` unchanged lines around each change and folds the rest
+export const foldDiff = (lines: DiffLine[], context = 3): DiffSection[] => {
+  const visible = lines.map(() => false);
+  lines.forEach((line, i) => {
+    if (line.type === 'equal') return;
+    for (let j = Math.max(0, i - context); j <= Math.min(lines.length - 1, i + context); j++) visible[j] = true;
+  });
+
+  const sections: DiffSection[] = [];
+  lines.forEach((line, i) => {
+    const type = visible[i] ? 'lines' : 'skipped';
+    const last = sections[sections.length - 1];
+    if (last?.type === type) last.lines.push(line);
+    else sections.push({ type, lines: [line] });
+  });
+  return sections;
+};
+
+// Side-by-side rows: deletions are paired with the insertions that replace them
+export const pairDiffLines = (lines: DiffLine[]): { left?: DiffLine; right?: DiffLine }[] => {
+  const rows: { left?: DiffLine; right?: DiffLine }[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === 'equal') {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+    const deleted: DiffLine[] = [];
+    const inserted: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'delete') deleted.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'insert') inserted.push(lines[i++]);
+    for (let j = 0; j < Math.max(deleted.length, inserted.length); j++) rows.push({ left: deleted[j], right: inserted[j] });
+  }
+  return rows;
+};
+
+// Git-style unified diff. null content means the file doesn't exist on that side.
+export const formatUnifiedDiff = (path: string, oldText: string | null, newText: string | null, context = 3, oldPath = path): string => {
+  const out = [`--- ${oldText === null ? '/dev/null' : `a/${oldPath}`}`, `+++ ${newText === null ? '/dev/null' : `b/${path}`}`];
+  let oldPos = 1;
+  let newPos = 1;
+  for (const section of foldDiff(numberDiffLines(oldText ?? '', newText ?? ''), context)) {
+    const oldCount = section.lines.filter(l => l.type !== 'insert').length;
+    const newCount = section.lines.filter(l => l.type !== 'delete').length;
+    if (section.type === 'lines') {
+      // An empty side is addressed by the line before it
+      out.push(`@@ -${oldCount ? oldPos : oldPos - 1},${oldCount} +${newCount ? newPos : newPos - 1},${newCount} @@`);
+      section.lines.forEach(l => out.push(`${l.type === 'insert' ? '+' : l.type === 'delete' ? '-' : ' '}${l.text}`));
+    }
+    oldPos += oldCount;
+    newPos += newCount;
+  }
+  return out.join('\n');
+};
+
+// Lines inside the hunks of a folded diff, the only ones hosts accept review comments on
+export const hunkLines = (oldText: string, newText: string, context = 3): DiffLine[] =>
+  foldDiff(numberDiffLines(oldText, newText), context).flatMap(s => (s.type === 'lines' ? s.lines : []));
+
+// Hunks with both line numbers spelled out ("old new | text"), so a reader can point at exact lines
+export const formatNumberedDiff = (oldText: string, newText: string, context = 3): string => {
+  const pad = (n?: number) => String(n ?? '').padStart(5);
+  return foldDiff(numberDiffLines(oldText, newText), context)
+    .map(section => section.type === 'skipped'
+      ? `      ... ${section.lines.length} unchanged line(s) ...`
+      : section.lines.map(l => `${pad(l.oldLine)} ${pad(l.newLine)} |${l.type === 'insert' ? '+' : l.type === 'delete' ? '-' : ' '} ${l.text}`).join('\n'))
+    .join('\n');
+};
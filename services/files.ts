@@ -0,0 +1,106 @@
+import { FileData } from '../types';
+
+// Classifies raw file bytes into text, image, binary or Git LFS pointer.
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  ico: 'image/x-icon',
+  bmp: 'image/bmp',
+  avif: 'image/avif',
+};
+
+const LFS_POINTER_PREFIX = 'version https://git-lfs.github.com/spec/v1';
+const HEX_PREVIEW_BYTES = 4096;
+// git's own heuristic: a NUL byte in the first 8000 bytes means binary
+const BINARY_SNIFF_BYTES = 8000;
+
+export const imageMimeType = (path: string): string | null => {
+  const ext = path.split('.').pop()?.toLowerCase() || '';
+  return IMAGE_TYPES[ext] ?? null;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binaryString = atob(base64.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Classic `xxd`-style dump: offset, 16 hex bytes, printable ASCII
+export const hexDump = (bytes: Uint8Array, limit = HEX_PREVIEW_BYTES): string => {
+  const lines: string[] = [];
+  const end = Math.min(bytes.length, limit);
+  for (let offset = 0; offset < end; offset += 16) {
+    const row = bytes.subarray(offset, Math.min(offset + 16, end));
+    const hex = Array.from(row, b => b.toString(16).padStart(2, '0')).join(' ');
+    const ascii = Array.from(row, b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  ${ascii}`);
+  }
+  return lines.join('\n');
+};
+
+const parseLfsPointer = (text: string): FileData['lfs'] | null => {
+  if (!text.startsWith(LFS_POINTER_PREFIX)) return null;
+  const oid = text.match(/^oid sha256:([0-9a-f]{64})$/m);
+  const size = text.match(/^size (\d+)$/m);
+  if (!oid || !size) return null;
+  return { oid: oid[1], size: parseInt(size[1], 10) };
+};
+
+const decodeText = (bytes: Uint8Array): string | null => {
+  if (bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0)) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch (e) {
+    return null;
+  }
+};
+
+export const classifyFile = (path: string, bytes: Uint8Array): FileData => {
+  const size = bytes.length;
+
+  const mime = imageMimeType(path);
+  if (mime) {
+    return { kind: 'image', content: '', size, dataUrl: `data:${mime};base64,${bytesToBase64(bytes)}` };
+  }
+
+  const text = decodeText(bytes);
+  if (text === null) {
+    return { kind: 'binary', content: '', size, hexPreview: hexDump(bytes) };
+  }
+
+  // LFS pointers are tiny text files standing in for the real content
+  const lfs = size < 1024 ? parseLfsPointer(text) : null;
+  if (lfs) return { kind: 'lfs', content: text, size, lfs };
+
+  return { kind: 'text', content: text, size };
+};
+
+// What the AI gets instead of unreadable content
+export const describeNonTextFile = (path: string, file: FileData): string => {
+  if (file.kind === 'image') return `[${path} is an image (${imageMimeType(path)}, ${formatBytes(file.size)}). Its content cannot be read as text.]`;
+  if (file.kind === 'lfs') return `[${path} is a Git LFS pointer to a ${formatBytes(file.lfs!.size)} object (sha256:${file.lfs!.oid}). The real content is stored outside the repository.]`;
+  return `[${path} is a binary file (${formatBytes(file.size)}). Its content cannot be read as text.]`;
+};
@@ -0,0 +1,84 @@
+import { GoogleGenAI, Content, Part, GenerateContentResponse } from '@google/genai';
+import { EmbeddingPurpose, LlmConfig, LlmMessage, LlmProvider, LlmRequest, LlmStreamEvent } from '../types';
+
+const toContents = (messages: LlmMessage[]): Content[] => messages.map((m): Content => {
+  if (m.role === 'user') {
+    return {
+      role: 'user',
+      parts: m.parts.map((p): Part => (p.type === 'text' ? { text: p.text } : { inlineData: { mimeType: p.mimeType, data: p.data } })),
+    };
+  }
+  if (m.role === 'model') {
+    const parts: Part[] = m.text ? [{ text: m.text }] : [];
+    m.toolCalls?.forEach(call => parts.push({ functionCall: { id: call.id, name: call.name, args: call.args }, thoughtSignature: call.signature }));
+    return { role: 'model', parts };
+  }
+  return {
+    role: 'user',
+    parts: m.results.map((r): Part => ({ functionResponse: { id: r.callId, name: r.name, response: r.response } })),
+  };
+});
+
+// Gemini embeddings default to 3072 dimensions; 768 keeps stored indexes small at little cost in quality
+const EMBEDDING_DIMENSIONS = 768;
+
+// Google's Gemini API through the official SDK. In the browser this is only used with the user's own key;
+// the shared key stays on the proxy server (server/index.ts), which runs this same provider.
+export const createGeminiProvider = (config: LlmConfig): LlmProvider => {
+  const ai = new GoogleGenAI({
+    apiKey: config.apiKey,
+    ...(config.endpoint ? { httpOptions: { baseUrl: config.endpoint } } : {}),
+  });
+
+  async function* stream(request: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    const response = await ai.models.generateContentStream({
+      model: config.model,
+      contents: toContents(request.messages),
+      config: {
+        systemInstruction: request.system,
+        abortSignal: request.signal,
+        tools: request.tools?.length
+          ? [{ functionDeclarations: request.tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+          : undefined,
+        ...(request.responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: request.responseSchema } : {}),
+      },
+    });
+
+    let callCount = 0;
+    let usage: GenerateContentResponse['usageMetadata'];
+    for await (const chunk of response as AsyncIterable<GenerateContentResponse>) {
+      usage = chunk.usageMetadata ?? usage;
+      // Walk the parts rather than using `chunk.text`, so thought signatures on calls aren't lost
+      for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+        if (part.thought) continue;
+        if (part.text) yield { type: 'text', text: part.text };
+        if (part.functionCall?.name) {
+          yield {
+            type: 'tool_call',
+            call: {
+              id: part.functionCall.id ?? `call-${callCount++}`,
+              name: part.functionCall.name,
+              args: part.functionCall.args ?? {},
+              signature: part.thoughtSignature,
+            },
+          };
+        }
+      }
+    }
+    if (usage) {
+      // Thinking tokens are billed as output
+      yield { type: 'usage', inputTokens: usage.promptTokenCount ?? 0, outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0) };
+    }
+  }
+
+  const embed = async (texts: string[], purpose: EmbeddingPurpose): Promise<number[][]> => {
+    const response = await ai.models.embedContent({
+      model: config.embeddingModel!,
+      contents: texts,
+      config: { taskType: purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT', outputDimensionality: EMBEDDING_DIMENSIONS },
+    });
+    return (response.embeddings ?? []).map(e => e.values ?? []);
+  };
+
+  return { config, stream, ...(config.embeddingModel ? { embed } : {}) };
+};
@@ -0,0 +1,148 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HostConfig, RepoProvider } from '../types';
+import { createGiteaProvider } from './gitea';
+import { ApiError } from './http';
+import { MockRequest, MockRoute, startMockHost } from './mock';
+
+const b64 = (text: string) => Buffer.from(text).toString('base64');
+
+// Runs `body` against a provider whose API is a mock host serving `routes`
+const withHost = async (
+  routes: (url: string) => Record<string, MockRoute>,
+  body: (provider: RepoProvider, requests: MockRequest[], url: string) => Promise<void>
+) => {
+  const server = await startMockHost(routes);
+  const host: HostConfig = { id: 'codeberg.org', kind: 'gitea', label: 'Codeberg', webUrl: 'https://codeberg.org', apiUrl: server.url };
+  try {
+    await body(createGiteaProvider(host), server.requests, server.url);
+  } finally {
+    await server.close();
+  }
+};
+
+const treePage = (ref: string, page: number, recursive = true) =>
+  `GET /repos/acme/widgets/git/trees/${ref}?recursive=${recursive}&per_page=1000&page=${page}`;
+const entry = (path: string, type: 'blob' | 'tree') => ({ path, type, sha: `sha-${path}`, mode: type === 'tree' ? '040000' : '100644' });
+
+test('parseLocation tells files from folders in /src/ links by their line anchor', () => {
+  const { parseLocation } = createGiteaProvider({ id: 'codeberg.org', kind: 'gitea', label: 'Codeberg', webUrl: 'https://codeberg.org', apiUrl: '' });
+  assert.deepEqual(parseLocation(['acme', 'widgets', 'src', 'branch', 'main', 'src', 'a.ts'], '#L3'), {
+    owner: 'acme', repo: 'widgets', kind: 'blob', refPath: 'main/src/a.ts', lines: { start: 3, end: 3 },
+  });
+  assert.deepEqual(parseLocation(['acme', 'widgets', 'src', 'tag', 'v1', 'src'], ''), {
+    owner: 'acme', repo: 'widgets', kind: 'tree', refPath: 'v1/src', lines: undefined,
+  });
+  assert.deepEqual(parseLocation(['acme', 'widgets', 'commit', 'abc123'], ''), { owner: 'acme', repo: 'widgets', kind: 'commit', refPath: 'abc123' });
+  assert.deepEqual(parseLocation(['acme', 'widgets', 'pulls', '9'], ''), { owner: 'acme', repo: 'widgets', kind: 'pull', pullNumber: 9 });
+});
+
+test('fetchRepoDetails maps the repository, and a 404 asks for a token', async () => {
+  await withHost(() => ({
+    'GET /repos/acme/widgets': [200, {
+      owner: { login: 'acme' }, name: 'widgets', description: 'Widgets', default_branch: 'main', stars_count: 2, website: '', private: false,
+    }],
+  }), async provider => {
+    assert.deepEqual(await provider.fetchRepoDetails('acme', 'widgets'), {
+      owner: 'acme', name: 'widgets', description: 'Widgets', defaultBranch: 'main', stars: 2, homepage: undefined, isPrivate: false,
+    });
+    await assert.rejects(provider.fetchRepoDetails('acme', 'secret'), (e: unknown) => (
+      e instanceof ApiError && e.status === 404 && /add a Codeberg token/.test(e.message)
+    ));
+  });
+});
+
+test('fetchRepoTree collects the pages of a recursive listing', async () => {
+  await withHost(() => ({
+    [treePage('main', 1)]: [200, { sha: 'root', truncated: true, tree: [entry('src', 'tree'), entry('src/a.ts', 'blob')] }],
+    [treePage('main', 2)]: [200, { sha: 'root', truncated: false, tree: [entry('README.md', 'blob')] }],
+  }), async (provider, requests) => {
+    const { nodes, truncated } = await provider.fetchRepoTree('acme', 'widgets', 'main');
+    assert.equal(truncated, false);
+    assert.deepEqual(nodes.map(n => n.path), ['src', 'README.md']);
+    assert.deepEqual(nodes[0].children?.map(n => n.path), ['src/a.ts']);
+    assert.equal(requests.length, 2);
+  });
+});
+
+test('fetchRepoTree loads only the root level of a listing with too many pages', async () => {
+  await withHost(() => {
+    const pages: Record<string, MockRoute> = {};
+    for (let page = 1; page <= 30; page++) pages[treePage('big', page)] = [200, { sha: 'bigroot', truncated: true, tree: [entry(`f${page}.ts`, 'blob')] }];
+    return {
+      ...pages,
+      [treePage('bigroot', 1, false)]: [200, { sha: 'bigroot', truncated: false, tree: [entry('lib', 'tree'), entry('index.ts', 'blob')] }],
+    };
+  }, async (provider, requests) => {
+    const { nodes, truncated } = await provider.fetchRepoTree('acme', 'widgets', 'big');
+    assert.equal(truncated, true);
+    assert.deepEqual(nodes.map(n => [n.path, !!n.unloaded]), [['lib', true], ['index.ts', false]]);
+    assert.equal(requests.length, 21); // The 20 pages it gives up after, then the root level
+  });
+});
+
+test('fetchFileContent decodes the blob API\'s base64 content', async () => {
+  await withHost(() => ({
+    'GET /repos/acme/widgets/git/blobs/b1': [200, { sha: 'b1', content: b64('export const a = 1;\n'), encoding: 'base64' }],
+  }), async (provider, requests, url) => {
+    const node = { path: 'a.ts', name: 'a.ts', type: 'blob' as const, url: `${url}/repos/acme/widgets/git/blobs/b1` };
+    assert.deepEqual(await provider.fetchFileContent(node), { kind: 'text', content: 'export const a = 1;\n', size: 20 });
+    await assert.rejects(provider.fetchFileContent({ ...node, url: `${url}/repos/acme/widgets/git/blobs/gone` }), (e: unknown) => (
+      e instanceof ApiError && e.status === 404
+    ));
+  });
+});
+
+// `main` is at c1, where src/a.ts exists (as blob a1) and new.ts doesn't
+const commitRoutes = (commit: MockRoute = [201, { commit: { sha: 'c2', html_url: 'https://codeberg.org/acme/widgets/commit/c2' } }]) => (): Record<string, MockRoute> => ({
+  'GET /repos/acme/widgets/branches/main': [200, { name: 'main', commit: { id: 'c1' } }],
+  'GET /repos/acme/widgets/contents/src/a.ts?ref=c1': [200, { sha: 'a1' }],
+  'POST /repos/acme/widgets/contents': commit,
+  'POST /repos/acme/widgets/branches': [201, { name: 'feature' }],
+  'DELETE /repos/acme/widgets/branches/feature': [204],
+});
+
+const CHANGES = [{ path: 'src/a.ts', content: 'hello\n' }, { path: 'new.ts', content: 'hi' }];
+
+test('commitToBranch names the blob each update replaces', async () => {
+  await withHost(commitRoutes(), async (provider, requests) => {
+    const result = await provider.commitToBranch('acme', 'widgets', CHANGES, 'Update', 'main');
+
+    assert.equal(result.sha, 'c2');
+    assert.equal(result.url, 'https://codeberg.org/acme/widgets/commit/c2');
+    assert.equal(result.files['src/a.ts'].sha, 'ce013625030ba8dba906f756967f9e9ca394464a');
+    assert.deepEqual(requests.find(r => r.method === 'POST')?.body, {
+      branch: 'main',
+      message: 'Update',
+      files: [
+        { operation: 'update', path: 'src/a.ts', content: b64('hello\n'), sha: 'a1' },
+        { operation: 'create', path: 'new.ts', content: b64('hi') },
+      ],
+    });
+  });
+});
+
+test('commitToBranch refuses a branch that moved since the changes were checked', async () => {
+  await withHost(commitRoutes(), async (provider, requests) => {
+    await assert.rejects(
+      provider.commitToBranch('acme', 'widgets', CHANGES, 'Update', 'main', undefined, 'c0'),
+      { message: 'main has new commits since your changes were checked. main was not changed.' },
+    );
+    assert.equal(requests.length, 1);
+  });
+});
+
+test('commitToNewBranch creates the branch at the base, and removes it again when the commit fails', async () => {
+  await withHost(commitRoutes(), async (provider, requests) => {
+    const result = await provider.commitToNewBranch('acme', 'widgets', CHANGES, 'Update', 'feature', 'c1');
+    assert.equal(result.sha, 'c2');
+    assert.deepEqual(requests[0].body, { new_branch_name: 'feature', old_ref_name: 'c1' });
+    assert.equal(requests.find(r => r.path === '/repos/acme/widgets/contents')?.body.branch, 'feature');
+  });
+
+  await withHost(commitRoutes([409, { message: 'sha does not match' }]), async (provider, requests) => {
+    await assert.rejects(provider.commitToNewBranch('acme', 'widgets', CHANGES, 'Update', 'feature', 'c1'), { message: 'Codeberg API Error: sha does not match' });
+    const last = requests[requests.length - 1];
+    assert.equal(`${last.method} ${last.path}`, 'DELETE /repos/acme/widgets/branches/feature');
+  });
+});
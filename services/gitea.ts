@@ -0,0 +1,424 @@
+import { FileNode, RepoDetails, GitRef, RepoLocation, FileChange, PushAccess, FileData, HostConfig, RepoProvider, CommitResult, CommitInfo, RefComparison, ChangedFile, PullRequestInfo, ReviewDraft, ReviewEvent } from '../types';
+import { base64ToBytes, classifyFile } from './files';
+import { createApiClient, ApiError } from './http';
+import { numberDiffLines, countChanges } from './diff';
+import { sortNodes, buildTree, parseLineHash, encodePath, decodeBase64Utf8, utf8_to_b64, gitBlobSha } from './tree';
+
+// Gitea pages tree listings; past this many pages the tree is loaded lazily like a truncated GitHub tree
+const MAX_TREE_PAGES = 20;
+const TREE_PAGE_SIZE = 1000;
+const HISTORY_PAGE_SIZE = 30;
+// Comparisons are built client-side, which costs two blob reads per changed file
+const MAX_COMPARE_FILES = 300;
+
+// Gitea and Forgejo (e.g. Codeberg), API v1. The API mirrors GitHub's for reads;
+// commits go through the multi-file contents endpoint (Gitea 1.20+). There is no blame API.
+export const createGiteaProvider = (host: HostConfig): RepoProvider => {
+  const webUrl = host.webUrl.replace(/\/+$/, '');
+  const client = createApiClient({
+    baseUrl: host.apiUrl,
+    hostLabel: host.label,
+    accept: 'application/json',
+    authorization: (token) => ['Authorization', `token ${token}`],
+  });
+
+  // gitea.io/o/r/src/branch/<ref>/path, /src/tag/<ref>/path, /src/commit/<sha>/path, /commit/<sha>, /pulls/<number>
+  const parseLocation = (parts: string[], hash: string): RepoLocation | null => {
+    if (parts.length < 2) return null;
+
+    const location: RepoLocation = {
+      owner: parts[0],
+      repo: parts[1].replace(/\.git$/, ''),
+      kind: 'repo',
+    };
+
+    const lines = parseLineHash(hash);
+    if (parts[2] === 'src' && ['branch', 'tag', 'commit'].includes(parts[3]) && parts.length > 4) {
+      // Files and folders share /src/ links; a line anchor means it's a file
+      location.kind = lines ? 'blob' : 'tree';
+      location.refPath = parts.slice(4).join('/');
+      location.lines = lines;
+    } else if (parts[2] === 'commit' && parts.length > 3) {
+      location.kind = 'commit';
+      location.refPath = parts[3];
+    } else if (parts[2] === 'pulls' && /^\d+$/.test(parts[3] ?? '')) {
+      location.kind = 'pull';
+      location.pullNumber = Number(parts[3]);
+    }
+
+    return location;
+  };
+
+  const fetchRepoDetails = async (owner: string, repo: string): Promise<RepoDetails> => {
+    const response = await client.fetch(`/repos/${owner}/${repo}`);
+    if (response.status === 404) {
+      throw new ApiError(client.hasToken()
+        ? 'Repository not found, or your token has no access to it'
+        : `Repository not found. If it is private, add a ${host.label} token first.`, 404);
+    }
+    if (!response.ok) throw new ApiError('Failed to load repository', response.status);
+    const data = await response.json();
+    return {
+      owner: data.owner.login,
+      name: data.name,
+      description: data.description,
+      defaultBranch: data.default_branch,
+      stars: data.stars_count,
+      homepage: data.website || undefined,
+      isPrivate: !!data.private,
+    };
+  };
+
+  const fetchRefs = async (owner: string, repo: string): Promise<GitRef[]> => {
+    const [branchesRes, tagsRes] = await Promise.all([
+      client.fetch(`/repos/${owner}/${repo}/branches?limit=100`),
+      client.fetch(`/repos/${owner}/${repo}/tags?limit=100`),
+    ]);
+    if (!branchesRes.ok) throw new Error('Failed to fetch branches');
+
+    const branches = await branchesRes.json();
+    const tags = tagsRes.ok ? await tagsRes.json() : [];
+
+    return [
+      ...branches.map((b: any): GitRef => ({ name: b.name, type: 'branch', sha: b.commit?.id })),
+      ...tags.map((t: any): GitRef => ({ name: t.name, type: 'tag', sha: t.commit?.sha })),
+    ];
+  };
+
+  const toFileNode = (item: any, parentPath = ''): FileNode => {
+    const path = parentPath ? `${parentPath}/${item.path}` : item.path;
+    return {
+      path,
+      name: path.split('/').pop() || '',
+      type: item.type,
+      sha: item.sha,
+      mode: item.mode,
+      url: item.type === 'blob' ? item.url : undefined, // Submodule entries point at another repository's commit
+      children: item.type === 'tree' ? [] : undefined,
+    };
+  };
+
+  // Collects the pages of a tree listing. `complete` is false when `maxPages` cut it short.
+  const listTreePages = async (owner: string, repo: string, treeish: string, recursive: boolean, maxPages = Infinity) => {
+    const items: any[] = [];
+    let sha = treeish;
+    for (let page = 1; page <= maxPages; page++) {
+      const data = await client.json(
+        `/repos/${owner}/${repo}/git/trees/${encodeURIComponent(treeish)}?recursive=${recursive}&per_page=${TREE_PAGE_SIZE}&page=${page}`
+      );
+      sha = data.sha;
+      items.push(...(data.tree ?? []));
+      if (!data.truncated) return { sha, items, complete: true };
+    }
+    return { sha, items, complete: false };
+  };
+
+  // Lists a single directory level. Sub-folders come back `unloaded`.
+  const listTree = async (owner: string, repo: string, treeSha: string, parentPath = ''): Promise<FileNode[]> => {
+    const { items } = await listTreePages(owner, repo, treeSha, false);
+    return sortNodes(items.map(item => {
+      const node = toFileNode(item, parentPath);
+      return node.type === 'tree' ? { ...node, children: undefined, unloaded: true } : node;
+    }));
+  };
+
+  const fetchRepoTree = async (owner: string, repo: string, ref: string): Promise<{ nodes: FileNode[]; truncated: boolean }> => {
+    const { sha, items, complete } = await listTreePages(owner, repo, ref, true, MAX_TREE_PAGES);
+    if (!complete) {
+      return { nodes: await listTree(owner, repo, sha), truncated: true };
+    }
+    return { nodes: buildTree(items.map(item => toFileNode(item))), truncated: false };
+  };
+
+  // The blob API always inlines content as base64
+  const fetchFileContent = async (node: FileNode): Promise<FileData> => {
+    const data = await client.json(node.url!);
+    return classifyFile(node.path, base64ToBytes(data.content || ''));
+  };
+
+  const fetchBlobText = async (owner: string, repo: string, sha: string): Promise<string> => {
+    const data = await client.json(`/repos/${owner}/${repo}/git/blobs/${sha}`);
+    return data.content ? decodeBase64Utf8(data.content) : '';
+  };
+
+  // A file as it exists at `ref`, or null if it doesn't exist there
+  const fetchFileAtRef = async (owner: string, repo: string, path: string, ref: string): Promise<{ sha: string; content: string } | null> => {
+    const response = await client.fetch(`/repos/${owner}/${repo}/contents/${encodePath(path)}?ref=${encodeURIComponent(ref)}`);
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Failed to read ${path} at ${ref.slice(0, 7)}`);
+    const data = await response.json();
+    const content = data.content ? decodeBase64Utf8(data.content) : await fetchBlobText(owner, repo, data.sha);
+    return { sha: data.sha, content };
+  };
+
+  // Gitea's compare API lists commits but not files, so the file list comes from diffing both trees.
+  // That makes it a two-dot comparison: base itself is the old side, not the merge base.
+  const compareRefs = async (owner: string, repo: string, base: string, head: string): Promise<RefComparison> => {
+    const [before, after, baseCommit] = await Promise.all([
+      listTreePages(owner, repo, base, true, MAX_TREE_PAGES),
+      listTreePages(owner, repo, head, true, MAX_TREE_PAGES),
+      client.json(`/repos/${owner}/${repo}/git/commits/${encodeURIComponent(base)}?stat=false&verification=false&files=false`),
+    ]);
+    if (!before.complete || !after.complete) throw new Error('This repository is too large to compare on Gitea');
+
+    const blobShas = (items: any[]) => new Map<string, string>(items.filter(i => i.type === 'blob').map(i => [i.path, i.sha]));
+    const oldShas = blobShas(before.items);
+    const newShas = blobShas(after.items);
+    const changed = Array.from(new Set([...oldShas.keys(), ...newShas.keys()]))
+      .filter(path => oldShas.get(path) !== newShas.get(path))
+      .sort();
+
+    // Line counts, a few files at a time. Binary files count as zero lines.
+    const files: ChangedFile[] = [];
+    const counted = changed.slice(0, MAX_COMPARE_FILES);
+    for (let i = 0; i < counted.length; i += 8) {
+      files.push(...await Promise.all(counted.slice(i, i + 8).map(async (path): Promise<ChangedFile> => {
+        const oldSha = oldShas.get(path);
+        const newSha = newShas.get(path);
+        const [oldText, newText] = await Promise.all([
+          oldSha ? fetchBlobText(owner, repo, oldSha) : '',
+          newSha ? fetchBlobText(owner, repo, newSha) : '',
+        ]);
+        const binary = oldText.includes('\0') || newText.includes('\0');
+        return {
+          path,
+          status: !oldSha ? 'added' : !newSha ? 'removed' : 'modified',
+          ...(binary ? { additions: 0, deletions: 0 } : countChanges(numberDiffLines(oldText, newText))),
+        };
+      })));
+    }
+
+    // Commit counts need Gitea 1.22; older servers just report none
+    const commits = await client.json(`/repos/${owner}/${repo}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`)
+      .then(data => data.total_commits ?? 0, () => 0);
+
+    return {
+      base,
+      head,
+      mergeBase: baseCommit.sha,
+      commits,
+      files,
+      truncated: changed.length > MAX_COMPARE_FILES,
+      url: `${webUrl}/${owner}/${repo}/compare/${base}...${head}`,
+    };
+  };
+
+  const fetchPullRequest = async (owner: string, repo: string, number: number): Promise<PullRequestInfo> => {
+    const data = await client.json(`/repos/${owner}/${repo}/pulls/${number}`);
+    return {
+      number: data.number,
+      title: data.title,
+      body: data.body ?? '',
+      author: data.user?.login ?? 'unknown',
+      state: data.merged ? 'merged' : data.state === 'closed' ? 'closed' : 'open',
+      url: data.html_url,
+      base: data.base.ref,
+      head: data.head.ref,
+      headSha: data.head.sha,
+      mergeBase: data.merge_base || undefined,
+      isFork: data.head.repo?.full_name !== data.base.repo?.full_name,
+    };
+  };
+
+  const REVIEW_STATES: Record<ReviewEvent, string> = { COMMENT: 'COMMENT', APPROVE: 'APPROVED', REQUEST_CHANGES: 'REQUEST_CHANGES' };
+
+  // Gitea positions are plain line numbers on one side of the diff, 0 meaning "not this side"
+  const submitReview = async (owner: string, repo: string, pr: PullRequestInfo, review: ReviewDraft): Promise<{ url: string }> => {
+    const data = await client.json(`/repos/${owner}/${repo}/pulls/${pr.number}/reviews`, {
+        method: 'POST',
+        body: JSON.stringify({
+            commit_id: pr.headSha,
+            body: review.body,
+            event: REVIEW_STATES[review.event],
+            comments: review.comments.map(c => ({
+              path: c.path,
+              body: c.body,
+              new_position: c.newLine ?? 0,
+              old_position: c.newLine === undefined ? c.oldLine ?? 0 : 0,
+            })),
+        })
+    });
+    return { url: data.html_url || pr.url };
+  };
+
+  const fetchBranchHead = async (owner: string, repo: string, branch: string): Promise<string> => {
+    const data = await client.json(`/repos/${owner}/${repo}/branches/${encodeURIComponent(branch)}`);
+    return data.commit.id;
+  };
+
+  const fetchFileHistory = async (owner: string, repo: string, ref: string, path: string, page: number) => {
+    // Skip per-commit diff stats and signature checks, which make this endpoint slow
+    const response = await client.fetch(
+      `/repos/${owner}/${repo}/commits?sha=${encodeURIComponent(ref)}&path=${encodeURIComponent(path)}&limit=${HISTORY_PAGE_SIZE}&page=${page}&stat=false&verification=false&files=false`
+    );
+    if (!response.ok) throw new ApiError(`Failed to load the history of ${path}`, response.status);
+    const data = await response.json();
+    return {
+      commits: data.map((c: any): CommitInfo => ({
+        sha: c.sha,
+        message: c.commit.message,
+        author: c.author?.login || c.commit.author?.name || 'unknown',
+        date: c.commit.author?.date ?? c.created,
+        url: c.html_url,
+        avatarUrl: c.author?.avatar_url,
+      })),
+      hasMore: response.headers.get('x-hasmore') === 'true',
+    };
+  };
+
+  // Updates and deletes must name the blob they replace. Gitea rejects the whole
+  // commit if any file has changed since, which guards each file against concurrent edits.
+  const createCommit = async (
+    owner: string,
+    repo: string,
+    changes: FileChange[],
+    message: string,
+    branch: string,
+    parentSha: string,
+    onProgress?: (status: string) => void
+  ): Promise<CommitResult> => {
+    const repoApi = `/repos/${owner}/${repo}`;
+    onProgress?.('Preparing changes...');
+    const files = await Promise.all(changes.map(async change => {
+        const response = await client.fetch(`${repoApi}/contents/${encodePath(change.path)}?ref=${parentSha}`);
+        const existingSha: string | undefined = response.ok ? (await response.json()).sha : undefined;
+        if (change.content === null) return { operation: 'delete', path: change.path, sha: existingSha };
+        return {
+            operation: existingSha ? 'update' : 'create',
+            path: change.path,
+            content: utf8_to_b64(change.content),
+            sha: existingSha,
+        };
+    }));
+
+    onProgress?.('Creating commit...');
+    const data = await client.json(`${repoApi}/contents`, {
+        method: 'POST',
+        body: JSON.stringify({ branch, message, files })
+    });
+
+    // Blob ids are content hashes, so compute them instead of reading them back
+    const blobs: CommitResult['files'] = {};
+    for (const change of changes) {
+        if (change.content === null) continue;
+        const sha = await gitBlobSha(change.content);
+        blobs[change.path] = { sha, url: `${repoApi}/git/blobs/${sha}` };
+    }
+    return { sha: data.commit.sha, url: data.commit.html_url, files: blobs };
+  };
+
+  const commitToBranch = async (
+    owner: string,
+    repo: string,
+    changes: FileChange[],
+    message: string,
+    branch: string,
+    onProgress?: (status: string) => void,
+    headSha?: string
+  ): Promise<CommitResult> => {
+    onProgress?.(`Reading ${branch}...`);
+    const currentHead = await fetchBranchHead(owner, repo, branch);
+    if (headSha && currentHead !== headSha) {
+        throw new Error(`${branch} has new commits since your changes were checked. ${branch} was not changed.`);
+    }
+
+    try {
+        return await createCommit(owner, repo, changes, message, branch, currentHead, onProgress);
+    } catch (e) {
+        throw new Error(`${e instanceof Error ? e.message : 'Failed to commit'}. ${branch} was not changed.`);
+    }
+  };
+
+  // The contents API can only branch off a branch name, so the branch is created at `baseSha`
+  // first and removed again if the commit fails, leaving nothing half-done behind.
+  const commitToNewBranch = async (
+    owner: string,
+    repo: string,
+    changes: FileChange[],
+    message: string,
+    branch: string,
+    baseSha: string,
+    onProgress?: (status: string) => void
+  ): Promise<CommitResult> => {
+    const repoApi = `/repos/${owner}/${repo}`;
+    onProgress?.(`Creating branch ${branch}...`);
+    await client.json(`${repoApi}/branches`, {
+        method: 'POST',
+        body: JSON.stringify({ new_branch_name: branch, old_ref_name: baseSha })
+    });
+
+    try {
+        return await createCommit(owner, repo, changes, message, branch, baseSha, onProgress);
+    } catch (e) {
+        await client.fetch(`${repoApi}/branches/${encodeURIComponent(branch)}`, { method: 'DELETE' }).catch(() => undefined);
+        throw e;
+    }
+  };
+
+  // Works out where the authenticated user can push: the repo itself, or their fork of it.
+  const fetchPushAccess = async (owner: string, repo: string): Promise<PushAccess> => {
+    const [user, repoData] = await Promise.all([
+        client.json('/user'),
+        client.json(`/repos/${owner}/${repo}`),
+    ]);
+
+    const access: PushAccess = { login: user.login, canPush: !!repoData.permissions?.push };
+    if (access.canPush) return access;
+
+    // Look for an existing fork under the user's account
+    try {
+        const candidate = await client.json(`/repos/${user.login}/${repo}`);
+        if (candidate.fork && candidate.parent?.full_name?.toLowerCase() === `${owner}/${repo}`.toLowerCase()) {
+            access.fork = { owner: candidate.owner.login, name: candidate.name };
+        }
+    } catch (e) {
+        // No fork yet
+    }
+    return access;
+  };
+
+  // Gitea forks synchronously, the new repo is usable once this returns
+  const forkRepo = async (owner: string, repo: string): Promise<{ owner: string; name: string }> => {
+    const fork = await client.json(`/repos/${owner}/${repo}/forks`, { method: 'POST', body: JSON.stringify({}) });
+    return { owner: fork.owner.login, name: fork.name };
+  };
+
+  return {
+    host,
+    setToken: client.setToken,
+    subscribeToRateLimit: client.subscribeToRateLimit,
+    parseLocation,
+    fetchRepoDetails,
+    fetchRefs,
+    fetchRepoTree,
+    fetchDirectory: (owner, repo, _ref, dir) => listTree(owner, repo, dir.sha!, dir.path),
+    fetchFileContent,
+    fetchFileAtRef,
+    fetchBlobText,
+    fetchBranchHead,
+    fetchFileHistory,
+    compareRefs,
+    commitToBranch,
+    commitToNewBranch,
+    fetchPushAccess,
+    forkRepo,
+    createPullRequest: async (owner, repo, pr) => {
+      const data = await client.json(`/repos/${owner}/${repo}/pulls`, {
+          method: 'POST',
+          body: JSON.stringify({
+              title: pr.title,
+              body: pr.body,
+              head: pr.fork ? `${pr.fork.owner}:${pr.branch}` : pr.branch,
+              base: pr.base,
+          })
+      });
+      return { number: data.number, url: data.html_url };
+    },
+    fetchPullRequest,
+    submitReview,
+    // Ref-less /raw/ and /media/ links resolve branches, tags and commits alike
+    rawFileUrl: (owner, repo, ref, path) => `${webUrl}/${owner}/${repo}/raw/${ref}/${path}`,
+    lfsFileUrl: (owner, repo, ref, path) => `${webUrl}/${owner}/${repo}/media/${ref}/${path}`,
+    sandboxPath: () => null,
+  };
+};
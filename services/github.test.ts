@@ -0,0 +1,157 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HostConfig, RepoProvider } from '../types';
+import { createGitHubProvider } from './github';
+import { ApiError } from './http';
+import { MockRequest, MockRoute, startMockHost } from './mock';
+
+const b64 = (text: string) => Buffer.from(text).toString('base64');
+
+// Runs `body` against a provider whose API is a mock host serving `routes`
+const withHost = async (
+  routes: (url: string) => Record<string, MockRoute>,
+  body: (provider: RepoProvider, requests: MockRequest[], url: string) => Promise<void>
+) => {
+  const server = await startMockHost(routes);
+  const host: HostConfig = { id: 'github.com', kind: 'github', label: 'GitHub', webUrl: 'https://github.com', apiUrl: server.url };
+  try {
+    await body(createGitHubProvider(host), server.requests, server.url);
+  } finally {
+    await server.close();
+  }
+};
+
+test('parseLocation reads repository, file, commit and pull request links', () => {
+  const { parseLocation } = createGitHubProvider({ id: 'github.com', kind: 'github', label: 'GitHub', webUrl: 'https://github.com', apiUrl: '' });
+  assert.deepEqual(parseLocation(['acme', 'widgets.git'], ''), { owner: 'acme', repo: 'widgets', kind: 'repo' });
+  assert.deepEqual(parseLocation(['acme', 'widgets', 'blob', 'main', 'src', 'a.ts'], '#L3-L5'), {
+    owner: 'acme', repo: 'widgets', kind: 'blob', refPath: 'main/src/a.ts', lines: { start: 3, end: 5 },
+  });
+  assert.deepEqual(parseLocation(['acme', 'widgets', 'tree', 'feature', 'x', 'src'], ''), { owner: 'acme', repo: 'widgets', kind: 'tree', refPath: 'feature/x/src' });
+  assert.deepEqual(parseLocation(['acme', 'widgets', 'commit', 'abc123'], ''), { owner: 'acme', repo: 'widgets', kind: 'commit', refPath: 'abc123' });
+  assert.deepEqual(parseLocation(['acme', 'widgets', 'pull', '12'], ''), { owner: 'acme', repo: 'widgets', kind: 'pull', pullNumber: 12 });
+  assert.equal(parseLocation(['acme'], ''), null);
+});
+
+test('fetchRepoDetails maps the repository, and a 404 asks for a token', async () => {
+  await withHost(() => ({
+    'GET /repos/acme/widgets': [200, {
+      owner: { login: 'acme' }, name: 'widgets', description: 'Widgets', default_branch: 'main', stargazers_count: 7, homepage: null, private: true,
+    }],
+  }), async provider => {
+    assert.deepEqual(await provider.fetchRepoDetails('acme', 'widgets'), {
+      owner: 'acme', name: 'widgets', description: 'Widgets', defaultBranch: 'main', stars: 7, homepage: null, isPrivate: true,
+    });
+    await assert.rejects(provider.fetchRepoDetails('acme', 'secret'), (e: unknown) => (
+      e instanceof ApiError && e.status === 404 && /add a GitHub token/.test(e.message)
+    ));
+  });
+});
+
+test('fetchRepoTree nests a recursive listing, and loads only the root level when it is truncated', async () => {
+  await withHost(url => ({
+    'GET /repos/acme/widgets/git/trees/main?recursive=1': [200, {
+      sha: 'root', truncated: false, tree: [
+        { path: 'src', type: 'tree', sha: 't1', mode: '040000' },
+        { path: 'src/a.ts', type: 'blob', sha: 'b1', mode: '100644', url: `${url}/repos/acme/widgets/git/blobs/b1` },
+        { path: 'README.md', type: 'blob', sha: 'b2', mode: '100644', url: `${url}/repos/acme/widgets/git/blobs/b2` },
+      ],
+    }],
+    'GET /repos/acme/widgets/git/trees/big?recursive=1': [200, { sha: 'bigroot', truncated: true, tree: [] }],
+    'GET /repos/acme/widgets/git/trees/bigroot': [200, {
+      sha: 'bigroot', tree: [
+        { path: 'lib', type: 'tree', sha: 't2', mode: '040000' },
+        { path: 'index.ts', type: 'blob', sha: 'b3', mode: '100644', url: `${url}/repos/acme/widgets/git/blobs/b3` },
+      ],
+    }],
+  }), async (provider, requests, url) => {
+    const { nodes, truncated } = await provider.fetchRepoTree('acme', 'widgets', 'main');
+    assert.equal(truncated, false);
+    assert.deepEqual(nodes.map(n => n.path), ['src', 'README.md']);
+    assert.deepEqual(nodes[0].children?.map(n => [n.path, n.name, n.url]), [['src/a.ts', 'a.ts', `${url}/repos/acme/widgets/git/blobs/b1`]]);
+
+    const big = await provider.fetchRepoTree('acme', 'widgets', 'big');
+    assert.equal(big.truncated, true);
+    assert.deepEqual(big.nodes.map(n => [n.path, n.type, !!n.unloaded]), [['lib', 'tree', true], ['index.ts', 'blob', false]]);
+    assert.equal(requests.length, 3);
+  });
+});
+
+test('fetchFileContent decodes inlined content and asks for the raw bytes when the API won\'t inline them', async () => {
+  await withHost(() => ({
+    'GET /repos/acme/widgets/git/blobs/small': [200, { encoding: 'base64', content: b64('export const a = 1;\n'), size: 20 }],
+    'GET /repos/acme/widgets/git/blobs/large': request => (request.headers.accept === 'application/vnd.github.raw'
+      ? [200, 'large file\n']
+      : [403, { message: 'This API returns blobs up to 1 MB in size.' }]),
+    'GET /repos/acme/widgets/git/blobs/gone': [404, { message: 'Not Found' }],
+  }), async (provider, requests, url) => {
+    const blob = (sha: string) => ({ path: `${sha}.ts`, name: `${sha}.ts`, type: 'blob' as const, url: `${url}/repos/acme/widgets/git/blobs/${sha}` });
+    assert.deepEqual(await provider.fetchFileContent(blob('small')), { kind: 'text', content: 'export const a = 1;\n', size: 20 });
+    assert.equal((await provider.fetchFileContent(blob('large'))).content, 'large file\n');
+    await assert.rejects(provider.fetchFileContent(blob('gone')), (e: unknown) => e instanceof ApiError && e.status === 404);
+    assert.deepEqual(requests.map(r => r.path.split('/').pop()), ['small', 'large', 'large', 'gone']);
+  });
+});
+
+// A repository with `main` at commit c1, which accepts blobs, trees and commits
+const commitRoutes = (refUpdate: MockRoute = [200, { object: { sha: 'c2' } }]) => (): Record<string, MockRoute> => ({
+  'GET /repos/acme/widgets/git/ref/heads/main': [200, { object: { sha: 'c1' } }],
+  'GET /repos/acme/widgets/git/commits/c1': [200, { sha: 'c1', tree: { sha: 'tree1' } }],
+  'POST /repos/acme/widgets/git/blobs': [201, { sha: 'blob1' }],
+  'POST /repos/acme/widgets/git/trees': [201, { sha: 'tree2' }],
+  'POST /repos/acme/widgets/git/commits': [201, { sha: 'c2', html_url: 'https://github.com/acme/widgets/commit/c2' }],
+  'PATCH /repos/acme/widgets/git/refs/heads/main': refUpdate,
+  'POST /repos/acme/widgets/git/refs': [201, { ref: 'refs/heads/feature' }],
+});
+
+const CHANGES = [{ path: 'src/a.ts', content: 'export const a = 2;\n' }, { path: 'old.ts', content: null }];
+
+test('commitToBranch builds blobs, a tree and a commit, then moves the branch without forcing it', async () => {
+  await withHost(commitRoutes(), async (provider, requests) => {
+    const progress: string[] = [];
+    const result = await provider.commitToBranch('acme', 'widgets', CHANGES, 'Update a', 'main', status => progress.push(status));
+
+    assert.deepEqual(result, {
+      sha: 'c2',
+      url: 'https://github.com/acme/widgets/commit/c2',
+      files: { 'src/a.ts': { sha: 'blob1', url: '/repos/acme/widgets/git/blobs/blob1' } },
+    });
+    assert.deepEqual(requests.map(r => `${r.method} ${r.path}`), [
+      'GET /repos/acme/widgets/git/ref/heads/main',
+      'GET /repos/acme/widgets/git/commits/c1',
+      'POST /repos/acme/widgets/git/blobs',
+      'POST /repos/acme/widgets/git/trees',
+      'POST /repos/acme/widgets/git/commits',
+      'PATCH /repos/acme/widgets/git/refs/heads/main',
+    ]);
+    assert.equal(Buffer.from(requests[2].body.content, 'base64').toString(), 'export const a = 2;\n');
+    assert.deepEqual(requests[3].body, {
+      base_tree: 'tree1',
+      tree: [
+        { path: 'src/a.ts', mode: '100644', type: 'blob', sha: 'blob1' },
+        { path: 'old.ts', mode: '100644', type: 'blob', sha: null },
+      ],
+    });
+    assert.deepEqual(requests[4].body, { message: 'Update a', tree: 'tree2', parents: ['c1'] });
+    assert.deepEqual(requests[5].body, { sha: 'c2', force: false });
+    assert.deepEqual(progress, ['Reading main...', 'Uploading src/a.ts (1/1)...', 'Creating commit...', 'Updating main...']);
+  });
+});
+
+test('commitToBranch reports a rejected ref update as leaving the branch unchanged', async () => {
+  await withHost(commitRoutes([422, { message: 'Update is not a fast forward' }]), async provider => {
+    await assert.rejects(
+      provider.commitToBranch('acme', 'widgets', CHANGES, 'Update a', 'main', undefined, 'c1'),
+      { message: 'GitHub API Error: Update is not a fast forward. main was not changed.' },
+    );
+  });
+});
+
+test('commitToNewBranch commits on the base and only then creates the branch', async () => {
+  await withHost(commitRoutes(), async (provider, requests) => {
+    const result = await provider.commitToNewBranch('acme', 'widgets', CHANGES, 'Update a', 'feature', 'c1');
+    assert.equal(result.sha, 'c2');
+    assert.deepEqual(requests.map(r => `${r.method} ${r.path}`).slice(-2), ['POST /repos/acme/widgets/git/commits', 'POST /repos/acme/widgets/git/refs']);
+    assert.deepEqual(requests[requests.length - 1].body, { ref: 'refs/heads/feature', sha: 'c2' });
+  });
+});
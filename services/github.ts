@@ -1,171 +1,466 @@
-import { FileNode, RepoDetails } from '../types';
+import { FileNode, RepoDetails, GitRef, RepoLocation, FileChange, PushAccess, FileData, HostConfig, RepoProvider, CommitResult, CommitInfo, BlameRange, RefComparison, ChangedFile, PullRequestInfo, ReviewDraft } from '../types';
+import { base64ToBytes, classifyFile } from './files';
+import { createApiClient, ApiError, sleep } from './http';
+import { sortNodes, buildTree, parseLineHash, encodePath, decodeBase64Utf8, utf8_to_b64 } from './tree';
 
-const GITHUB_API_BASE = 'https://api.github.com';
+const GITHUB_WEB_URL = 'https://github.com';
+const HISTORY_PAGE_SIZE = 30;
 
-export const parseRepoUrl = (url: string): { owner: string; repo: string } | null => {
-  try {
-    const urlObj = new URL(url);
-    if (urlObj.hostname !== 'github.com') return null;
-    const parts = urlObj.pathname.split('/').filter(Boolean);
-    if (parts.length < 2) return null;
-    return { owner: parts[0], repo: parts[1] };
-  } catch (e) {
-    return null;
+// Blame isn't in the REST API
+const BLAME_QUERY = `query($owner: String!, $name: String!, $ref: String!, $path: String!) {
+  repository(owner: $owner, name: $name) {
+    object(expression: $ref) {
+      ... on Commit {
+        blame(path: $path) {
+          ranges {
+            startingLine
+            endingLine
+            commit { oid message committedDate url author { name date user { login avatarUrl } } }
+          }
+        }
+      }
+    }
   }
-};
+}`;
 
-export const fetchRepoDetails = async (owner: string, repo: string): Promise<RepoDetails> => {
-  const response = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}`);
-  if (!response.ok) throw new Error('Repository not found');
-  const data = await response.json();
-  return {
-    owner: data.owner.login,
-    name: data.name,
-    description: data.description,
-    defaultBranch: data.default_branch,
-    stars: data.stargazers_count,
-    homepage: data.homepage,
+// GitHub.com and GitHub Enterprise Server. Reads use the Git Data API (trees/blobs),
+// commits are built from blobs -> tree -> commit and published with a single ref update.
+export const createGitHubProvider = (host: HostConfig): RepoProvider => {
+  const webUrl = host.webUrl.replace(/\/+$/, '');
+  const isGitHubCom = webUrl === GITHUB_WEB_URL;
+  const client = createApiClient({
+    baseUrl: host.apiUrl,
+    hostLabel: host.label,
+    accept: 'application/vnd.github.v3+json',
+    authorization: (token) => ['Authorization', `Bearer ${token}`],
+    noTokenHint: isGitHubCom ? 'Add a GitHub token to raise the limit from 60 to 5,000 requests per hour.' : undefined,
+  });
+  const githubFetch = client.fetch;
+  const githubJson = client.json;
+
+  // github.com/o/r/tree/<ref>/dir, /blob/<ref>/file, /commit/<sha>, /pull/<number>
+  const parseLocation = (parts: string[], hash: string): RepoLocation | null => {
+    if (parts.length < 2) return null;
+
+    const location: RepoLocation = {
+      owner: parts[0],
+      repo: parts[1].replace(/\.git$/, ''),
+      kind: 'repo',
+    };
+
+    const section = parts[2];
+    if ((section === 'tree' || section === 'blob' || section === 'commit') && parts.length > 3) {
+      location.kind = section;
+      location.refPath = parts.slice(3).join('/');
+    } else if (section === 'pull' && /^\d+$/.test(parts[3] ?? '')) {
+      location.kind = 'pull';
+      location.pullNumber = Number(parts[3]);
+    }
+
+    // #L10 or #L10-L40 on blob links
+    if (location.kind === 'blob') location.lines = parseLineHash(hash);
+
+    return location;
+  };
+
+  const fetchRepoDetails = async (owner: string, repo: string): Promise<RepoDetails> => {
+    const response = await githubFetch(`/repos/${owner}/${repo}`);
+    if (response.status === 404) {
+      throw new ApiError(client.hasToken()
+        ? 'Repository not found, or your token has no access to it'
+        : `Repository not found. If it is private, add a ${host.label} token first.`, 404);
+    }
+    if (!response.ok) throw new ApiError('Failed to load repository', response.status);
+    const data = await response.json();
+    return {
+      owner: data.owner.login,
+      name: data.name,
+      description: data.description,
+      defaultBranch: data.default_branch,
+      stars: data.stargazers_count,
+      homepage: data.homepage,
+      isPrivate: !!data.private,
+    };
   };
-};
 
-export const fetchRepoTree = async (owner: string, repo: string, branch: string): Promise<FileNode[]> => {
-  const response = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/${branch}?recursive=1`);
-  if (!response.ok) throw new Error('Failed to fetch file tree');
-  const data = await response.json();
-  
-  // Transform flat list to nested tree
-  const tree: FileNode[] = [];
-  const map: Record<string, FileNode> = {};
-
-  // First pass: create nodes
-  data.tree.forEach((item: any) => {
-    map[item.path] = {
-      path: item.path,
-      name: item.path.split('/').pop() || '',
+  const fetchRefs = async (owner: string, repo: string): Promise<GitRef[]> => {
+    const [branchesRes, tagsRes] = await Promise.all([
+      githubFetch(`/repos/${owner}/${repo}/branches?per_page=100`),
+      githubFetch(`/repos/${owner}/${repo}/tags?per_page=100`),
+    ]);
+    if (!branchesRes.ok) throw new Error('Failed to fetch branches');
+
+    const branches = await branchesRes.json();
+    const tags = tagsRes.ok ? await tagsRes.json() : [];
+
+    return [
+      ...branches.map((b: any): GitRef => ({ name: b.name, type: 'branch', sha: b.commit?.sha })),
+      ...tags.map((t: any): GitRef => ({ name: t.name, type: 'tag', sha: t.commit?.sha })),
+    ];
+  };
+
+  const toFileNode = (item: any, parentPath = ''): FileNode => {
+    const path = parentPath ? `${parentPath}/${item.path}` : item.path;
+    return {
+      path,
+      name: path.split('/').pop() || '',
       type: item.type,
       sha: item.sha,
-      url: item.url,
+      mode: item.mode,
+      url: item.type === 'blob' ? item.url : undefined, // Submodule entries point at another repository's commit
       children: item.type === 'tree' ? [] : undefined,
     };
-  });
+  };
+
+  // Lists a single directory level. Sub-folders come back `unloaded`.
+  const listTree = async (owner: string, repo: string, treeSha: string, parentPath = ''): Promise<FileNode[]> => {
+    const data = await githubJson(`/repos/${owner}/${repo}/git/trees/${encodeURIComponent(treeSha)}`);
+    return sortNodes(data.tree.map((item: any) => {
+      const node = toFileNode(item, parentPath);
+      return node.type === 'tree' ? { ...node, children: undefined, unloaded: true } : node;
+    }));
+  };
+
+  // Loads the whole tree in one request. GitHub caps recursive listings (~100k entries / 7 MB)
+  // and sets `truncated`; we then fall back to the root level and load folders lazily.
+  const fetchRepoTree = async (owner: string, repo: string, ref: string): Promise<{ nodes: FileNode[]; truncated: boolean }> => {
+    const data = await githubJson(`/repos/${owner}/${repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`);
+    if (data.truncated) {
+      return { nodes: await listTree(owner, repo, data.sha), truncated: true };
+    }
+    return { nodes: buildTree(data.tree.map((item: any) => toFileNode(item))), truncated: false };
+  };
 
-  // Second pass: build hierarchy
-  data.tree.forEach((item: any) => {
-    const node = map[item.path];
-    const parts = item.path.split('/');
-    if (parts.length === 1) {
-      tree.push(node);
-    } else {
-      const parentPath = parts.slice(0, -1).join('/');
-      if (map[parentPath] && map[parentPath].children) {
-        map[parentPath].children!.push(node);
+  // Downloads a blob and classifies it (text / image / binary / LFS pointer).
+  // The JSON blob API inlines content as base64; when it can't (very large files) we ask for the raw bytes.
+  const fetchFileContent = async (node: FileNode): Promise<FileData> => {
+    const url = node.url!;
+    const response = await githubFetch(url);
+    if (response.ok) {
+      const data = await response.json();
+      if (data.encoding === 'base64' && (data.content || data.size === 0)) {
+        return classifyFile(node.path, base64ToBytes(data.content || ''));
       }
+    } else if (response.status !== 403 && response.status !== 422) {
+      // 403/422 are what the API answers for files it won't inline; anything else is a real failure
+      throw new ApiError('Failed to fetch file content', response.status);
     }
+
+    const raw = await githubFetch(url, { headers: { Accept: 'application/vnd.github.raw' } });
+    if (!raw.ok) throw new ApiError('Failed to fetch file content', raw.status);
+    return classifyFile(node.path, new Uint8Array(await raw.arrayBuffer()));
+  };
+
+  const toCommitResult = (repoApi: string, commit: { sha: string; html_url: string; blobs: Record<string, string> }): CommitResult => ({
+    sha: commit.sha,
+    url: commit.html_url,
+    files: Object.fromEntries(Object.entries(commit.blobs).map(([path, sha]) => [path, { sha, url: `${repoApi}/git/blobs/${sha}` }])),
   });
 
-  // Sort: Folders first, then files
-  const sortNodes = (nodes: FileNode[]) => {
-    nodes.sort((a, b) => {
-      if (a.type === b.type) return a.name.localeCompare(b.name);
-      return a.type === 'tree' ? -1 : 1;
+  // Builds a commit of all changes on top of `parentSha` using the Git Data API:
+  // blobs -> tree -> commit. The result is unreachable until a ref points at it.
+  const createCommit = async (
+    repoApi: string,
+    changes: FileChange[],
+    message: string,
+    parentSha: string,
+    onProgress?: (status: string) => void
+  ): Promise<{ sha: string; html_url: string; blobs: Record<string, string> }> => {
+    const parentCommit = await githubJson(`${repoApi}/git/commits/${parentSha}`);
+
+    // 1. Upload a blob for every added/updated file
+    const treeEntries: any[] = [];
+    const blobs: Record<string, string> = {};
+    let uploaded = 0;
+    const uploads = changes.filter(c => c.content !== null);
+    for (const change of changes) {
+        if (change.content === null) {
+            treeEntries.push({ path: change.path, mode: change.mode || '100644', type: 'blob', sha: null });
+            continue;
+        }
+        onProgress?.(`Uploading ${change.path} (${++uploaded}/${uploads.length})...`);
+        const blob = await githubJson(`${repoApi}/git/blobs`, {
+            method: 'POST',
+            body: JSON.stringify({ content: utf8_to_b64(change.content), encoding: 'base64' })
+        });
+        treeEntries.push({ path: change.path, mode: change.mode || '100644', type: 'blob', sha: blob.sha });
+        blobs[change.path] = blob.sha;
+    }
+
+    // 2. Build the new tree on top of the parent's and commit it
+    onProgress?.('Creating commit...');
+    const tree = await githubJson(`${repoApi}/git/trees`, {
+        method: 'POST',
+        body: JSON.stringify({ base_tree: parentCommit.tree.sha, tree: treeEntries })
     });
-    nodes.forEach(node => {
-      if (node.children) sortNodes(node.children);
+    const commit = await githubJson(`${repoApi}/git/commits`, {
+        method: 'POST',
+        body: JSON.stringify({ message, tree: tree.sha, parents: [parentSha] })
     });
+    return { ...commit, blobs };
   };
-  
-  sortNodes(tree);
-  return tree;
-};
 
-export const fetchFileContent = async (url: string): Promise<string> => {
-  const response = await fetch(url);
-  if (!response.ok) throw new Error('Failed to fetch file content');
-  const data = await response.json();
-  
-  try {
-    // If the API explicitly says base64, use our robust decoder
-    if (data.encoding === 'base64' && data.content) {
-        const cleanContent = data.content.replace(/\s/g, '');
-        // Use a more robust UTF-8 decode strategy
-        const binaryString = atob(cleanContent);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
-        }
-        return new TextDecoder('utf-8').decode(bytes);
-    } 
-    
-    // Fallback if not base64 or if structure is different
-    if (data.content) {
-        return atob(data.content.replace(/\s/g, ''));
+  const fetchBranchHead = async (owner: string, repo: string, branch: string): Promise<string> => {
+    const ref = await githubJson(`/repos/${owner}/${repo}/git/ref/heads/${encodeURIComponent(branch)}`);
+    return ref.object.sha;
+  };
+
+  // Commits all changes to an existing branch as a single commit. Nothing is
+  // visible until the final ref update, so any failure before it leaves the branch untouched.
+  // Pass `headSha` to build on the exact commit that conflicts were checked against.
+  const commitToBranch = async (
+    owner: string,
+    repo: string,
+    changes: FileChange[],
+    message: string,
+    branch: string,
+    onProgress?: (status: string) => void,
+    headSha?: string
+  ): Promise<CommitResult> => {
+    const repoApi = `/repos/${owner}/${repo}`;
+
+    if (!headSha) {
+        onProgress?.(`Reading ${branch}...`);
+        headSha = await fetchBranchHead(owner, repo, branch);
     }
-    
-    return '';
-  } catch (e) {
-    console.error("Decoding error", e);
-    // Attempt raw text fallback for some edge cases
+    const commit = await createCommit(repoApi, changes, message, headSha, onProgress);
+
+    // Move the branch. Not forced, so a concurrent push makes this fail instead of being overwritten.
+    onProgress?.(`Updating ${branch}...`);
     try {
-        if (data.content) return atob(data.content);
-    } catch (e2) {}
-    
-    return "Error: Could not decode file content. It might be binary or too large to preview.";
-  }
-};
+        await githubJson(`${repoApi}/git/refs/heads/${encodeURIComponent(branch)}`, {
+            method: 'PATCH',
+            body: JSON.stringify({ sha: commit.sha, force: false })
+        });
+    } catch (e) {
+        throw new Error(`${e instanceof Error ? e.message : 'Failed to update branch'}. ${branch} was not changed.`);
+    }
 
-// Helper to encode string to Base64 (UTF-8 safe)
-const utf8_to_b64 = (str: string) => {
-  return btoa(unescape(encodeURIComponent(str)));
-};
+    return toCommitResult(repoApi, commit);
+  };
 
-export const commitFileToGitHub = async (
-  owner: string, 
-  repo: string, 
-  path: string, 
-  content: string, 
-  token: string, 
-  message: string,
-  branch: string
-) => {
-  // 1. Check if file exists to get SHA (needed for update)
-  let sha: string | undefined;
-  try {
-      const getResponse = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/contents/${path}?ref=${branch}`, {
-          headers: {
-              'Authorization': `Bearer ${token}`,
-              'Accept': 'application/vnd.github.v3+json'
-          }
-      });
-      if (getResponse.ok) {
-          const data = await getResponse.json();
-          sha = data.sha;
-      }
-  } catch (e) {
-      // File likely doesn't exist, ignore
-  }
+  // Commits all changes on top of `baseSha` and only then creates `branch` pointing at the commit,
+  // so a failed push never leaves a half-populated branch behind.
+  const commitToNewBranch = async (
+    owner: string,
+    repo: string,
+    changes: FileChange[],
+    message: string,
+    branch: string,
+    baseSha: string,
+    onProgress?: (status: string) => void
+  ): Promise<CommitResult> => {
+    const repoApi = `/repos/${owner}/${repo}`;
+    const commit = await createCommit(repoApi, changes, message, baseSha, onProgress);
+
+    onProgress?.(`Creating branch ${branch}...`);
+    await githubJson(`${repoApi}/git/refs`, {
+        method: 'POST',
+        body: JSON.stringify({ ref: `refs/heads/${branch}`, sha: commit.sha })
+    });
+
+    return toCommitResult(repoApi, commit);
+  };
+
+  // A file as it exists at `ref`, or null if it doesn't exist there
+  const fetchFileAtRef = async (
+    owner: string,
+    repo: string,
+    path: string,
+    ref: string
+  ): Promise<{ sha: string; content: string } | null> => {
+    const response = await githubFetch(`/repos/${owner}/${repo}/contents/${encodePath(path)}?ref=${ref}`);
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Failed to read ${path} at ${ref.slice(0, 7)}`);
+    const data = await response.json();
+
+    // Files over 1 MB come back without content; fall back to the blob
+    const content = data.content ? decodeBase64Utf8(data.content) : await fetchBlobText(owner, repo, data.sha);
+    return { sha: data.sha, content };
+  };
+
+  const fetchBlobText = async (owner: string, repo: string, sha: string): Promise<string> => {
+    const data = await githubJson(`/repos/${owner}/${repo}/git/blobs/${sha}`);
+    return data.content ? decodeBase64Utf8(data.content) : '';
+  };
+
+  const fetchFileHistory = async (owner: string, repo: string, ref: string, path: string, page: number) => {
+    const response = await githubFetch(
+      `/repos/${owner}/${repo}/commits?sha=${encodeURIComponent(ref)}&path=${encodeURIComponent(path)}&per_page=${HISTORY_PAGE_SIZE}&page=${page}`
+    );
+    if (!response.ok) throw new ApiError(`Failed to load the history of ${path}`, response.status);
+    const data = await response.json();
+    return {
+      commits: data.map((c: any): CommitInfo => ({
+        sha: c.sha,
+        message: c.commit.message,
+        author: c.author?.login ?? c.commit.author?.name ?? 'unknown',
+        date: c.commit.author?.date ?? c.commit.committer?.date,
+        url: c.html_url,
+        avatarUrl: c.author?.avatar_url,
+      })),
+      hasMore: /rel="next"/.test(response.headers.get('link') ?? ''),
+    };
+  };
+
+  // Three-dot comparison: what head adds since it forked from base. GitHub lists at most 300 files.
+  const compareRefs = async (owner: string, repo: string, base: string, head: string): Promise<RefComparison> => {
+    const data = await githubJson(`/repos/${owner}/${repo}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}?per_page=100`);
+    const files: ChangedFile[] = (data.files ?? []).map((f: any): ChangedFile => ({
+      path: f.filename,
+      previousPath: f.previous_filename,
+      status: f.status === 'removed' || f.status === 'added' || f.status === 'renamed' ? f.status : 'modified',
+      additions: f.additions,
+      deletions: f.deletions,
+    }));
+    return {
+      base,
+      head,
+      mergeBase: data.merge_base_commit.sha,
+      commits: data.ahead_by,
+      files,
+      truncated: files.length >= 300,
+      url: data.html_url,
+    };
+  };
+
+  const fetchPullRequest = async (owner: string, repo: string, number: number): Promise<PullRequestInfo> => {
+    const data = await githubJson(`/repos/${owner}/${repo}/pulls/${number}`);
+    return {
+      number: data.number,
+      title: data.title,
+      body: data.body ?? '',
+      author: data.user?.login ?? 'unknown',
+      state: data.merged_at ? 'merged' : data.state === 'closed' ? 'closed' : 'open',
+      url: data.html_url,
+      base: data.base.ref,
+      head: data.head.ref,
+      headSha: data.head.sha,
+      // A deleted fork leaves `head.repo` null
+      isFork: data.head.repo?.full_name !== data.base.repo.full_name,
+    };
+  };
 
-  // 2. PUT request to create/update
-  const body = {
-      message: message,
-      content: utf8_to_b64(content),
-      branch: branch,
-      ...(sha ? { sha } : {}) // Include SHA if updating
+  // One review with all line comments, pinned to the head commit the comments were written against
+  const submitReview = async (owner: string, repo: string, pr: PullRequestInfo, review: ReviewDraft): Promise<{ url: string }> => {
+    const data = await githubJson(`/repos/${owner}/${repo}/pulls/${pr.number}/reviews`, {
+        method: 'POST',
+        body: JSON.stringify({
+            commit_id: pr.headSha,
+            body: review.body,
+            event: review.event,
+            comments: review.comments.map(c => c.newLine !== undefined
+              ? { path: c.path, line: c.newLine, side: 'RIGHT', body: c.body }
+              : { path: c.path, line: c.oldLine, side: 'LEFT', body: c.body }),
+        })
+    });
+    return { url: data.html_url };
   };
 
-  const response = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/contents/${path}`, {
-      method: 'PUT',
-      headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          'Accept': 'application/vnd.github.v3+json'
+  // GraphQL lives next to the REST API: api.github.com/graphql, or <host>/api/graphql on Enterprise
+  const fetchBlame = async (owner: string, repo: string, ref: string, path: string): Promise<BlameRange[]> => {
+    if (!client.hasToken()) {
+      throw new ApiError(`Blame needs a ${host.label} token: GitHub only serves it through the GraphQL API, which requires authentication.`, 401);
+    }
+    const data = await githubJson(`${host.apiUrl.replace(/\/v3\/?$/, '')}/graphql`, {
+        method: 'POST',
+        body: JSON.stringify({ query: BLAME_QUERY, variables: { owner, name: repo, ref, path } }),
+    });
+    // GraphQL reports failures, rate limiting included, in a 200 response
+    if (data.errors?.length) throw new ApiError(`${host.label} API Error: ${data.errors[0].message}`, 200, data.errors[0].type === 'RATE_LIMITED');
+
+    const ranges = data.data?.repository?.object?.blame?.ranges;
+    if (!ranges) throw new Error(`No blame for ${path} at ${ref}`);
+    return ranges.map((r: any): BlameRange => ({
+      startLine: r.startingLine,
+      endLine: r.endingLine,
+      commit: {
+        sha: r.commit.oid,
+        message: r.commit.message,
+        author: r.commit.author?.user?.login ?? r.commit.author?.name ?? 'unknown',
+        date: r.commit.author?.date ?? r.commit.committedDate,
+        url: r.commit.url,
+        avatarUrl: r.commit.author?.user?.avatarUrl,
       },
-      body: JSON.stringify(body)
-  });
+    }));
+  };
 
-  if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(`GitHub API Error: ${errorData.message}`);
-  }
+  // Works out where the authenticated user can push: the repo itself, or their fork of it.
+  const fetchPushAccess = async (owner: string, repo: string): Promise<PushAccess> => {
+    const [user, repoData] = await Promise.all([
+        githubJson('/user'),
+        githubJson(`/repos/${owner}/${repo}`),
+    ]);
 
-  return await response.json();
-};
\ No newline at end of file
+    const access: PushAccess = { login: user.login, canPush: !!repoData.permissions?.push };
+    if (access.canPush) return access;
+
+    // Look for an existing fork under the user's account
+    try {
+        const candidate = await githubJson(`/repos/${user.login}/${repo}`);
+        if (candidate.fork && candidate.parent?.full_name?.toLowerCase() === `${owner}/${repo}`.toLowerCase()) {
+            access.fork = { owner: candidate.owner.login, name: candidate.name };
+        }
+    } catch (e) {
+        // No fork yet
+    }
+    return access;
+  };
+
+  // Forks are created asynchronously; poll until the new repo answers.
+  const forkRepo = async (owner: string, repo: string): Promise<{ owner: string; name: string }> => {
+    const fork = await githubJson(`/repos/${owner}/${repo}/forks`, { method: 'POST' });
+    const forkApi = `/repos/${fork.owner.login}/${fork.name}`;
+
+    for (let attempt = 0; attempt < 15; attempt++) {
+        const response = await githubFetch(`${forkApi}/git/refs/heads`);
+        if (response.ok) return { owner: fork.owner.login, name: fork.name };
+        await sleep(2000);
+    }
+    throw new Error(`Fork ${fork.full_name} is still being created. Please try again in a minute.`);
+  };
+
+  return {
+    host,
+    setToken: client.setToken,
+    subscribeToRateLimit: client.subscribeToRateLimit,
+    parseLocation,
+    fetchRepoDetails,
+    fetchRefs,
+    fetchRepoTree,
+    fetchDirectory: (owner, repo, _ref, dir) => listTree(owner, repo, dir.sha!, dir.path),
+    fetchFileContent,
+    fetchFileAtRef,
+    fetchBlobText,
+    fetchBranchHead,
+    fetchFileHistory,
+    compareRefs,
+    fetchBlame,
+    commitToBranch,
+    commitToNewBranch,
+    fetchPushAccess,
+    forkRepo,
+    createPullRequest: async (owner, repo, pr) => {
+      const data = await githubJson(`/repos/${owner}/${repo}/pulls`, {
+          method: 'POST',
+          body: JSON.stringify({
+              title: pr.title,
+              body: pr.body,
+              head: pr.fork ? `${pr.fork.owner}:${pr.branch}` : pr.branch,
+              base: pr.base,
+          })
+      });
+      return { number: data.number, url: data.html_url };
+    },
+    fetchPullRequest,
+    submitReview,
+    // jsDelivr serves files with real content types, which the HTML preview needs. It only mirrors github.com.
+    rawFileUrl: (owner, repo, ref, path) => isGitHubCom
+      ? `https://cdn.jsdelivr.net/gh/${owner}/${repo}@${ref}/${path}`
+      : `${webUrl}/${owner}/${repo}/raw/${ref}/${path}`,
+    lfsFileUrl: (owner, repo, ref, path) => isGitHubCom
+      ? `https://media.githubusercontent.com/media/${owner}/${repo}/${ref}/${path}`
+      : `${webUrl}/${owner}/${repo}/raw/${ref}/${path}`,
+    sandboxPath: (owner, repo, ref) => isGitHubCom ? `github/${owner}/${repo}/tree/${ref}` : null,
+  };
+};
@@ -0,0 +1,153 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HostConfig, RepoProvider } from '../types';
+import { createGitLabProvider } from './gitlab';
+import { ApiError } from './http';
+import { MockRequest, MockRoute, startMockHost } from './mock';
+
+// "group/sub/widgets" as GitLab addresses projects
+const PROJECT = '/projects/group%2Fsub%2Fwidgets';
+
+// Runs `body` against a provider whose API is a mock host serving `routes`
+const withHost = async (
+  routes: (url: string) => Record<string, MockRoute>,
+  body: (provider: RepoProvider, requests: MockRequest[], url: string) => Promise<void>
+) => {
+  const server = await startMockHost(routes);
+  const host: HostConfig = { id: 'gitlab.com', kind: 'gitlab', label: 'GitLab', webUrl: 'https://gitlab.com', apiUrl: server.url };
+  try {
+    await body(createGitLabProvider(host), server.requests, server.url);
+  } finally {
+    await server.close();
+  }
+};
+
+const entry = (path: string, type: 'blob' | 'tree') => ({ id: `id-${path}`, name: path.split('/').pop(), path, type, mode: type === 'tree' ? '040000' : '100644' });
+
+test('parseLocation reads projects in nested groups and their /-/ links', () => {
+  const { parseLocation } = createGitLabProvider({ id: 'gitlab.com', kind: 'gitlab', label: 'GitLab', webUrl: 'https://gitlab.com', apiUrl: '' });
+  assert.deepEqual(parseLocation(['group', 'sub', 'widgets'], ''), { owner: 'group/sub', repo: 'widgets', kind: 'repo' });
+  assert.deepEqual(parseLocation(['group', 'sub', 'widgets', '-', 'blob', 'main', 'src', 'a.ts'], '#L10-20'), {
+    owner: 'group/sub', repo: 'widgets', kind: 'blob', refPath: 'main/src/a.ts', lines: { start: 10, end: 20 },
+  });
+  assert.deepEqual(parseLocation(['group', 'widgets', '-', 'merge_requests', '4'], ''), { owner: 'group', repo: 'widgets', kind: 'pull', pullNumber: 4 });
+  assert.equal(parseLocation(['widgets'], ''), null);
+});
+
+test('fetchRepoDetails maps the project, and a 404 asks for a token', async () => {
+  await withHost(() => ({
+    [`GET ${PROJECT}`]: [200, {
+      namespace: { full_path: 'group/sub' }, path: 'widgets', description: null, default_branch: 'main', star_count: 3, visibility: 'internal',
+    }],
+  }), async provider => {
+    assert.deepEqual(await provider.fetchRepoDetails('group/sub', 'widgets'), {
+      owner: 'group/sub', name: 'widgets', description: '', defaultBranch: 'main', stars: 3, isPrivate: true,
+    });
+    await assert.rejects(provider.fetchRepoDetails('group', 'secret'), (e: unknown) => (
+      e instanceof ApiError && e.status === 404 && /add a GitLab token/.test(e.message)
+    ));
+  });
+});
+
+test('fetchRepoTree follows the next-page links of a recursive listing', async () => {
+  const tree = `${PROJECT}/repository/tree?ref=main&recursive=true&per_page=100&pagination=keyset`;
+  await withHost(url => ({
+    [`GET ${tree}`]: [200, [entry('src', 'tree'), entry('src/a.ts', 'blob')], { Link: `<${url}${tree}&page_token=2>; rel="next"` }],
+    [`GET ${tree}&page_token=2`]: [200, [entry('README.md', 'blob')]],
+  }), async (provider, requests, url) => {
+    const { nodes, truncated } = await provider.fetchRepoTree('group/sub', 'widgets', 'main');
+    assert.equal(truncated, false);
+    assert.deepEqual(nodes.map(n => n.path), ['src', 'README.md']);
+    assert.deepEqual(nodes[0].children?.map(n => [n.path, n.sha, n.url]), [['src/a.ts', 'id-src/a.ts', `${PROJECT}/repository/blobs/id-src/a.ts/raw`]]);
+    assert.equal(requests.length, 2);
+  });
+});
+
+test('fetchRepoTree loads only the root level of a listing with too many pages', async () => {
+  const tree = `${PROJECT}/repository/tree?ref=main&recursive=true&per_page=100&pagination=keyset`;
+  await withHost(url => {
+    // Every page links to another one
+    const pages: Record<string, MockRoute> = {};
+    for (let page = 1; page <= 60; page++) {
+      pages[`GET ${tree}${page > 1 ? `&page_token=${page}` : ''}`] = [200, [entry(`f${page}.ts`, 'blob')], { Link: `<${url}${tree}&page_token=${page + 1}>; rel="next"` }];
+    }
+    return {
+      ...pages,
+      [`GET ${PROJECT}/repository/tree?ref=main&per_page=100`]: [200, [entry('lib', 'tree'), entry('index.ts', 'blob')]],
+    };
+  }, async (provider, requests) => {
+    const { nodes, truncated } = await provider.fetchRepoTree('group/sub', 'widgets', 'main');
+    assert.equal(truncated, true);
+    assert.deepEqual(nodes.map(n => [n.path, !!n.unloaded]), [['lib', true], ['index.ts', false]]);
+    assert.equal(requests.length, 51); // The 50 pages it gives up after, then the root level
+  });
+});
+
+test('fetchFileContent reads the raw blob', async () => {
+  await withHost(() => ({
+    [`GET ${PROJECT}/repository/blobs/b1/raw`]: [200, 'export const a = 1;\n'],
+    [`GET ${PROJECT}/repository/blobs/gone/raw`]: [404, { message: '404 Not Found' }],
+  }), async provider => {
+    const blob = (sha: string) => ({ path: 'a.ts', name: 'a.ts', type: 'blob' as const, url: `${PROJECT}/repository/blobs/${sha}/raw` });
+    assert.deepEqual(await provider.fetchFileContent(blob('b1')), { kind: 'text', content: 'export const a = 1;\n', size: 20 });
+    await assert.rejects(provider.fetchFileContent(blob('gone')), (e: unknown) => e instanceof ApiError && e.status === 404);
+  });
+});
+
+// `main` is at c1, where src/a.ts exists and new.ts doesn't
+const commitRoutes = (): Record<string, MockRoute> => ({
+  [`GET ${PROJECT}/repository/branches/main`]: [200, { name: 'main', commit: { id: 'c1' } }],
+  [`HEAD ${PROJECT}/repository/files/src%2Fa.ts?ref=c1`]: [200],
+  [`POST ${PROJECT}/repository/commits`]: [201, { id: 'c2', web_url: 'https://gitlab.com/group/sub/widgets/-/commit/c2' }],
+});
+
+const CHANGES = [
+  { path: 'src/a.ts', content: 'hello\n' },
+  { path: 'new.ts', content: 'hi', mode: '100755' },
+  { path: 'old.ts', content: null },
+];
+
+test('commitToBranch sends one commit, creating or updating each file as it exists on the branch', async () => {
+  await withHost(commitRoutes, async (provider, requests) => {
+    const result = await provider.commitToBranch('group/sub', 'widgets', CHANGES, 'Update', 'main', undefined, 'c1');
+
+    // Blob SHAs are computed locally: "hello\n" is git's well-known ce01362
+    assert.equal(result.sha, 'c2');
+    assert.deepEqual(result.files['src/a.ts'], {
+      sha: 'ce013625030ba8dba906f756967f9e9ca394464a',
+      url: `${PROJECT}/repository/blobs/ce013625030ba8dba906f756967f9e9ca394464a/raw`,
+    });
+    const commit = requests.find(r => r.method === 'POST')!;
+    assert.deepEqual(commit.body, {
+      branch: 'main',
+      commit_message: 'Update',
+      actions: [
+        { action: 'update', file_path: 'src/a.ts', content: Buffer.from('hello\n').toString('base64'), encoding: 'base64', execute_filemode: false },
+        { action: 'create', file_path: 'new.ts', content: Buffer.from('hi').toString('base64'), encoding: 'base64', execute_filemode: true },
+        { action: 'delete', file_path: 'old.ts' },
+      ],
+    });
+  });
+});
+
+test('commitToBranch refuses a branch that moved since the changes were checked', async () => {
+  await withHost(commitRoutes, async (provider, requests) => {
+    await assert.rejects(
+      provider.commitToBranch('group/sub', 'widgets', CHANGES, 'Update', 'main', undefined, 'c0'),
+      { message: 'main has new commits since your changes were checked. main was not changed.' },
+    );
+    assert.ok(requests.every(r => r.method === 'GET'));
+  });
+});
+
+test('commitToNewBranch creates the branch and its commit in one request', async () => {
+  await withHost(() => ({
+    [`POST ${PROJECT}/repository/commits`]: [201, { id: 'c2', web_url: 'https://gitlab.com/group/sub/widgets/-/commit/c2' }],
+  }), async (provider, requests) => {
+    const result = await provider.commitToNewBranch('group/sub', 'widgets', [{ path: 'old.ts', content: null }], 'Remove', 'feature', 'c1');
+    assert.deepEqual(result, { sha: 'c2', url: 'https://gitlab.com/group/sub/widgets/-/commit/c2', files: {} });
+    assert.deepEqual(requests.map(r => [r.method, r.body]), [
+      ['POST', { branch: 'feature', start_sha: 'c1', commit_message: 'Remove', actions: [{ action: 'delete', file_path: 'old.ts' }] }],
+    ]);
+  });
+});
@@ -0,0 +1,442 @@
+import { FileNode, RepoDetails, GitRef, RepoLocation, FileChange, PushAccess, FileData, HostConfig, RepoProvider, CommitResult, CommitInfo, BlameRange, RefComparison, ChangedFile, PullRequestInfo, ReviewDraft } from '../types';
+import { classifyFile } from './files';
+import { createApiClient, ApiError, sleep } from './http';
+import { sortNodes, buildTree, parseLineHash, decodeBase64Utf8, utf8_to_b64, gitBlobSha } from './tree';
+
+// Past this many pages (100 entries each) a recursive listing is treated like a truncated GitHub tree
+const MAX_TREE_PAGES = 50;
+// Developer role, the lowest one allowed to push
+const DEVELOPER_ACCESS = 30;
+const HISTORY_PAGE_SIZE = 30;
+
+// GitLab.com and self-managed GitLab (API v4). Projects are addressed by their URL-encoded
+// "namespace/path", so the owner can be a nested group.
+export const createGitLabProvider = (host: HostConfig): RepoProvider => {
+  const webUrl = host.webUrl.replace(/\/+$/, '');
+  const client = createApiClient({
+    baseUrl: host.apiUrl,
+    hostLabel: host.label,
+    accept: 'application/json',
+    authorization: (token) => ['Authorization', `Bearer ${token}`],
+  });
+
+  const projectApi = (owner: string, repo: string) => `/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+  const fileApi = (owner: string, repo: string, path: string, ref: string) =>
+    `${projectApi(owner, repo)}/repository/files/${encodeURIComponent(path)}?ref=${encodeURIComponent(ref)}`;
+
+  const nextPageUrl = (response: Response) => response.headers.get('link')?.match(/<([^>]+)>;\s*rel="next"/)?.[1] ?? null;
+
+  // Follows `Link: rel="next"` headers. `complete` is false when `maxPages` cut the listing short.
+  const listPages = async (url: string, maxPages = Infinity): Promise<{ items: any[]; complete: boolean }> => {
+    const items: any[] = [];
+    let next: string | null = url;
+    for (let page = 0; next && page < maxPages; page++) {
+      const response = await client.fetch(next);
+      if (!response.ok) throw new ApiError(`${host.label} API Error: ${response.statusText}`, response.status);
+      items.push(...await response.json());
+      next = nextPageUrl(response);
+    }
+    return { items, complete: next === null };
+  };
+
+  // gitlab.com/group/sub/project/-/tree/<ref>/dir, /-/blob/<ref>/file, /-/commit/<sha>, /-/merge_requests/<iid>
+  const parseLocation = (parts: string[], hash: string): RepoLocation | null => {
+    const dash = parts.indexOf('-');
+    const projectParts = dash === -1 ? parts : parts.slice(0, dash);
+    if (projectParts.length < 2) return null;
+
+    const location: RepoLocation = {
+      owner: projectParts.slice(0, -1).join('/'),
+      repo: projectParts[projectParts.length - 1].replace(/\.git$/, ''),
+      kind: 'repo',
+    };
+
+    const section = dash === -1 ? undefined : parts[dash + 1];
+    if ((section === 'tree' || section === 'blob' || section === 'commit') && parts.length > dash + 2) {
+      location.kind = section;
+      location.refPath = parts.slice(dash + 2).join('/');
+    } else if (section === 'merge_requests' && /^\d+$/.test(parts[dash + 2] ?? '')) {
+      location.kind = 'pull';
+      location.pullNumber = Number(parts[dash + 2]);
+    }
+
+    // #L10 or #L10-40 on blob links
+    if (location.kind === 'blob') location.lines = parseLineHash(hash);
+
+    return location;
+  };
+
+  const fetchRepoDetails = async (owner: string, repo: string): Promise<RepoDetails> => {
+    const response = await client.fetch(projectApi(owner, repo));
+    if (response.status === 404) {
+      throw new ApiError(client.hasToken()
+        ? 'Project not found, or your token has no access to it'
+        : `Project not found. If it is private, add a ${host.label} token first.`, 404);
+    }
+    if (!response.ok) throw new ApiError('Failed to load repository', response.status);
+    const data = await response.json();
+    return {
+      owner: data.namespace.full_path,
+      name: data.path,
+      description: data.description || '',
+      defaultBranch: data.default_branch,
+      stars: data.star_count,
+      isPrivate: data.visibility !== 'public',
+    };
+  };
+
+  const fetchRefs = async (owner: string, repo: string): Promise<GitRef[]> => {
+    const api = projectApi(owner, repo);
+    const [branchesRes, tagsRes] = await Promise.all([
+      client.fetch(`${api}/repository/branches?per_page=100`),
+      client.fetch(`${api}/repository/tags?per_page=100`),
+    ]);
+    if (!branchesRes.ok) throw new Error('Failed to fetch branches');
+
+    const branches = await branchesRes.json();
+    const tags = tagsRes.ok ? await tagsRes.json() : [];
+
+    return [
+      ...branches.map((b: any): GitRef => ({ name: b.name, type: 'branch', sha: b.commit?.id })),
+      ...tags.map((t: any): GitRef => ({ name: t.name, type: 'tag', sha: t.commit?.id })),
+    ];
+  };
+
+  const toFileNode = (api: string, item: any): FileNode => ({
+    path: item.path,
+    name: item.name,
+    type: item.type,
+    sha: item.id,
+    mode: item.mode,
+    url: item.type === 'blob' ? `${api}/repository/blobs/${item.id}/raw` : undefined,
+    children: item.type === 'tree' ? [] : undefined,
+  });
+
+  // Lists a single directory level. Sub-folders come back `unloaded`.
+  const listDirectory = async (owner: string, repo: string, ref: string, path: string): Promise<FileNode[]> => {
+    const api = projectApi(owner, repo);
+    const query = `ref=${encodeURIComponent(ref)}&per_page=100${path ? `&path=${encodeURIComponent(path)}` : ''}`;
+    const { items } = await listPages(`${api}/repository/tree?${query}`);
+    return sortNodes(items.map(item => {
+      const node = toFileNode(api, item);
+      return node.type === 'tree' ? { ...node, children: undefined, unloaded: true } : node;
+    }));
+  };
+
+  const fetchRepoTree = async (owner: string, repo: string, ref: string): Promise<{ nodes: FileNode[]; truncated: boolean }> => {
+    const api = projectApi(owner, repo);
+    const { items, complete } = await listPages(
+      `${api}/repository/tree?ref=${encodeURIComponent(ref)}&recursive=true&per_page=100&pagination=keyset`,
+      MAX_TREE_PAGES
+    );
+    if (!complete) {
+      return { nodes: await listDirectory(owner, repo, ref, ''), truncated: true };
+    }
+    return { nodes: buildTree(items.map(item => toFileNode(api, item))), truncated: false };
+  };
+
+  const fetchFileContent = async (node: FileNode): Promise<FileData> => {
+    const response = await client.fetch(node.url!);
+    if (!response.ok) throw new ApiError('Failed to fetch file content', response.status);
+    return classifyFile(node.path, new Uint8Array(await response.arrayBuffer()));
+  };
+
+  // A file as it exists at `ref`, or null if it doesn't exist there
+  const fetchFileAtRef = async (owner: string, repo: string, path: string, ref: string): Promise<{ sha: string; content: string } | null> => {
+    const response = await client.fetch(fileApi(owner, repo, path, ref));
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Failed to read ${path} at ${ref.slice(0, 7)}`);
+    const data = await response.json();
+    return { sha: data.blob_id, content: decodeBase64Utf8(data.content || '') };
+  };
+
+  const fetchBlobText = async (owner: string, repo: string, sha: string): Promise<string> => {
+    const response = await client.fetch(`${projectApi(owner, repo)}/repository/blobs/${sha}/raw`);
+    if (!response.ok) throw new ApiError('Failed to fetch file content', response.status);
+    return response.text();
+  };
+
+  const fetchBranchHead = async (owner: string, repo: string, branch: string): Promise<string> => {
+    const data = await client.json(`${projectApi(owner, repo)}/repository/branches/${encodeURIComponent(branch)}`);
+    return data.commit.id;
+  };
+
+  const toCommitInfo = (c: any): CommitInfo => ({
+    sha: c.id,
+    message: c.message,
+    author: c.author_name,
+    date: c.authored_date,
+    url: c.web_url,
+  });
+
+  const fetchFileHistory = async (owner: string, repo: string, ref: string, path: string, page: number) => {
+    const response = await client.fetch(
+      `${projectApi(owner, repo)}/repository/commits?ref_name=${encodeURIComponent(ref)}&path=${encodeURIComponent(path)}&per_page=${HISTORY_PAGE_SIZE}&page=${page}`
+    );
+    if (!response.ok) throw new ApiError(`Failed to load the history of ${path}`, response.status);
+    return { commits: (await response.json()).map(toCommitInfo), hasMore: nextPageUrl(response) !== null };
+  };
+
+  // GitLab sends each file's hunks (without ---/+++ headers) but no line counts
+  const countDiff = (diff: string) => ({
+    additions: (diff.match(/^\+/gm) ?? []).length,
+    deletions: (diff.match(/^-/gm) ?? []).length,
+  });
+
+  const compareRefs = async (owner: string, repo: string, base: string, head: string): Promise<RefComparison> => {
+    const api = projectApi(owner, repo);
+    const [data, mergeBase] = await Promise.all([
+      client.json(`${api}/repository/compare?from=${encodeURIComponent(base)}&to=${encodeURIComponent(head)}&straight=false`),
+      client.json(`${api}/repository/merge_base?refs[]=${encodeURIComponent(base)}&refs[]=${encodeURIComponent(head)}`),
+    ]);
+    return {
+      base,
+      head,
+      mergeBase: mergeBase.id,
+      commits: data.commits?.length ?? 0,
+      files: (data.diffs ?? []).map((d: any): ChangedFile => ({
+        path: d.deleted_file ? d.old_path : d.new_path,
+        previousPath: d.renamed_file ? d.old_path : undefined,
+        status: d.new_file ? 'added' : d.deleted_file ? 'removed' : d.renamed_file ? 'renamed' : 'modified',
+        ...countDiff(d.diff ?? ''),
+      })),
+      url: `${webUrl}/${owner}/${repo}/-/compare/${base}...${head}`,
+    };
+  };
+
+  // Blame comes back as consecutive chunks of lines, each with its commit
+  const fetchBlame = async (owner: string, repo: string, ref: string, path: string): Promise<BlameRange[]> => {
+    const chunks = await client.json(`${projectApi(owner, repo)}/repository/files/${encodeURIComponent(path)}/blame?ref=${encodeURIComponent(ref)}`);
+    let line = 1;
+    return chunks.map((chunk: any): BlameRange => {
+      const range = { startLine: line, endLine: line + chunk.lines.length - 1, commit: toCommitInfo(chunk.commit) };
+      line += chunk.lines.length;
+      return range;
+    });
+  };
+
+  // The commits API needs to be told whether each file is created or updated
+  const toActions = (owner: string, repo: string, changes: FileChange[], ref: string) => Promise.all(changes.map(async change => {
+    if (change.content === null) return { action: 'delete', file_path: change.path };
+    const existing = await client.fetch(fileApi(owner, repo, change.path, ref), { method: 'HEAD' });
+    return {
+      action: existing.ok ? 'update' : 'create',
+      file_path: change.path,
+      content: utf8_to_b64(change.content),
+      encoding: 'base64',
+      execute_filemode: change.mode === '100755',
+    };
+  }));
+
+  // One atomic commit through the commits API. `target` is the branch plus, for new branches, where to start it.
+  const createCommit = async (
+    owner: string,
+    repo: string,
+    changes: FileChange[],
+    message: string,
+    target: { branch: string; start_sha?: string },
+    parentSha: string,
+    onProgress?: (status: string) => void
+  ): Promise<CommitResult> => {
+    const api = projectApi(owner, repo);
+    onProgress?.('Preparing changes...');
+    const actions = await toActions(owner, repo, changes, parentSha);
+
+    onProgress?.('Creating commit...');
+    const commit = await client.json(`${api}/repository/commits`, {
+        method: 'POST',
+        body: JSON.stringify({ ...target, commit_message: message, actions })
+    });
+
+    // The response doesn't list blobs; git object ids are content hashes, so compute them
+    const files: CommitResult['files'] = {};
+    for (const change of changes) {
+        if (change.content === null) continue;
+        const sha = await gitBlobSha(change.content);
+        files[change.path] = { sha, url: `${api}/repository/blobs/${sha}/raw` };
+    }
+    return { sha: commit.id, url: commit.web_url, files };
+  };
+
+  // The commits API can't pin the parent commit, so a moved branch is detected
+  // by re-reading its head right before committing.
+  const commitToBranch = async (
+    owner: string,
+    repo: string,
+    changes: FileChange[],
+    message: string,
+    branch: string,
+    onProgress?: (status: string) => void,
+    headSha?: string
+  ): Promise<CommitResult> => {
+    onProgress?.(`Reading ${branch}...`);
+    const currentHead = await fetchBranchHead(owner, repo, branch);
+    if (headSha && currentHead !== headSha) {
+        throw new Error(`${branch} has new commits since your changes were checked. ${branch} was not changed.`);
+    }
+
+    try {
+        return await createCommit(owner, repo, changes, message, { branch }, currentHead, onProgress);
+    } catch (e) {
+        throw new Error(`${e instanceof Error ? e.message : 'Failed to commit'}. ${branch} was not changed.`);
+    }
+  };
+
+  // `start_sha` makes GitLab create the branch and the commit in one request
+  const commitToNewBranch = async (
+    owner: string,
+    repo: string,
+    changes: FileChange[],
+    message: string,
+    branch: string,
+    baseSha: string,
+    onProgress?: (status: string) => void
+  ): Promise<CommitResult> => {
+    return createCommit(owner, repo, changes, message, { branch, start_sha: baseSha }, baseSha, onProgress);
+  };
+
+  // Works out where the authenticated user can push: the project itself, or their fork of it.
+  const fetchPushAccess = async (owner: string, repo: string): Promise<PushAccess> => {
+    const [user, project] = await Promise.all([
+        client.json('/user'),
+        client.json(projectApi(owner, repo)),
+    ]);
+
+    const level = Math.max(
+        project.permissions?.project_access?.access_level ?? 0,
+        project.permissions?.group_access?.access_level ?? 0
+    );
+    const access: PushAccess = { login: user.username, canPush: level >= DEVELOPER_ACCESS };
+    if (access.canPush) return access;
+
+    // Look for an existing fork in the user's namespace
+    try {
+        const candidate = await client.json(projectApi(user.username, repo));
+        if (candidate.forked_from_project?.path_with_namespace?.toLowerCase() === `${owner}/${repo}`.toLowerCase()) {
+            access.fork = { owner: candidate.namespace.full_path, name: candidate.path };
+        }
+    } catch (e) {
+        // No fork yet
+    }
+    return access;
+  };
+
+  // Forks are imported in the background; poll until the import finishes.
+  const forkRepo = async (owner: string, repo: string): Promise<{ owner: string; name: string }> => {
+    const fork = await client.json(`${projectApi(owner, repo)}/fork`, { method: 'POST' });
+    const result = { owner: fork.namespace.full_path, name: fork.path };
+
+    for (let attempt = 0; attempt < 15; attempt++) {
+        const project = await client.json(`/projects/${fork.id}`);
+        if (project.import_status === 'finished' || project.import_status === 'none') return result;
+        if (project.import_status === 'failed') throw new Error(`Forking ${owner}/${repo} failed.`);
+        await sleep(2000);
+    }
+    throw new Error(`Fork ${fork.path_with_namespace} is still being created. Please try again in a minute.`);
+  };
+
+  // Merge requests are opened on the source project; from a fork they target the upstream project by id
+  const fetchPullRequest = async (owner: string, repo: string, number: number): Promise<PullRequestInfo> => {
+    const data = await client.json(`${projectApi(owner, repo)}/merge_requests/${number}`);
+    return {
+      number: data.iid,
+      title: data.title,
+      body: data.description ?? '',
+      author: data.author?.username ?? 'unknown',
+      state: data.state === 'merged' ? 'merged' : data.state === 'opened' ? 'open' : 'closed',
+      url: data.web_url,
+      base: data.target_branch,
+      head: data.source_branch,
+      headSha: data.sha,
+      mergeBase: data.diff_refs?.base_sha,
+      isFork: data.source_project_id !== data.target_project_id,
+    };
+  };
+
+  // GitLab has no single review call: each comment becomes a diff discussion, the summary a plain note.
+  // There is no REST equivalent of requesting changes, so that event only posts the summary.
+  const submitReview = async (owner: string, repo: string, pr: PullRequestInfo, review: ReviewDraft): Promise<{ url: string }> => {
+    const mrApi = `${projectApi(owner, repo)}/merge_requests/${pr.number}`;
+    const { diff_refs: diffRefs } = await client.json(mrApi);
+    // Positions are only valid against the diff version they were written for
+    if (diffRefs.head_sha !== pr.headSha) {
+      throw new Error('The merge request has new commits since it was opened. Reload it before submitting the review.');
+    }
+
+    for (const comment of review.comments) {
+      await client.json(`${mrApi}/discussions`, {
+          method: 'POST',
+          body: JSON.stringify({
+              body: comment.body,
+              position: {
+                position_type: 'text',
+                base_sha: diffRefs.base_sha,
+                start_sha: diffRefs.start_sha,
+                head_sha: diffRefs.head_sha,
+                old_path: comment.previousPath ?? comment.path,
+                new_path: comment.path,
+                old_line: comment.oldLine,
+                new_line: comment.newLine,
+              },
+          })
+      });
+    }
+    if (review.body.trim()) {
+      await client.json(`${mrApi}/notes`, { method: 'POST', body: JSON.stringify({ body: review.body }) });
+    }
+    if (review.event === 'APPROVE') {
+      await client.json(`${mrApi}/approve`, { method: 'POST', body: JSON.stringify({ sha: pr.headSha }) });
+    }
+    return { url: pr.url };
+  };
+
+  const createPullRequest: RepoProvider['createPullRequest'] = async (owner, repo, pr) => {
+    const body: Record<string, unknown> = {
+        source_branch: pr.branch,
+        target_branch: pr.base,
+        title: pr.title,
+        description: pr.body,
+    };
+    let sourceApi = projectApi(owner, repo);
+    if (pr.fork) {
+        const upstream = await client.json(projectApi(owner, repo));
+        body.target_project_id = upstream.id;
+        sourceApi = projectApi(pr.fork.owner, pr.fork.name);
+    }
+
+    const data = await client.json(`${sourceApi}/merge_requests`, {
+        method: 'POST',
+        body: JSON.stringify(body)
+    });
+    return { number: data.iid, url: data.web_url };
+  };
+
+  return {
+    host,
+    setToken: client.setToken,
+    subscribeToRateLimit: client.subscribeToRateLimit,
+    parseLocation,
+    fetchRepoDetails,
+    fetchRefs,
+    fetchRepoTree,
+    fetchDirectory: (owner, repo, ref, dir) => listDirectory(owner, repo, ref, dir.path),
+    fetchFileContent,
+    fetchFileAtRef,
+    fetchBlobText,
+    fetchBranchHead,
+    fetchFileHistory,
+    compareRefs,
+    fetchBlame,
+    commitToBranch,
+    commitToNewBranch,
+    fetchPushAccess,
+    forkRepo,
+    createPullRequest,
+    fetchPullRequest,
+    submitReview,
+    // /-/raw/ resolves LFS pointers to the stored object as well
+    rawFileUrl: (owner, repo, ref, path) => `${webUrl}/${owner}/${repo}/-/raw/${ref}/${path}`,
+    lfsFileUrl: (owner, repo, ref, path) => `${webUrl}/${owner}/${repo}/-/raw/${ref}/${path}`,
+    sandboxPath: () => null,
+  };
+};
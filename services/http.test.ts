@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createApiClient } from './http';
+import { startMockServer } from './mock';
+
+const clientFor = (baseUrl: string) => createApiClient({
+  baseUrl,
+  hostLabel: 'Mock',
+  accept: 'application/json',
+  authorization: token => ['Authorization', `Bearer ${token}`],
+});
+
+test('Retry-After given as an HTTP date is waited out, not retried at once', async () => {
+  const retryAt = new Date(Date.now() + 2000).toUTCString(); // Whole seconds, so between 1 and 2s from now
+  const server = await startMockServer((request, send) => {
+    if (server.requests.length === 1) send(429, { message: 'Slow down' }, { 'Retry-After': retryAt });
+    else send(200, { ok: true });
+  });
+  try {
+    const started = Date.now();
+    assert.deepEqual(await clientFor(server.url).json('/thing'), { ok: true });
+    assert.equal(server.requests.length, 2);
+    assert.ok(Date.now() - started >= 900, 'the retry waited for the date');
+  } finally {
+    await server.close();
+  }
+});
+
+test('Retry-After in seconds, and dates already past, retry after that long', async () => {
+  for (const retryAfter of ['0', new Date(Date.now() - 60_000).toUTCString()]) {
+    const server = await startMockServer((request, send) => {
+      if (server.requests.length === 1) send(429, {}, { 'Retry-After': retryAfter });
+      else send(200, { ok: true });
+    });
+    try {
+      const started = Date.now();
+      assert.deepEqual(await clientFor(server.url).json('/thing'), { ok: true });
+      assert.ok(Date.now() - started < 900, `Retry-After: ${retryAfter}`);
+    } finally {
+      await server.close();
+    }
+  }
+});
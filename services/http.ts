@@ -0,0 +1,159 @@
+import { RateLimitInfo } from '../types';
+
+// --- API client -------------------------------------------------------------
+// Every provider talks to its host through one of these clients. A client adds the
+// user's token when set, tracks rate-limit headers and backs off on 403/429 rate-limit responses.
+
+export class ApiError extends Error {
+  status: number;
+  rateLimited: boolean;
+
+  constructor(message: string, status: number, rateLimited = false) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.rateLimited = rateLimited;
+  }
+}
+
+export interface ApiClientOptions {
+  baseUrl: string; // Relative request paths are resolved against this
+  hostLabel: string; // Used in error messages, e.g. "GitHub"
+  accept: string; // Default Accept header
+  authorization: (token: string) => [header: string, value: string];
+  noTokenHint?: string; // Appended to rate-limit errors while no token is set
+}
+
+export interface ApiClient {
+  readonly baseUrl: string;
+  setToken: (token: string | null) => void;
+  hasToken: () => boolean;
+  subscribeToRateLimit: (listener: (info: RateLimitInfo | null) => void) => () => void;
+  fetch: (pathOrUrl: string, init?: RequestInit) => Promise<Response>;
+  json: (pathOrUrl: string, init?: RequestInit) => Promise<any>;
+}
+
+// Longest we'll silently wait before giving up and telling the user
+const MAX_RATE_LIMIT_WAIT_MS = 60_000;
+const MAX_ATTEMPTS = 3;
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// GitHub and Gitea send X-RateLimit-*, GitLab sends RateLimit-*. Reset is in epoch seconds for all of them.
+const readRateLimit = (response: Response): RateLimitInfo | null => {
+  for (const prefix of ['x-ratelimit-', 'ratelimit-']) {
+    const limit = response.headers.get(`${prefix}limit`);
+    const remaining = response.headers.get(`${prefix}remaining`);
+    const reset = response.headers.get(`${prefix}reset`);
+    if (limit === null || remaining === null || reset === null) continue;
+    return {
+      limit: parseInt(limit, 10),
+      remaining: parseInt(remaining, 10),
+      resetAt: parseInt(reset, 10) * 1000,
+      resource: response.headers.get(`${prefix}resource`) || 'core',
+    };
+  }
+  return null;
+};
+
+// How long to wait before retrying, or null if this isn't a rate-limit response
+const rateLimitDelay = async (response: Response, info: RateLimitInfo | null, attempt: number): Promise<number | null> => {
+  if (response.status !== 403 && response.status !== 429) return null;
+
+  // Retry-After is either seconds or an HTTP date; one we can't read gets the default backoff
+  const retryAfter = response.headers.get('retry-after')?.trim();
+  if (retryAfter) {
+    const delay = /^\d+$/.test(retryAfter) ? Number(retryAfter) * 1000 : Date.parse(retryAfter) - Date.now();
+    return Number.isNaN(delay) ? 2 ** attempt * 5000 : Math.max(delay, 0);
+  }
+  if (info && info.remaining === 0) return Math.max(info.resetAt - Date.now(), 0) + 1000;
+
+  // Secondary rate limits come without headers, only a message
+  const body = await response.clone().json().catch(() => ({}));
+  if (response.status === 429 || /rate limit/i.test(body.message || '')) return 2 ** attempt * 5000;
+  return null;
+};
+
+const formatTime = (epochMs: number) => new Date(epochMs).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const createApiClient = (options: ApiClientOptions): ApiClient => {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  let authToken: string | null = null;
+  let rateLimit: RateLimitInfo | null = null;
+  const rateLimitListeners = new Set<(info: RateLimitInfo | null) => void>();
+
+  const updateRateLimit = (info: RateLimitInfo) => {
+    rateLimit = info;
+    rateLimitListeners.forEach(listener => listener(info));
+  };
+
+  const apiFetch = async (pathOrUrl: string, init: RequestInit = {}): Promise<Response> => {
+    const url = /^https?:\/\//.test(pathOrUrl) ? pathOrUrl : `${baseUrl}${pathOrUrl}`;
+    const headers = new Headers(init.headers);
+    if (!headers.has('Accept')) headers.set('Accept', options.accept);
+    if (init.body) headers.set('Content-Type', 'application/json');
+    if (authToken) headers.set(...options.authorization(authToken));
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await fetch(url, { ...init, headers });
+      const info = readRateLimit(response);
+      if (info) updateRateLimit(info);
+
+      const delay = await rateLimitDelay(response, info, attempt);
+      if (delay === null) return response;
+
+      const resetAt = Date.now() + delay;
+      if (attempt >= MAX_ATTEMPTS || delay > MAX_RATE_LIMIT_WAIT_MS) {
+        const hint = !authToken && options.noTokenHint ? ` ${options.noTokenHint}` : '';
+        throw new ApiError(`${options.hostLabel} API rate limit exceeded. Try again after ${formatTime(resetAt)}.${hint}`, response.status, true);
+      }
+
+      if (rateLimit) updateRateLimit({ ...rateLimit, retryingAt: resetAt });
+      await sleep(delay);
+      if (rateLimit) updateRateLimit({ ...rateLimit, retryingAt: undefined });
+    }
+  };
+
+  const apiJson = async (pathOrUrl: string, init: RequestInit = {}) => {
+    const response = await apiFetch(pathOrUrl, init);
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        // GitHub/Gitea use `message`, GitLab uses `message` or `error` (sometimes an object)
+        const detail = errorData.message ?? errorData.error ?? response.statusText;
+        throw new ApiError(`${options.hostLabel} API Error: ${typeof detail === 'string' ? detail : JSON.stringify(detail)}`, response.status);
+    }
+    return response.json();
+  };
+
+  return {
+    baseUrl,
+    setToken: (token) => { authToken = token?.trim() || null; },
+    hasToken: () => authToken !== null,
+    subscribeToRateLimit: (listener) => {
+      rateLimitListeners.add(listener);
+      listener(rateLimit);
+      return () => { rateLimitListeners.delete(listener); };
+    },
+    fetch: apiFetch,
+    json: apiJson,
+  };
+};
+
+// --- Streaming --------------------------------------------------------------
+
+// Yields a streamed response body line by line (server-sent events, NDJSON)
+export async function* readLines(response: Response): AsyncIterable<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) yield line.replace(/\r$/, '');
+    if (done) break;
+  }
+  if (buffer) yield buffer;
+}
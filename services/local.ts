@@ -0,0 +1,80 @@
+import { FileNode, FileData } from '../types';
+import { classifyFile } from './files';
+import { buildTree } from './tree';
+import { readZip, writeZip, ZipEntry } from './zip';
+
+// A repository opened from disk: a folder chosen in the browser's directory picker or an uploaded .zip.
+// All files are held in memory and nothing is ever pushed; edits leave through `exportWorkspace`.
+
+export interface LocalWorkspace {
+  name: string;
+  files: Map<string, Uint8Array>; // Original content by path
+}
+
+// Never worth browsing and often huge
+const IGNORED_DIRS = new Set(['.git', 'node_modules']);
+
+const isIgnored = (path: string) => path.split('/').some(part => IGNORED_DIRS.has(part));
+
+// Archives and picked folders wrap everything in one top-level folder (e.g. "repo-main/").
+// It's dropped from the paths and becomes the workspace name.
+const toWorkspace = (entries: ZipEntry[], fallbackName: string): LocalWorkspace => {
+  const roots = new Set(entries.map(e => e.path.split('/')[0]));
+  const [root] = roots;
+  const wrapped = roots.size === 1 && entries.every(e => e.path.includes('/'));
+
+  const files = new Map<string, Uint8Array>();
+  for (const entry of entries) {
+    const path = wrapped ? entry.path.slice(root.length + 1) : entry.path;
+    if (path && !isIgnored(path)) files.set(path, entry.data);
+  }
+  return { name: wrapped ? root : fallbackName, files };
+};
+
+// Files from an <input webkitdirectory>; their `webkitRelativePath` starts with the picked folder's name
+export const openLocalFolder = async (fileList: FileList): Promise<LocalWorkspace> => {
+  const files = Array.from(fileList).filter(f => !isIgnored(f.webkitRelativePath || f.name));
+  const entries = await Promise.all(files.map(async (file): Promise<ZipEntry> => ({
+    path: file.webkitRelativePath || file.name,
+    data: new Uint8Array(await file.arrayBuffer()),
+  })));
+  return toWorkspace(entries, 'folder');
+};
+
+export const openZipArchive = async (file: File): Promise<LocalWorkspace> => {
+  const entries = await readZip(await file.arrayBuffer());
+  return toWorkspace(entries, file.name.replace(/\.zip$/i, ''));
+};
+
+export const buildLocalTree = (workspace: LocalWorkspace): FileNode[] => {
+  const nodes = new Map<string, FileNode>();
+  for (const path of workspace.files.keys()) {
+    const parts = path.split('/');
+    // Folders only exist implicitly, as prefixes of file paths
+    for (let i = 1; i < parts.length; i++) {
+      const dir = parts.slice(0, i).join('/');
+      if (!nodes.has(dir)) nodes.set(dir, { path: dir, name: parts[i - 1], type: 'tree', children: [] });
+    }
+    nodes.set(path, { path, name: parts[parts.length - 1], type: 'blob' });
+  }
+  return buildTree(Array.from(nodes.values()));
+};
+
+export const readLocalFile = (workspace: LocalWorkspace, path: string): FileData | null => {
+  const bytes = workspace.files.get(path);
+  return bytes ? classifyFile(path, bytes) : null;
+};
+
+// The workspace as it is now: originals minus deletions, with edits and new files applied
+export const exportWorkspace = (workspace: LocalWorkspace, modified: Record<string, string>, deleted: string[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  for (const [path, data] of workspace.files) {
+    if (deleted.includes(path)) continue;
+    entries.push({ path, data: path in modified ? encoder.encode(modified[path]) : data });
+  }
+  for (const [path, content] of Object.entries(modified)) {
+    if (!workspace.files.has(path) && !deleted.includes(path)) entries.push({ path, data: encoder.encode(content) });
+  }
+  return writeZip(entries.map(e => ({ ...e, path: `${workspace.name}/${e.path}` })));
+};
@@ -0,0 +1,65 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+// A local HTTP server for tests of the host providers and the API client. Each request is recorded
+// with its parsed JSON body and handed to `handle`, which answers it with `send`.
+
+export interface MockRequest {
+  method: string;
+  path: string; // With the query string
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+export interface MockServer {
+  url: string;
+  requests: MockRequest[];
+  close: () => Promise<void>;
+}
+
+export type MockHandler = (request: MockRequest, send: (status: number, body?: unknown, headers?: Record<string, string>) => void) => void;
+
+export const startMockServer = async (handle: MockHandler): Promise<MockServer> => {
+  const requests: MockRequest[] = [];
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString('utf8');
+    let body: any = text;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch (e) {
+      // Not JSON, kept as text
+    }
+    const request: MockRequest = { method: req.method ?? 'GET', path: req.url ?? '/', headers: req.headers, body };
+    requests.push(request);
+    handle(request, (status, payload, headers = {}) => {
+      const isText = typeof payload === 'string';
+      res.writeHead(status, { 'Content-Type': isText ? 'text/plain' : 'application/json', ...headers });
+      res.end(payload === undefined ? '' : isText ? payload : JSON.stringify(payload));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+};
+
+// A response given as [status, body, headers], or computed from the request
+export type MockRoute = [number, unknown?, Record<string, string>?] | ((request: MockRequest) => [number, unknown?, Record<string, string>?]);
+
+// A mock host answering from a table keyed by "METHOD /path?query"; anything else is a 404. The table is
+// built from the server's URL, for responses that link back to it (next pages, blob URLs).
+export const startMockHost = async (routes: (url: string) => Record<string, MockRoute>): Promise<MockServer> => {
+  let table: Record<string, MockRoute> = {};
+  const server = await startMockServer((request, send) => {
+    const route = table[`${request.method} ${request.path}`];
+    if (!route) return send(404, { message: 'Not Found' });
+    send(...(typeof route === 'function' ? route(request) : route));
+  });
+  table = routes(server.url);
+  return server;
+};
@@ -0,0 +1,95 @@
+import { LlmConfig, LlmProvider, LlmProviderKind, LlmRequest, LlmSettings, LlmTask } from '../types';
+import { createGeminiProvider } from './gemini';
+import { createOpenAiProvider } from './openai';
+import { createOllamaProvider, OLLAMA_CONTEXT_WINDOW } from './ollama';
+import { createProxyProvider } from './proxy';
+
+// Registry of model backends. Each task type (chat, code edits) has its own provider, model and endpoint;
+// settings live in localStorage, API keys only for the browser session like host tokens.
+
+const SETTINGS_STORAGE_KEY = 'gitgenius.models';
+const KEYS_STORAGE_KEY = 'gitgenius.modelKeys';
+
+// `embeddingModel` builds the retrieval index; backends without it fall back to keyword ranking
+export const LLM_KINDS: Record<LlmProviderKind, { name: string; endpoint: string; needsKey: boolean; modelPlaceholder: string; embeddingModel: string }> = {
+  gemini: { name: 'Google Gemini', endpoint: 'https://generativelanguage.googleapis.com', needsKey: false, modelPlaceholder: 'gemini-2.5-flash', embeddingModel: 'gemini-embedding-001' },
+  openai: { name: 'OpenAI-compatible', endpoint: 'https://api.openai.com/v1', needsKey: true, modelPlaceholder: 'gpt-4o', embeddingModel: 'text-embedding-3-small' },
+  ollama: { name: 'Ollama (local)', endpoint: 'http://localhost:11434', needsKey: false, modelPlaceholder: 'qwen2.5-coder', embeddingModel: 'nomic-embed-text' },
+};
+
+// Context windows by model name, first match wins. Unknown models get a conservative default; Ollama
+// serves small windows unless the model is configured otherwise.
+const CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/^gemini-(1\.5|2|3)/, 1_048_576],
+  [/^gpt-4\.1/, 1_047_576],
+  [/^(gpt-4o|gpt-4-turbo|o1|o3|o4)/, 128_000],
+  [/^gpt-5/, 400_000],
+  [/^claude/, 200_000],
+];
+const DEFAULT_CONTEXT_WINDOW = 32_000;
+const MAX_DEFAULT_BUDGET = 128_000; // Large windows are expensive to fill; set a budget to go beyond
+const MIN_BUDGET = 2000; // Below this the instructions alone would not fit
+
+export const contextWindowFor = (config: LlmConfig): number => {
+  if (config.provider === 'ollama') return OLLAMA_CONTEXT_WINDOW;
+  // OpenRouter-style names carry a vendor prefix, e.g. "openai/gpt-4o"
+  const model = config.model.split('/').pop()!.toLowerCase();
+  return CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+};
+
+// Tokens a request may use: the user's budget (at least MIN_BUDGET), or most of the window up to MAX_DEFAULT_BUDGET
+export const contextBudgetFor = (config: LlmConfig): number =>
+  config.contextBudget
+    ? Math.max(config.contextBudget, MIN_BUDGET)
+    : Math.min(Math.floor(contextWindowFor(config) * 0.8), MAX_DEFAULT_BUDGET);
+
+export const LLM_TASKS: Record<LlmTask, { name: string; description: string }> = {
+  chat: { name: 'Chat', description: 'The chat panel, PR reviews and questions about the code' },
+  code: { name: 'Code edits', description: '"Edit with AI" in the viewer and live app edits' },
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  chat: { provider: 'gemini', model: 'gemini-2.5-flash', endpoint: '' },
+  code: { provider: 'gemini', model: 'gemini-3-pro-preview', endpoint: '' },
+};
+
+export const loadLlmSettings = (): LlmSettings => {
+  let saved: Partial<LlmSettings> = {};
+  let keys: Partial<Record<LlmTask, string>> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+    keys = JSON.parse(sessionStorage.getItem(KEYS_STORAGE_KEY) || '{}');
+  } catch (e) {
+    // Corrupt settings, start over
+  }
+  const load = (task: LlmTask): LlmConfig => ({ ...DEFAULT_LLM_SETTINGS[task], ...saved[task], apiKey: keys[task] });
+  return { chat: load('chat'), code: load('code') };
+};
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+  const strip = ({ apiKey, ...config }: LlmConfig) => config;
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({ chat: strip(settings.chat), code: strip(settings.code) }));
+  sessionStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify({ chat: settings.chat.apiKey, code: settings.code.apiKey }));
+};
+
+export const getLlm = (settings: LlmConfig): LlmProvider => {
+  // A cleared model field falls back to the backend's usual model
+  const config = {
+    ...settings,
+    model: settings.model.trim() || LLM_KINDS[settings.provider].modelPlaceholder,
+    embeddingModel: LLM_KINDS[settings.provider].embeddingModel,
+  };
+  if (config.provider === 'openai') return createOpenAiProvider(config);
+  if (config.provider === 'ollama') return createOllamaProvider(config);
+  // Without a key of the user's own, Gemini goes through the server's shared key
+  return config.apiKey ? createGeminiProvider(config) : createProxyProvider(config);
+};
+
+// Runs a request to completion and returns its text, for callers that don't stream or use tools
+export const generateText = async (llm: LlmProvider, request: LlmRequest): Promise<string> => {
+  let text = '';
+  for await (const event of llm.stream(request)) {
+    if (event.type === 'text') text += event.text;
+  }
+  return text;
+};
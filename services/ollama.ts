@@ -0,0 +1,87 @@
+import { LlmConfig, LlmMessage, LlmProvider, LlmRequest, LlmStreamEvent } from '../types';
+import { readLines } from './http';
+
+// Requested on every call; Ollama's own default is much smaller and silently drops the start of the prompt
+export const OLLAMA_CONTEXT_WINDOW = 8_192;
+
+const toMessages = (system: string | undefined, messages: LlmMessage[]): any[] => [
+  ...(system ? [{ role: 'system', content: system }] : []),
+  ...messages.flatMap((m): any[] => {
+    if (m.role === 'user') {
+      const images = m.parts.flatMap(p => (p.type === 'image' ? [p.data] : []));
+      return [{
+        role: 'user',
+        content: m.parts.flatMap(p => (p.type === 'text' ? [p.text] : [])).join('\n\n'),
+        ...(images.length ? { images } : {}),
+      }];
+    }
+    if (m.role === 'model') {
+      return [{
+        role: 'assistant',
+        content: m.text,
+        tool_calls: m.toolCalls?.map(c => ({ function: { name: c.name, arguments: c.args } })),
+      }];
+    }
+    // Ollama matches results to calls by order and tool name
+    return m.results.map(r => ({ role: 'tool', tool_name: r.name, content: JSON.stringify(r.response) }));
+  }),
+];
+
+// A local Ollama server (native /api/chat, which streams NDJSON). Needs OLLAMA_ORIGINS to allow this page's origin.
+export const createOllamaProvider = (config: LlmConfig): LlmProvider => {
+  const endpoint = (config.endpoint || 'http://localhost:11434').replace(/\/+$/, '');
+
+  async function* stream(request: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    let response: Response;
+    try {
+      response = await fetch(`${endpoint}/api/chat`, {
+        method: 'POST',
+        signal: request.signal,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: config.model,
+          stream: true,
+          messages: toMessages(request.system, request.messages),
+          tools: request.tools?.length
+            ? request.tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } }))
+            : undefined,
+          format: request.responseSchema,
+          options: { num_ctx: OLLAMA_CONTEXT_WINDOW },
+        }),
+      });
+    } catch (e) {
+      if (request.signal?.aborted) throw e;
+      throw new Error(`Could not reach Ollama at ${endpoint}. Is it running, with OLLAMA_ORIGINS allowing this page?`);
+    }
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(`Ollama Error: ${data.error ?? response.statusText}`);
+    }
+
+    let callCount = 0;
+    for await (const line of readLines(response)) {
+      if (!line.trim()) continue;
+      const data = JSON.parse(line);
+      if (data.error) throw new Error(`Ollama Error: ${data.error}`);
+      if (data.message?.content) yield { type: 'text', text: data.message.content };
+      // Calls arrive whole, without ids
+      for (const call of data.message?.tool_calls ?? []) {
+        yield { type: 'tool_call', call: { id: `call-${callCount++}`, name: call.function.name, args: call.function.arguments ?? {} } };
+      }
+      if (data.done) yield { type: 'usage', inputTokens: data.prompt_eval_count ?? 0, outputTokens: data.eval_count ?? 0 };
+    }
+  }
+
+  const embed = async (texts: string[]): Promise<number[][]> => {
+    const response = await fetch(`${endpoint}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: config.embeddingModel, input: texts }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(`Ollama Error: ${data.error ?? response.statusText}`);
+    return data.embeddings;
+  };
+
+  return { config, stream, ...(config.embeddingModel ? { embed } : {}) };
+};
@@ -0,0 +1,109 @@
+import { LlmConfig, LlmMessage, LlmProvider, LlmRequest, LlmStreamEvent } from '../types';
+import { readLines } from './http';
+
+const toMessages = (system: string | undefined, messages: LlmMessage[]): any[] => [
+  ...(system ? [{ role: 'system', content: system }] : []),
+  ...messages.flatMap((m): any[] => {
+    if (m.role === 'user') {
+      return [{
+        role: 'user',
+        content: m.parts.map(p => (p.type === 'text'
+          ? { type: 'text', text: p.text }
+          : { type: 'image_url', image_url: { url: `data:${p.mimeType};base64,${p.data}` } })),
+      }];
+    }
+    if (m.role === 'model') {
+      return [{
+        role: 'assistant',
+        content: m.text || null,
+        tool_calls: m.toolCalls?.length
+          ? m.toolCalls.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: JSON.stringify(c.args) } }))
+          : undefined,
+      }];
+    }
+    // One message per result, answering its call by id
+    return m.results.map(r => ({ role: 'tool', tool_call_id: r.callId, content: JSON.stringify(r.response) }));
+  }),
+];
+
+// Any server speaking OpenAI's Chat Completions API: OpenAI itself, OpenRouter, vLLM, LM Studio, llama.cpp...
+export const createOpenAiProvider = (config: LlmConfig): LlmProvider => {
+  const endpoint = (config.endpoint || 'https://api.openai.com/v1').replace(/\/+$/, '');
+
+  async function* stream(request: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    // Strict JSON Schema output isn't supported everywhere, so the schema also goes into the prompt
+    const system = request.responseSchema
+      ? `${request.system ?? ''}\n\nAnswer with a single JSON object matching this JSON Schema:\n${JSON.stringify(request.responseSchema)}`
+      : request.system;
+
+    const response = await fetch(`${endpoint}/chat/completions`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        stream: true,
+        stream_options: { include_usage: true }, // A last chunk with token counts
+        messages: toMessages(system, request.messages),
+        tools: request.tools?.length
+          ? request.tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } }))
+          : undefined,
+        response_format: request.responseSchema ? { type: 'json_object' } : undefined,
+      }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(`Model API Error: ${data.error?.message ?? response.statusText}`);
+    }
+
+    // Tool calls arrive in fragments keyed by index: the id and name first, then pieces of the JSON arguments
+    const calls: { id: string; name: string; args: string }[] = [];
+    let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+    for await (const line of readLines(response)) {
+      if (!line.startsWith('data:')) continue;
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') break;
+      const data = JSON.parse(payload);
+      if (data.usage) usage = data.usage;
+      const delta = data.choices?.[0]?.delta;
+      if (!delta) continue;
+      if (delta.content) yield { type: 'text', text: delta.content };
+      for (const fragment of delta.tool_calls ?? []) {
+        const call = calls[fragment.index ?? 0] ??= { id: '', name: '', args: '' };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.args += fragment.function.arguments;
+      }
+    }
+
+    for (const [i, call] of calls.entries()) {
+      let args: Record<string, any> = {};
+      try {
+        args = call.args ? JSON.parse(call.args) : {};
+      } catch (e) {
+        // Malformed arguments reach the tool as an empty object, which reports the missing fields
+      }
+      yield { type: 'tool_call', call: { id: call.id || `call-${i}`, name: call.name, args } };
+    }
+    if (usage) yield { type: 'usage', inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 };
+  }
+
+  const embed = async (texts: string[]): Promise<number[][]> => {
+    const response = await fetch(`${endpoint}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: config.embeddingModel, input: texts }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(`Model API Error: ${data.error?.message ?? response.statusText}`);
+    return [...data.data].sort((a: any, b: any) => a.index - b.index).map((d: any) => d.embedding);
+  };
+
+  return { config, stream, ...(config.embeddingModel ? { embed } : {}) };
+};
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applySearchReplace, applyUnifiedDiff } from './patch';
+
+const lines = (...l: string[]) => l.join('\n');
+
+test('"---" and "+++" lines inside a hunk are a removed and an added line', () => {
+  const content = lines('select 1;', '-- old comment', 'select 2;');
+  const diff = lines(
+    '--- a/query.sql',
+    '+++ b/query.sql',
+    '@@ -1,3 +1,3 @@',
+    ' select 1;',
+    '--- old comment',
+    '+++ new comment',
+    ' select 2;',
+  );
+  assert.equal(applyUnifiedDiff(content, diff), lines('select 1;', '++ new comment', 'select 2;'));
+});
+
+test('file headers between hunks are skipped once the hunk before is complete', () => {
+  const content = lines('a', 'b', 'c', 'd');
+  const diff = lines('@@ -1,1 +1,1 @@', '-a', '+A', '--- a/f', '+++ b/f', '@@ -4,1 +4,1 @@', '-d', '+D');
+  assert.equal(applyUnifiedDiff(content, diff), lines('A', 'b', 'c', 'D'));
+});
+
+test('a hunk whose context differs from the file says where and how', () => {
+  const content = lines('a', 'b', 'c', 'd');
+  const diff = lines('@@ -2,2 +2,2 @@', ' b', '-x', '+y');
+  assert.throws(
+    () => applyUnifiedDiff(content, diff),
+    { message: 'Hunk 1 (@@ -2,2 +2,2 @@) does not apply: the closest match starts at line 2, but line 3 is "c" where the edit expects "x".' },
+  );
+});
+
+test('later hunks are placed by their header, shifted by the lines earlier hunks added', () => {
+  // "dup" occurs twice; the second hunk's header points at the second one in the original file
+  const content = lines('a', 'b', 'dup', 'c', 'd', 'e', 'f', 'g', 'dup', 'h');
+  const diff = lines(
+    '@@ -1,1 +1,6 @@',
+    ' a',
+    '+1',
+    '+2',
+    '+3',
+    '+4',
+    '+5',
+    '@@ -9,1 +14,1 @@',
+    '-dup',
+    '+DUP',
+  );
+  assert.equal(applyUnifiedDiff(content, diff), lines('a', '1', '2', '3', '4', '5', 'b', 'dup', 'c', 'd', 'e', 'f', 'g', 'DUP', 'h'));
+});
+
+test('a search that occurs more than once is refused', () => {
+  assert.throws(
+    () => applySearchReplace(lines('x', 'y', 'x'), [{ search: 'x', replace: 'z' }]),
+    /Edit 1 is ambiguous: its search text occurs 2 times \(lines 1, 3\)/,
+  );
+  assert.equal(applySearchReplace(lines('x', 'y', 'x'), [{ search: lines('y', 'x'), replace: 'z' }]), lines('x', 'z'));
+});
@@ -0,0 +1,159 @@
+// Applies model-written edits (search/replace blocks or unified diffs) to file contents. Failures throw
+// with a message precise enough for the model to fix its edit and retry.
+
+export interface SearchReplaceEdit {
+  search: string;
+  replace: string;
+}
+
+interface Block {
+  oldLines: string[];
+  newLines: string[];
+  hint?: number; // 0-based line where the block is expected, from a diff hunk header
+}
+
+const quote = (line: string) => JSON.stringify(line.length > 120 ? `${line.slice(0, 120)}…` : line);
+
+// Start indexes where `block` occurs in `lines`. Trailing whitespace is ignored, since models often drop it.
+const findBlock = (lines: string[], block: string[]): number[] => {
+  const matches: number[] = [];
+  for (let i = 0; i + block.length <= lines.length; i++) {
+    let j = 0;
+    while (j < block.length && lines[i + j].trimEnd() === block[j].trimEnd()) j++;
+    if (j === block.length) matches.push(i);
+  }
+  return matches;
+};
+
+// Explains why `block` isn't in the file, using the position where most of its lines line up
+const describeMismatch = (lines: string[], block: string[], hint?: number): string => {
+  let best = { start: -1, score: 0 };
+  const candidates = hint !== undefined ? [hint, ...lines.keys()] : lines.keys();
+  for (const start of candidates) {
+    if (start < 0 || start >= lines.length) continue;
+    let score = 0;
+    for (let j = 0; j < block.length && start + j < lines.length; j++) {
+      if (lines[start + j].trim() === block[j].trim()) score++;
+    }
+    if (score > best.score) best = { start, score };
+  }
+  if (best.start === -1) {
+    const first = block.find(l => l.trim()) ?? '';
+    return `none of its lines were found in the file (first line: ${quote(first)}). Read the file again to see its current content.`;
+  }
+  for (let j = 0; j < block.length; j++) {
+    const actual = lines[best.start + j];
+    if (actual === undefined) return `the closest match starts at line ${best.start + 1}, but the file ends before its line ${j + 1}.`;
+    if (actual.trimEnd() !== block[j].trimEnd()) {
+      return `the closest match starts at line ${best.start + 1}, but line ${best.start + j + 1} is ${quote(actual)} where the edit expects ${quote(block[j])}.`;
+    }
+  }
+  return `the closest match starts at line ${best.start + 1}.`;
+};
+
+// Applies blocks in order. Each block is matched against the file as left by the ones before it.
+const applyBlocks = (content: string, blocks: Block[], label: (index: number) => string): string => {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  let lines = content.split(/\r?\n/);
+  let shift = 0; // How far earlier blocks moved the lines after them
+
+  blocks.forEach((block, index) => {
+    if (block.oldLines.length === 0) {
+      // Pure insertion: only a diff header can say where
+      if (block.hint === undefined) throw new Error(`${label(index)} has nothing to search for. Include at least one existing line to anchor it.`);
+      const at = Math.min(Math.max(block.hint + shift, 0), lines.length);
+      lines = [...lines.slice(0, at), ...block.newLines, ...lines.slice(at)];
+      shift += block.newLines.length;
+      return;
+    }
+
+    const matches = findBlock(lines, block.oldLines);
+    if (matches.length === 0) {
+      throw new Error(`${label(index)} does not apply: ${describeMismatch(lines, block.oldLines, block.hint !== undefined ? block.hint + shift : undefined)}`);
+    }
+    let start: number;
+    if (block.hint !== undefined) {
+      // Diff hunks may be off by a few lines; take the occurrence closest to where the header says
+      const expected = block.hint + shift;
+      start = matches.reduce((a, b) => (Math.abs(b - expected) < Math.abs(a - expected) ? b : a));
+    } else if (matches.length > 1) {
+      throw new Error(`${label(index)} is ambiguous: its search text occurs ${matches.length} times (lines ${matches.slice(0, 5).map(m => m + 1).join(', ')}${matches.length > 5 ? ', …' : ''}). Add surrounding lines to make it unique.`);
+    } else {
+      start = matches[0];
+    }
+
+    lines = [...lines.slice(0, start), ...block.newLines, ...lines.slice(start + block.oldLines.length)];
+    shift += block.newLines.length - block.oldLines.length;
+  });
+
+  return lines.join(eol);
+};
+
+export const applySearchReplace = (content: string, edits: SearchReplaceEdit[]): string => {
+  if (edits.length === 0) throw new Error('No edits given.');
+  const blocks = edits.map((edit, index): Block => {
+    if (typeof edit?.search !== 'string' || typeof edit?.replace !== 'string') {
+      throw new Error(`Edit ${index + 1} needs both "search" and "replace" strings.`);
+    }
+    if (!edit.search.trim()) throw new Error(`Edit ${index + 1} has an empty "search". Copy the exact lines to replace from the file.`);
+    return { oldLines: edit.search.split(/\r?\n/), newLines: edit.replace === '' ? [] : edit.replace.split(/\r?\n/) };
+  });
+  return applyBlocks(content, blocks, i => `Edit ${i + 1}`);
+};
+
+// Unified diff hunks ("@@ -12,4 +12,6 @@" followed by ' ', '-' and '+' lines). File headers are ignored,
+// and headers without line numbers ("@@ @@") are located by their content alone.
+export const applyUnifiedDiff = (content: string, diff: string): string => {
+  const hunks: (Block & { header: string })[] = [];
+  let current: (Block & { header: string }) | null = null;
+  let oldLeft = 0; // Lines the current hunk's header still expects, when it gives counts
+  let newLeft = 0;
+  let counted = false;
+
+  const lines = diff.split(/\r?\n/);
+  // "--- a/x" and "+++ b/x" come as a pair; inside a hunk they are removed or added lines (e.g. a "-- comment"
+  // removed), so they only count as headers once the hunk's line counts are used up, or when it has none
+  const isFileHeader = (i: number) => {
+    if (counted && (oldLeft > 0 || newLeft > 0)) return false;
+    if (lines[i].startsWith('--- ')) return lines[i + 1]?.startsWith('+++ ') ?? false;
+    return lines[i].startsWith('+++ ') && (lines[i - 1]?.startsWith('--- ') ?? false);
+  };
+
+  lines.forEach((line, i) => {
+    if (line.startsWith('@@')) {
+      const match = line.match(/^@@ -(\d+)(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+      // A hunk replacing nothing ("-5,0") inserts after line 5
+      const hint = match ? Number(match[1]) - (match[2] === '0' ? 0 : 1) : undefined;
+      current = { header: match?.[0] ?? line.trim(), oldLines: [], newLines: [], hint };
+      hunks.push(current);
+      counted = !!match;
+      oldLeft = match ? Number(match[2] ?? 1) : 0;
+      newLeft = match ? Number(match[3] ?? 1) : 0;
+    } else if (!current || line.startsWith('\\') || ((line.startsWith('--- ') || line.startsWith('+++ ')) && isFileHeader(i))) {
+      return;
+    } else if (line.startsWith('-')) {
+      current.oldLines.push(line.slice(1));
+      oldLeft--;
+    } else if (line.startsWith('+')) {
+      current.newLines.push(line.slice(1));
+      newLeft--;
+    } else {
+      // Context lines; a blank line is usually context whose leading space got lost
+      current.oldLines.push(line.slice(1));
+      current.newLines.push(line.slice(1));
+      oldLeft--;
+      newLeft--;
+    }
+  });
+
+  // Trailing blank context usually comes from the diff text ending in a newline
+  for (const hunk of hunks) {
+    while (hunk.oldLines.length && hunk.newLines.length && hunk.oldLines[hunk.oldLines.length - 1] === '' && hunk.newLines[hunk.newLines.length - 1] === '') {
+      hunk.oldLines.pop();
+      hunk.newLines.pop();
+    }
+  }
+
+  if (hunks.length === 0) throw new Error('The diff has no hunks. Each hunk starts with a line like "@@ -12,4 +12,6 @@".');
+  return applyBlocks(content, hunks, i => `Hunk ${i + 1} (${hunks[i].header})`);
+};
@@ -0,0 +1,50 @@
+import { EmbeddingPurpose, LlmConfig, LlmProvider, LlmRequest, LlmStreamEvent } from '../types';
+import { readLines } from './http';
+
+// Path of the GitGenius server (server/index.ts). Vite forwards it in development; in production the
+// server hosts the built app itself, so it is always same-origin.
+export const PROXY_ENDPOINT = '/api/llm';
+
+// Gemini through the GitGenius server, which holds the shared API key and enforces per-client limits.
+// The tool loop still runs here: the server only relays one model turn at a time as NDJSON stream events.
+export const createProxyProvider = (config: LlmConfig): LlmProvider => {
+  async function* stream({ signal, ...request }: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    let response: Response;
+    try {
+      response = await fetch(`${PROXY_ENDPOINT}/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: config.model, request }),
+        signal,
+      });
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      throw new Error('Could not reach the GitGenius server. Start it with "npm run server", or add your own API key in Settings.');
+    }
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error ?? `Server Error: ${response.statusText}`);
+    }
+
+    for await (const line of readLines(response)) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line);
+      // Failures after the stream started arrive in-band
+      if (event.type === 'error') throw new Error(event.message);
+      yield event as LlmStreamEvent;
+    }
+  }
+
+  const embed = async (texts: string[], purpose: EmbeddingPurpose): Promise<number[][]> => {
+    const response = await fetch(`${PROXY_ENDPOINT}/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: config.embeddingModel, texts, purpose }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error ?? `Server Error: ${response.statusText}`);
+    return data.embeddings;
+  };
+
+  return { config, stream, ...(config.embeddingModel ? { embed } : {}) };
+};
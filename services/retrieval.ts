@@ -0,0 +1,268 @@
+import { FileNode, LlmProvider } from '../types';
+import { isIndexable } from './search';
+import { ApiError } from './http';
+import { loadRetrievalIndex, saveRetrievalIndex } from './cache';
+
+// Retrieval index for repository-wide questions: files are split into overlapping line chunks, ranked
+// against the user's question with BM25 and, when the chat model's backend has an embedding model, by
+// embedding similarity, fused by reciprocal rank. Chunks and vectors are stored per commit SHA.
+
+export interface Chunk {
+  path: string;
+  start: number; // 1-based, inclusive
+  end: number;
+  text: string;
+}
+
+export interface RetrievedChunk extends Chunk {
+  score: number;
+}
+
+export interface RetrievalIndex {
+  chunkCount: number;
+  embedded: boolean; // False when ranking by keywords only
+  complete: boolean; // False when files were left out (over the fetch budget, or their read failed); such an index isn't stored
+  retrieve(query: string, k?: number): Promise<RetrievedChunk[]>;
+}
+
+interface StoredIndex {
+  chunks: Chunk[];
+  embeddingModel?: string;
+  dimensions?: number;
+  vectors?: Float32Array; // chunks.length × dimensions, normalized
+}
+
+const MAX_FILES = 2000;
+const CHUNK_LINES = 40;
+const CHUNK_OVERLAP = 8;
+const MAX_EMBEDDED_CHUNKS = 1000; // Above this only keywords are used, to stay within API rate limits
+const EMBED_BATCH = 100;
+const EMBED_TEXT_CHARS = 2000;
+const FETCH_CONCURRENCY = 8;
+const MAX_CONTEXT_CHARS = 12000;
+const RRF_K = 60;
+const CANDIDATES = 20; // Taken from each ranking before fusing
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// --- Chunking ------------------------------------------------------------------
+
+const chunkFile = (path: string, content: string): Chunk[] => {
+  const lines = content.split('\n');
+  const chunks: Chunk[] = [];
+  for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP) {
+    const end = Math.min(start + CHUNK_LINES, lines.length);
+    const text = lines.slice(start, end).join('\n');
+    if (text.trim()) chunks.push({ path, start: start + 1, end, text });
+    if (end === lines.length) break;
+  }
+  return chunks;
+};
+
+// --- BM25 ----------------------------------------------------------------------
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'what', 'when', 'where', 'which', 'who', 'why', 'with', 'we', 'you',
+]);
+
+// Crude suffix stripping, so "handled" finds "handle", "handler" and "handles"
+const stem = (word: string) => (word.length > 4 ? word.replace(/(ing|ers|er|ed|es|e|s)$/, '') : word);
+
+// Identifiers count whole and by their camelCase / snake_case parts
+const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const word of text.match(/[A-Za-z_$][\w$]*/g) ?? []) {
+    const parts = word.split(/_+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/).filter(p => p.length > 1);
+    const lower = word.toLowerCase();
+    if (!STOPWORDS.has(lower)) tokens.push(stem(lower));
+    if (parts.length > 1) parts.forEach(p => tokens.push(stem(p.toLowerCase())));
+  }
+  return tokens;
+};
+
+interface Bm25 {
+  postings: Map<string, [number, number][]>; // term -> [chunk, term frequency]
+  lengths: number[];
+  averageLength: number;
+}
+
+const buildBm25 = (chunks: Chunk[]): Bm25 => {
+  const postings = new Map<string, [number, number][]>();
+  const lengths = chunks.map((chunk, i) => {
+    // The path counts too, so "auth" finds services/auth.ts
+    const tokens = [...tokenize(chunk.path), ...tokenize(chunk.text)];
+    const counts = new Map<string, number>();
+    tokens.forEach(t => counts.set(t, (counts.get(t) ?? 0) + 1));
+    counts.forEach((count, term) => {
+      const list = postings.get(term);
+      if (list) list.push([i, count]);
+      else postings.set(term, [[i, count]]);
+    });
+    return tokens.length;
+  });
+  const averageLength = lengths.reduce((a, b) => a + b, 0) / Math.max(lengths.length, 1);
+  return { postings, lengths, averageLength };
+};
+
+const scoreBm25 = (bm25: Bm25, query: string): Map<number, number> => {
+  const scores = new Map<number, number>();
+  const n = bm25.lengths.length;
+  for (const term of new Set(tokenize(query))) {
+    const list = bm25.postings.get(term);
+    if (!list) continue;
+    const idf = Math.log(1 + (n - list.length + 0.5) / (list.length + 0.5));
+    for (const [chunk, tf] of list) {
+      const norm = tf + BM25_K1 * (1 - BM25_B + (BM25_B * bm25.lengths[chunk]) / bm25.averageLength);
+      scores.set(chunk, (scores.get(chunk) ?? 0) + (idf * tf * (BM25_K1 + 1)) / norm);
+    }
+  }
+  return scores;
+};
+
+// --- Embeddings ----------------------------------------------------------------
+
+const normalize = (vector: number[]): number[] => {
+  const length = Math.hypot(...vector) || 1;
+  return vector.map(v => v / length);
+};
+
+const embedChunks = async (llm: LlmProvider, chunks: Chunk[]): Promise<{ dimensions: number; vectors: Float32Array }> => {
+  let vectors: Float32Array | null = null;
+  let dimensions = 0;
+  for (let i = 0; i < chunks.length; i += EMBED_BATCH) {
+    const batch = chunks.slice(i, i + EMBED_BATCH).map(c => `${c.path}\n${c.text.slice(0, EMBED_TEXT_CHARS)}`);
+    const embedded = await llm.embed!(batch, 'document');
+    if (embedded.length !== batch.length) throw new Error('The embedding model returned the wrong number of vectors');
+    if (!vectors) {
+      dimensions = embedded[0].length;
+      vectors = new Float32Array(chunks.length * dimensions);
+    }
+    embedded.forEach((vector, j) => vectors!.set(normalize(vector), (i + j) * dimensions));
+  }
+  return { dimensions, vectors: vectors ?? new Float32Array(0) };
+};
+
+// --- Building and querying -------------------------------------------------------
+
+export interface RetrievalSource {
+  key: string | null; // Repository and commit SHA to store the index under; null to keep it in memory only
+  files: FileNode[];
+  cached: (node: FileNode) => Promise<string | null | undefined>; // Without a request; undefined when it would need one
+  read: (node: FileNode) => Promise<string | null>; // null for images and binaries
+  fetchBudget: number; // How many files `read` may fetch
+  llm?: LlmProvider; // Embeds chunks and queries when it has an embedding model
+}
+
+// Contents of `files` in order, from what's at hand first, then fetching up to the budget. Null for
+// binaries; undefined for files left out. A rate limit stops the fetching.
+const readFiles = async ({ cached, read, fetchBudget }: RetrievalSource, indexable: FileNode[]) => {
+  const contents: (string | null | undefined)[] = [];
+  for (let i = 0; i < indexable.length; i += FETCH_CONCURRENCY) {
+    const batch = indexable.slice(i, i + FETCH_CONCURRENCY);
+    contents.push(...await Promise.all(batch.map(node => cached(node).catch(() => undefined))));
+  }
+
+  const missing = contents.flatMap((content, i) => (content === undefined ? [i] : [])).slice(0, Math.max(0, fetchBudget));
+  let rateLimited = false;
+  for (let i = 0; i < missing.length && !rateLimited; i += FETCH_CONCURRENCY) {
+    await Promise.all(missing.slice(i, i + FETCH_CONCURRENCY).map(async index => {
+      try {
+        contents[index] = await read(indexable[index]);
+      } catch (e) {
+        if (e instanceof ApiError && e.rateLimited) rateLimited = true;
+      }
+    }));
+  }
+  return contents;
+};
+
+export const buildRetrievalIndex = async (source: RetrievalSource): Promise<RetrievalIndex> => {
+  const { key, files, llm } = source;
+  let stored = key ? await loadRetrievalIndex<StoredIndex>(key) : undefined;
+  let changed = false;
+  let complete = true;
+
+  if (!stored) {
+    const indexable = files.filter(isIndexable).sort((a, b) => a.path.localeCompare(b.path)).slice(0, MAX_FILES);
+    const contents = await readFiles(source, indexable);
+    const chunks: Chunk[] = [];
+    indexable.forEach((node, i) => {
+      const content = contents[i];
+      if (content === undefined) complete = false;
+      else if (content !== null && content.length <= 1024 * 1024) chunks.push(...chunkFile(node.path, content));
+    });
+    stored = { chunks };
+    changed = true;
+  }
+
+  // Embed when the stored index has no vectors from this model yet. Failures (no embedding model
+  // pulled, rate limits) leave keyword ranking, and are retried the next time the index is built.
+  const embeddingModel = llm?.embed ? llm.config.embeddingModel : undefined;
+  if (embeddingModel && stored.embeddingModel !== embeddingModel && stored.chunks.length <= MAX_EMBEDDED_CHUNKS) {
+    try {
+      const { dimensions, vectors } = await embedChunks(llm!, stored.chunks);
+      stored = { chunks: stored.chunks, embeddingModel, dimensions, vectors };
+      changed = true;
+    } catch (e) {
+      console.warn('Embedding the repository failed, using keyword search', e);
+    }
+  }
+
+  if (key && changed && complete) {
+    const size = stored.chunks.reduce((sum, c) => sum + c.text.length + c.path.length, 0) + (stored.vectors?.byteLength ?? 0);
+    saveRetrievalIndex(key, stored, size);
+  }
+
+  const { chunks, vectors, dimensions = 0 } = stored;
+  const useVectors = !!vectors && dimensions > 0 && stored.embeddingModel === embeddingModel;
+  const bm25 = buildBm25(chunks);
+
+  const rankByVector = async (query: string): Promise<number[]> => {
+    const [embedded] = await llm!.embed!([query], 'query');
+    const q = normalize(embedded);
+    const scores = chunks.map((_, i) => {
+      let dot = 0;
+      for (let d = 0; d < dimensions; d++) dot += q[d] * vectors![i * dimensions + d];
+      return dot;
+    });
+    return scores.map((score, i) => [score, i]).sort((a, b) => b[0] - a[0]).slice(0, CANDIDATES).map(([, i]) => i);
+  };
+
+  return {
+    chunkCount: chunks.length,
+    embedded: useVectors,
+    complete,
+
+    retrieve: async (query, k = 6) => {
+      const keyword = [...scoreBm25(bm25, query)].sort((a, b) => b[1] - a[1]).slice(0, CANDIDATES).map(([i]) => i);
+      let semantic: number[] = [];
+      if (useVectors) {
+        try {
+          semantic = await rankByVector(query);
+        } catch (e) {
+          // Keyword ranking alone
+        }
+      }
+
+      // Reciprocal rank fusion: agreement between both rankings beats a high rank in one
+      const fused = new Map<number, number>();
+      [keyword, semantic].forEach(ranking => ranking.forEach((chunk, rank) => {
+        fused.set(chunk, (fused.get(chunk) ?? 0) + 1 / (RRF_K + rank + 1));
+      }));
+
+      // Best first, skipping chunks that overlap one already taken, within the context budget
+      const picked: RetrievedChunk[] = [];
+      let size = 0;
+      for (const [i, score] of [...fused].sort((a, b) => b[1] - a[1])) {
+        if (picked.length >= k) break;
+        const chunk = chunks[i];
+        if (picked.some(p => p.path === chunk.path && p.start <= chunk.end && chunk.start <= p.end)) continue;
+        if (size + chunk.text.length > MAX_CONTEXT_CHARS) continue;
+        picked.push({ ...chunk, score });
+        size += chunk.text.length;
+      }
+      return picked;
+    },
+  };
+};
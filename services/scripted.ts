@@ -0,0 +1,26 @@
+import { LlmConfig, LlmProvider, LlmRequest, LlmStreamEvent } from '../types';
+
+// A model that replays fixed turns, for driving the agent loop deterministically in tests. Each call to
+// `stream` plays the next turn: its events, or the events a function of the request returns. Requests
+// are recorded with a copy of the conversation as it was sent, since the loop keeps appending to it.
+export type ScriptedTurn = LlmStreamEvent[] | ((request: LlmRequest) => LlmStreamEvent[]);
+
+export interface ScriptedProvider extends LlmProvider {
+  requests: LlmRequest[];
+}
+
+export const createScriptedProvider = (
+  turns: ScriptedTurn[],
+  config: LlmConfig = { provider: 'openai', model: 'scripted', endpoint: '' }
+): ScriptedProvider => {
+  const requests: LlmRequest[] = [];
+
+  async function* stream(request: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    requests.push({ ...request, messages: [...request.messages] });
+    const turn = turns[requests.length - 1];
+    if (!turn) throw new Error(`The script has no turn ${requests.length}`);
+    yield* typeof turn === 'function' ? turn(request) : turn;
+  }
+
+  return { config, stream, requests };
+};
@@ -0,0 +1,195 @@
+import { FileNode } from '../types';
+import { ApiError } from './http';
+
+// Client-side code index behind the agent's search_code and find_symbol tools. File contents are
+// fetched lazily on the first search that needs them and kept by blob SHA, so they never go stale;
+// unsaved edits always win over the repository.
+
+export interface CodeIndexSource {
+  // Files under `scope` ('' for the whole repo), plus folders that were left out because they aren't loaded
+  listFiles(scope: string): Promise<{ files: FileNode[]; unloaded: string[] }>;
+  edited(path: string): string | undefined;
+  fetch(node: FileNode): Promise<string | null>; // null for images and binaries
+}
+
+export interface SearchOptions {
+  scope?: string; // Folder (or file) path to search in
+  include?: string; // Glob on the path, e.g. "*.tsx" or "src/**/*.test.ts"
+}
+
+export interface CodeMatch {
+  path: string;
+  line: number;
+  text: string;
+}
+
+export interface SymbolDefinition extends CodeMatch {
+  kind: string;
+}
+
+export interface IndexResult<T> {
+  matches: T[];
+  searched: number;
+  limited: boolean; // Stopped at the match limit
+  skipped: number; // Files over MAX_INDEXED_FILES
+  failed: number; // Files whose read failed, or that weren't reached after a rate limit
+  rateLimited: boolean; // The host's rate limit stopped the search early
+  unloaded: string[];
+}
+
+export interface CodeIndex {
+  search(pattern: RegExp, options?: SearchOptions, limit?: number): Promise<IndexResult<CodeMatch>>;
+  findSymbol(name: string, options?: SearchOptions, limit?: number): Promise<IndexResult<SymbolDefinition>>;
+}
+
+const MAX_INDEXED_FILES = 3000;
+const MAX_FILE_CHARS = 1024 * 1024;
+const FETCH_CONCURRENCY = 8;
+const MAX_LINE_CHARS = 200;
+
+// Never text, or never worth searching
+const SKIPPED_EXTENSIONS = new Set([
+  'png', 'jpg', 'jpeg', 'gif', 'webp', 'ico', 'bmp', 'avif', 'tiff', 'psd',
+  'woff', 'woff2', 'ttf', 'otf', 'eot',
+  'zip', 'gz', 'tgz', 'bz2', 'xz', '7z', 'rar', 'jar', 'war',
+  'pdf', 'mp3', 'mp4', 'mov', 'avi', 'webm', 'wav', 'ogg', 'flac',
+  'exe', 'dll', 'so', 'dylib', 'bin', 'o', 'a', 'class', 'pyc', 'wasm',
+]);
+const SKIPPED_NAMES = new Set(['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'Cargo.lock', 'poetry.lock', 'composer.lock']);
+
+const SYMBOL_EXTENSIONS = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/;
+
+export const isIndexable = (node: FileNode) => {
+  if (node.type !== 'blob' || node.mode === '120000') return false;
+  if (SKIPPED_NAMES.has(node.name) || /\.min\.(js|css)$/.test(node.name)) return false;
+  const ext = node.name.includes('.') ? node.name.split('.').pop()!.toLowerCase() : '';
+  return !SKIPPED_EXTENSIONS.has(ext);
+};
+
+// "*" stays within a folder, "**" crosses folders; patterns without a slash match the file name anywhere
+export const globToRegExp = (glob: string): RegExp => {
+  const source = glob.split(/(\*\*\/?|\*|\?)/).map(part => {
+    if (part === '**/') return '(?:.*/)?';
+    if (part === '**') return '.*';
+    if (part === '*') return '[^/]*';
+    if (part === '?') return '[^/]';
+    return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }).join('');
+  return new RegExp(glob.includes('/') ? `^${source}$` : `(?:^|/)${source}$`);
+};
+
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Line-level patterns for TS/JS definitions, most specific first. `{name}` stands for the symbol name.
+const DEFINITION_PATTERNS: { kind: string; pattern: string }[] = [
+  { kind: 'function', pattern: '^\\s*(?:export\\s+)?(?:default\\s+)?(?:declare\\s+)?(?:async\\s+)?function\\s*\\*?\\s*{name}\\b' },
+  { kind: 'class', pattern: '^\\s*(?:export\\s+)?(?:default\\s+)?(?:declare\\s+)?(?:abstract\\s+)?class\\s+{name}\\b' },
+  { kind: 'interface', pattern: '^\\s*(?:export\\s+)?(?:declare\\s+)?interface\\s+{name}\\b' },
+  { kind: 'type', pattern: '^\\s*(?:export\\s+)?(?:declare\\s+)?type\\s+{name}\\b\\s*(?:<|=)' },
+  { kind: 'enum', pattern: '^\\s*(?:export\\s+)?(?:declare\\s+)?(?:const\\s+)?enum\\s+{name}\\b' },
+  { kind: 'namespace', pattern: '^\\s*(?:export\\s+)?(?:declare\\s+)?(?:namespace|module)\\s+{name}\\b' },
+  { kind: 'variable', pattern: '^\\s*(?:export\\s+)?(?:declare\\s+)?(?:const|let|var)\\s+{name}\\b' },
+  // Class members and object methods: `name(args) {`, `async name<T>(args): R {`, `name = (args) =>`, `name: function`
+  { kind: 'method', pattern: '^\\s*(?:(?:public|private|protected|static|readonly|override|abstract|async|get|set)\\s+)*#?{name}\\s*(?:<[^>]*>)?\\s*\\([^;]*\\)\\s*(?::[^=;]+)?\\{\\s*$' },
+  { kind: 'property', pattern: '^\\s*(?:(?:public|private|protected|static|readonly|override)\\s+)*#?{name}\\s*(?::[^=]+)?=\\s*(?:async\\s*)?(?:\\([^)]*\\)|\\w+)\\s*(?::[^=]+)?=>' },
+  { kind: 'property', pattern: '^\\s*{name}\\s*:\\s*(?:async\\s+)?function\\b' },
+  // Re-exports and imports with a rename aren't definitions, but `export { name }` says where it's exposed
+  { kind: 'export', pattern: '^\\s*export\\s*\\{[^}]*\\b{name}\\b[^}]*\\}\\s*(?:from\\b|;|$)' },
+];
+
+export const createCodeIndex = (source: CodeIndexSource): CodeIndex => {
+  const blobs = new Map<string, string | null>(); // Blob SHA -> content, null for binaries and huge files
+
+  // Throws when the read fails; only successful reads are kept, so the file is tried again next time
+  const contentOf = async (node: FileNode): Promise<string | null> => {
+    const edited = source.edited(node.path);
+    if (edited !== undefined) return edited;
+    if (node.sha && blobs.has(node.sha)) return blobs.get(node.sha)!;
+    let content = await source.fetch(node);
+    if (content !== null && content.length > MAX_FILE_CHARS) content = null;
+    if (node.sha) blobs.set(node.sha, content);
+    return content;
+  };
+
+  // Runs `visit` over every indexable file in scope, in path order, until it reports the limit was reached
+  const scan = async <T>(
+    options: SearchOptions,
+    filter: (node: FileNode) => boolean,
+    visit: (path: string, lines: string[], matches: T[]) => void,
+    limit: number
+  ): Promise<IndexResult<T>> => {
+    const scope = (options.scope ?? '').replace(/^\/+|\/+$/g, '');
+    const include = options.include ? globToRegExp(options.include) : null;
+    const listing = await source.listFiles(scope);
+    const candidates = listing.files
+      .filter(node => isIndexable(node) && filter(node) && (!include || include.test(node.path)))
+      .sort((a, b) => a.path.localeCompare(b.path));
+    const files = candidates.slice(0, MAX_INDEXED_FILES);
+
+    const matches: T[] = [];
+    let searched = 0;
+    let failed = 0;
+    let rateLimited = false;
+    // Fetched in parallel batches, visited in order so results are stable. A rate limit ends the search,
+    // rather than spending the rest of the quota on requests that fail.
+    let i = 0;
+    for (; i < files.length && matches.length < limit && !rateLimited; i += FETCH_CONCURRENCY) {
+      const batch = files.slice(i, i + FETCH_CONCURRENCY);
+      const contents = await Promise.allSettled(batch.map(contentOf));
+      batch.forEach((node, j) => {
+        const result = contents[j];
+        if (result.status === 'rejected') {
+          failed++;
+          if (result.reason instanceof ApiError && result.reason.rateLimited) rateLimited = true;
+          return;
+        }
+        if (result.value === null || matches.length >= limit) return;
+        searched++;
+        visit(node.path, result.value.split('\n'), matches);
+      });
+    }
+    if (rateLimited) failed += files.length - Math.min(i, files.length);
+
+    return {
+      matches: matches.slice(0, limit),
+      searched,
+      limited: matches.length >= limit,
+      skipped: candidates.length - files.length,
+      failed,
+      rateLimited,
+      unloaded: listing.unloaded,
+    };
+  };
+
+  const clip = (line: string) => {
+    const text = line.trim();
+    return text.length > MAX_LINE_CHARS ? `${text.slice(0, MAX_LINE_CHARS)}…` : text;
+  };
+
+  return {
+    search: (regex, options = {}, limit = 100) => {
+      return scan<CodeMatch>(options, () => true, (path, lines, matches) => {
+        lines.forEach((line, i) => {
+          regex.lastIndex = 0;
+          if (matches.length < limit && regex.test(line)) matches.push({ path, line: i + 1, text: clip(line) });
+        });
+      }, limit);
+    },
+
+    findSymbol: (name, options = {}, limit = 50) => {
+      const patterns = DEFINITION_PATTERNS.map(({ kind, pattern }) => ({
+        kind,
+        regex: new RegExp(pattern.split('{name}').join(escapeRegExp(name))),
+      }));
+      return scan<SymbolDefinition>(options, node => SYMBOL_EXTENSIONS.test(node.path), (path, lines, matches) => {
+        // Cheap check before running every pattern on every line
+        if (!lines.some(line => line.includes(name))) return;
+        lines.forEach((line, i) => {
+          if (matches.length >= limit || !line.includes(name)) return;
+          const found = patterns.find(p => p.regex.test(line));
+          if (found) matches.push({ path, line: i + 1, text: clip(line), kind: found.kind });
+        });
+      }, limit);
+    },
+  };
+};
@@ -0,0 +1,133 @@
+import { FileNode, GitRef, LineRange } from '../types';
+import { base64ToBytes } from './files';
+
+// Host-independent helpers shared by the repository providers.
+
+// Folders (and submodules) first, then files
+export const sortNodes = (nodes: FileNode[]) => {
+  const rank = (node: FileNode) => (node.type === 'blob' ? 1 : 0);
+  nodes.sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name));
+  nodes.forEach(node => {
+    if (node.children) sortNodes(node.children);
+  });
+  return nodes;
+};
+
+// Nests a flat, recursive listing (full paths) into a tree
+export const buildTree = (flat: FileNode[]): FileNode[] => {
+  const tree: FileNode[] = [];
+  const map: Record<string, FileNode> = {};
+  flat.forEach(node => {
+    map[node.path] = node;
+  });
+
+  flat.forEach(node => {
+    const parentPath = node.path.split('/').slice(0, -1).join('/');
+    if (!parentPath) {
+      tree.push(node);
+    } else if (map[parentPath] && map[parentPath].children) {
+      map[parentPath].children!.push(node);
+    }
+  });
+
+  return sortNodes(tree);
+};
+
+// Split "<ref>/<path>" using the longest known branch/tag name that prefixes it.
+// Unknown refs (e.g. commit SHAs) fall back to the first path segment.
+export const resolveRefPath = (refPath: string, refs: GitRef[]): { ref: string; path: string } => {
+  let best: string | null = null;
+  for (const r of refs) {
+    if ((refPath === r.name || refPath.startsWith(`${r.name}/`)) && (!best || r.name.length > best.length)) {
+      best = r.name;
+    }
+  }
+
+  const ref = best ?? refPath.split('/')[0];
+  return { ref, path: refPath.slice(ref.length).replace(/^\//, '') };
+};
+
+// #L10, #L10-L40 (GitHub, Gitea) or #L10-40 (GitLab)
+export const parseLineHash = (hash: string): LineRange | undefined => {
+  const match = hash.match(/^#L(\d+)(?:-L?(\d+))?$/);
+  if (!match) return undefined;
+  const start = parseInt(match[1], 10);
+  const end = match[2] ? parseInt(match[2], 10) : start;
+  return { start: Math.min(start, end), end: Math.max(start, end) };
+};
+
+export const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+// Decodes base64 file content from an API as UTF-8
+export const decodeBase64Utf8 = (content: string): string => new TextDecoder('utf-8').decode(base64ToBytes(content));
+
+// Helper to encode string to Base64 (UTF-8 safe)
+export const utf8_to_b64 = (str: string) => {
+  return btoa(unescape(encodeURIComponent(str)));
+};
+
+// The object id git gives `content`: sha1("blob <size>\0<content>"). Lets providers whose
+// commit APIs don't report blob SHAs still hand back the new SHA of every pushed file.
+export const gitBlobSha = async (content: string): Promise<string> => {
+  const body = new TextEncoder().encode(content);
+  const header = new TextEncoder().encode(`blob ${body.length}\0`);
+  const data = new Uint8Array(header.length + body.length);
+  data.set(header);
+  data.set(body, header.length);
+  const digest = await crypto.subtle.digest('SHA-1', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const SYMLINK_MODE = '120000';
+
+export const isSymlink = (node: FileNode) => node.type === 'blob' && node.mode === SYMLINK_MODE;
+
+// A symlink's blob holds its target, relative to the link's folder. Returns the repository path it
+// points at, or null for absolute targets and targets that climb out of the repository.
+export const resolveSymlinkTarget = (linkPath: string, target: string): string | null => {
+  if (target.startsWith('/')) return null;
+  const parts = linkPath.split('/').slice(0, -1);
+  for (const part of target.trim().split('/')) {
+    if (part === '..') {
+      if (parts.length === 0) return null;
+      parts.pop();
+    } else if (part && part !== '.') {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+};
+
+// Submodule URLs by path, from the [submodule "name"] sections of a .gitmodules file
+export const parseGitmodules = (text: string): Record<string, string> => {
+  const modules: Record<string, string> = {};
+  for (const section of text.split(/^\s*\[submodule\b[^\]]*\]/m).slice(1)) {
+    const path = section.match(/^\s*path\s*=\s*(.+?)\s*$/m)?.[1];
+    const url = section.match(/^\s*url\s*=\s*(.+?)\s*$/m)?.[1];
+    if (path && url) modules[path.replace(/\/+$/, '')] = url;
+  }
+  return modules;
+};
+
+// Turns a submodule URL into the web URL of its repository. Handles https, scp-style SSH
+// (git@host:owner/repo.git), ssh:// and git:// URLs, and URLs relative to the superproject.
+export const submoduleWebUrl = (url: string, superprojectUrl: string): string | null => {
+  let webUrl: string;
+  const scp = url.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+  if (url.startsWith('./') || url.startsWith('../')) {
+    webUrl = new URL(url, `${superprojectUrl.replace(/\/+$/, '')}/`).href;
+  } else if (scp) {
+    webUrl = `https://${scp[1]}/${scp[2]}`;
+  } else {
+    try {
+      const parsed = new URL(url);
+      // SSH ports don't carry over to the web UI
+      webUrl = parsed.protocol === 'https:' || parsed.protocol === 'http:'
+        ? `${parsed.origin}${parsed.pathname}`
+        : `https://${parsed.hostname}${parsed.pathname}`;
+    } catch (e) {
+      return null;
+    }
+  }
+  return webUrl.replace(/\/+$/, '').replace(/\.git$/, '');
+};
@@ -1,10 +1,12 @@
 export interface FileNode {
   path: string;
   name: string;
-  type: 'blob' | 'tree';
+  type: 'blob' | 'tree' | 'commit'; // 'commit' is a submodule; its `sha` is the pinned commit
   sha?: string;
+  mode?: string; // Git file mode, e.g. 100644, 100755 or 120000 (symlink)
   url?: string;
   children?: FileNode[];
+  unloaded?: boolean; // Folder whose children haven't been fetched yet (truncated trees)
   isOpen?: boolean; // For UI state
 }
 
@@ -15,6 +17,32 @@ export interface RepoDetails {
   defaultBranch: string;
   stars: number;
   homepage?: string;
+  isPrivate?: boolean;
+}
+
+export type GitRefType = 'branch' | 'tag' | 'commit';
+
+export interface GitRef {
+  name: string;
+  type: GitRefType;
+  sha?: string;
+}
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+// Result of parsing a pasted repository URL. `refPath` is the raw
+// "<ref>/<path>" tail of tree/blob URLs; it is split once the repo's refs are known,
+// because branch names may themselves contain slashes.
+export interface RepoLocation {
+  owner: string;
+  repo: string;
+  kind: 'repo' | 'tree' | 'blob' | 'commit' | 'pull';
+  refPath?: string;
+  lines?: LineRange;
+  pullNumber?: number; // Set for pull/merge request links
 }
 
 export interface ChatMessage {
@@ -24,11 +52,337 @@ export interface ChatMessage {
   timestamp: number;
   isStreaming?: boolean;
   image?: string; // Data URL
+  trace?: AgentTrace; // What the agent did while writing this answer
+  plan?: AgentPlan; // A checklist proposed in planning mode, which the user edits and then runs
+}
+
+// One step of a plan. `touched` lists the files whose changes the user accepted while it ran.
+export interface PlanStep {
+  id: string;
+  title: string;
+  files: string[];
+  status: 'pending' | 'running' | 'done' | 'failed' | 'skipped';
+  touched: string[];
 }
 
-export interface FileContent {
+export interface AgentPlan {
+  goal: string; // The request it was made for
+  steps: PlanStep[];
+  status: 'draft' | 'running' | 'done' | 'stopped';
+}
+
+// One step of an agent run. Times are epoch ms; sizes are characters of JSON sent to or from the model.
+export type AgentTraceEntry =
+  | { type: 'retrieval'; startedAt: number; durationMs: number; chunks: number; chars: number; error?: string }
+  | { type: 'model'; round: number; startedAt: number; durationMs: number; textChars: number; toolCalls: number; inputTokens?: number; outputTokens?: number; error?: string }
+  | { type: 'tool'; round: number; name: string; args: Record<string, unknown>; startedAt: number; durationMs: number; resultChars: number; error?: string }
+  | { type: 'end'; at: number; outcome: 'done' | 'stopped' | 'limit' | 'error'; error?: string };
+
+export interface AgentTrace {
+  provider: string;
+  model: string;
+  startedAt: number;
+  entries: AgentTraceEntry[];
+}
+
+export type FileKind = 'text' | 'image' | 'binary' | 'lfs';
+
+export interface FileData {
+  kind: FileKind;
+  content: string; // Text content; '' for images and binaries
+  size: number; // Bytes
+  dataUrl?: string; // Images
+  hexPreview?: string; // Binaries: hex dump of the first bytes
+  lfs?: { oid: string; size: number }; // Git LFS pointer details
+}
+
+export interface FileContent extends Partial<Omit<FileData, 'content'>> {
   path: string;
   content: string;
   loading: boolean;
   error?: string;
-}
\ No newline at end of file
+}
+
+// A single entry of a multi-file commit. `content: null` deletes the file.
+export interface FileChange {
+  path: string;
+  content: string | null;
+  mode?: string;
+}
+
+export interface PushAccess {
+  login: string;
+  canPush: boolean;
+  fork?: { owner: string; name: string }; // The user's existing fork, if any
+}
+
+export interface PushRequest {
+  mode: 'direct' | 'pull-request';
+  commitMessage: string;
+  branch: string; // Target branch; created from `baseBranch` in pull-request mode
+  baseBranch?: string;
+  prTitle?: string;
+  prBody?: string;
+  useFork?: boolean; // Push the branch to the user's fork and open the PR from there
+  resolved?: {
+    headSha: string; // The remote commit the conflicts were resolved against
+    files: Record<string, string | null>; // Merged content per conflicting path (null deletes)
+  };
+}
+
+// A file changed both locally and on the remote since we loaded it.
+// `null` content means the file was deleted on that side.
+export interface MergeConflict {
+  path: string;
+  base: string;
+  ours: string | null;
+  theirs: string | null;
+}
+
+export type PushResult =
+  | { status: 'pushed'; commitUrl: string; pullRequestUrl?: string }
+  | { status: 'conflicts'; headSha: string; conflicts: MergeConflict[] };
+
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  resetAt: number; // Epoch ms
+  resource: string;
+  retryingAt?: number; // Set while a rate-limited request is waiting to be retried
+}
+
+export type HostKind = 'github' | 'gitlab' | 'gitea';
+
+// A git host repositories can be opened from. `webUrl` is what users paste links from
+// (it may include a path prefix for hosts served under a sub-path); `apiUrl` is the REST root.
+export interface HostConfig {
+  id: string; // Host + path prefix of `webUrl`, e.g. "gitlab.example.com"
+  kind: HostKind;
+  label: string;
+  webUrl: string;
+  apiUrl: string;
+  builtIn?: boolean;
+}
+
+export interface CommitResult {
+  sha: string;
+  url: string;
+  files: Record<string, { sha: string; url: string }>; // New blob per added/updated path
+}
+
+export interface CommitInfo {
+  sha: string;
+  message: string; // Full message; the first line is the summary
+  author: string;
+  date: string; // ISO 8601
+  url: string; // Commit page on the host
+  avatarUrl?: string;
+}
+
+// Lines `startLine`..`endLine` (1-based, inclusive) were last changed in `commit`
+export interface BlameRange {
+  startLine: number;
+  endLine: number;
+  commit: CommitInfo;
+}
+
+export interface ChangedFile {
+  path: string;
+  previousPath?: string; // Set for renames
+  status: 'added' | 'modified' | 'removed' | 'renamed';
+  additions: number;
+  deletions: number;
+}
+
+// The changes `head` has on top of `base`, taken against their merge base where the host computes one
+export interface RefComparison {
+  base: string;
+  head: string;
+  mergeBase: string; // Commit the diff's old side is read from
+  commits: number; // Commits on head that aren't on base
+  files: ChangedFile[];
+  truncated?: boolean; // The host capped the file list
+  url: string; // Compare page on the host
+}
+
+// One file of a comparison, with both sides loaded (null = the file doesn't exist on that side)
+export interface FileDiff {
+  file: ChangedFile;
+  base: string;
+  head: string;
+  oldContent: string | null;
+  newContent: string | null;
+  loading?: boolean;
+  error?: string;
+}
+
+export interface PullRequestDraft {
+  title: string;
+  body: string;
+  branch: string; // Source branch
+  base: string; // Target branch
+  fork?: { owner: string; name: string }; // Set when `branch` lives in the user's fork
+}
+
+// An existing pull request (a merge request on GitLab)
+export interface PullRequestInfo {
+  number: number;
+  title: string;
+  body: string;
+  author: string;
+  state: 'open' | 'closed' | 'merged';
+  url: string;
+  base: string; // Target branch
+  head: string; // Source branch, possibly in a fork
+  headSha: string; // Head commit, readable from the target repository even for forks
+  mergeBase?: string; // Where the host reports it; lets two-dot comparisons show only the PR's own changes
+  isFork: boolean;
+}
+
+// A line comment in a review draft. The anchor is a diff line: both numbers for unchanged lines,
+// `newLine` only for added lines and `oldLine` only for removed ones.
+export interface ReviewComment {
+  id: string;
+  path: string;
+  previousPath?: string;
+  oldLine?: number;
+  newLine?: number;
+  body: string;
+}
+
+export type ReviewEvent = 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES';
+
+export interface ReviewDraft {
+  body: string;
+  event: ReviewEvent;
+  comments: ReviewComment[];
+}
+
+// A file change the AI wants to make, held until the user reviews it
+export interface ProposedEdit {
+  id: string;
+  path: string;
+  original: string | null; // null when the file is new
+  proposed: string;
+  description: string;
+}
+
+// The user's review of a ProposedEdit. `content` is what the file holds afterwards (null = still doesn't exist).
+export interface EditDecision {
+  status: 'accepted' | 'partial' | 'rejected';
+  content: string | null;
+  acceptedHunks: number;
+  totalHunks: number;
+  feedback?: string;
+}
+
+// A git host implementation (GitHub, GitLab, Gitea). Repositories are addressed by
+// owner + name; on GitLab the owner is the full namespace path, e.g. "group/subgroup".
+export interface RepoProvider {
+  readonly host: HostConfig;
+  setToken(token: string | null): void;
+  subscribeToRateLimit(listener: (info: RateLimitInfo | null) => void): () => void;
+
+  // `parts` are the URL path segments below `host.webUrl`
+  parseLocation(parts: string[], hash: string): RepoLocation | null;
+  fetchRepoDetails(owner: string, repo: string): Promise<RepoDetails>;
+  fetchRefs(owner: string, repo: string): Promise<GitRef[]>;
+  fetchRepoTree(owner: string, repo: string, ref: string): Promise<{ nodes: FileNode[]; truncated: boolean }>;
+  fetchDirectory(owner: string, repo: string, ref: string, dir: FileNode): Promise<FileNode[]>;
+  fetchFileContent(node: FileNode): Promise<FileData>;
+  fetchFileAtRef(owner: string, repo: string, path: string, ref: string): Promise<{ sha: string; content: string } | null>;
+  fetchBlobText(owner: string, repo: string, sha: string): Promise<string>;
+
+  fetchBranchHead(owner: string, repo: string, branch: string): Promise<string>;
+  fetchFileHistory(owner: string, repo: string, ref: string, path: string, page: number): Promise<{ commits: CommitInfo[]; hasMore: boolean }>; // Newest first, pages start at 1
+  compareRefs(owner: string, repo: string, base: string, head: string): Promise<RefComparison>;
+  fetchBlame?(owner: string, repo: string, ref: string, path: string): Promise<BlameRange[]>; // Absent where the host has no blame API
+  commitToBranch(owner: string, repo: string, changes: FileChange[], message: string, branch: string, onProgress?: (status: string) => void, headSha?: string): Promise<CommitResult>;
+  commitToNewBranch(owner: string, repo: string, changes: FileChange[], message: string, branch: string, baseSha: string, onProgress?: (status: string) => void): Promise<CommitResult>;
+  fetchPushAccess(owner: string, repo: string): Promise<PushAccess>;
+  forkRepo(owner: string, repo: string): Promise<{ owner: string; name: string }>;
+  createPullRequest(owner: string, repo: string, pr: PullRequestDraft): Promise<{ number: number; url: string }>;
+  fetchPullRequest(owner: string, repo: string, number: number): Promise<PullRequestInfo>;
+  submitReview(owner: string, repo: string, pr: PullRequestInfo, review: ReviewDraft): Promise<{ url: string }>;
+
+  // Browser-facing URLs
+  rawFileUrl(owner: string, repo: string, ref: string, path: string): string;
+  lfsFileUrl(owner: string, repo: string, ref: string, path: string): string;
+  sandboxPath(owner: string, repo: string, ref: string): string | null; // "github/o/r/tree/<ref>" for StackBlitz/CodeSandbox, if they can import from this host
+}
+
+export type LlmProviderKind = 'gemini' | 'openai' | 'ollama';
+
+// What a model is used for: the chat panel, or edits requested from the code viewer / live app
+export type LlmTask = 'chat' | 'code';
+
+export interface LlmConfig {
+  provider: LlmProviderKind;
+  model: string;
+  endpoint: string; // API root; empty means the provider's default
+  apiKey?: string; // Kept for the browser session only
+  embeddingModel?: string; // For the retrieval index; the backend's default, not a setting
+  contextBudget?: number; // Most tokens a request may use; unset means the default for the model
+}
+
+export type LlmSettings = Record<LlmTask, LlmConfig>;
+
+// What a chat request sends at the start of a run, in estimated tokens
+export interface ContextUsage {
+  budget: number;
+  window: number;
+  instructions: number; // System prompt with the file list
+  summary: number;
+  history: number; // Earlier messages sent verbatim
+  prompt: number; // The question, with the open file and related code
+  summarizedMessages: number;
+  omittedMessages: number;
+  droppedImages: number;
+  omittedFiles: number; // Paths left out of the file list
+}
+
+export type LlmPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string }; // Base64, without the data: prefix
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  signature?: string; // Opaque provider data that has to be echoed back with the call (Gemini thought signatures)
+}
+
+// Conversation turns in a provider-neutral shape. Tool results answer the calls of the model turn before them.
+export type LlmMessage =
+  | { role: 'user'; parts: LlmPart[] }
+  | { role: 'model'; text: string; toolCalls?: LlmToolCall[] }
+  | { role: 'tool'; results: { callId: string; name: string; response: Record<string, unknown> }[] };
+
+export interface LlmTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema of the arguments object
+}
+
+export interface LlmRequest {
+  system?: string;
+  messages: LlmMessage[];
+  tools?: LlmTool[];
+  responseSchema?: Record<string, unknown>; // Asks for a JSON answer matching this JSON Schema
+  signal?: AbortSignal; // Cancels the request; the stream then throws
+}
+
+export type LlmStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; call: LlmToolCall }
+  | { type: 'usage'; inputTokens: number; outputTokens: number }; // Sent last, by backends that report token counts
+
+// Documents are embedded for the index, queries to search it; some models embed them differently
+export type EmbeddingPurpose = 'document' | 'query';
+
+// A model backend (Gemini, an OpenAI-compatible server, Ollama) bound to one model and endpoint
+export interface LlmProvider {
+  readonly config: LlmConfig;
+  stream(request: LlmRequest): AsyncIterable<LlmStreamEvent>;
+  embed?(texts: string[], purpose: EmbeddingPurpose): Promise<number[][]>; // One vector per text; only with an embedding model
+}
@@ -5,9 +5,11 @@ export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, (process as any).cwd(), '');
   return {
     plugins: [react()],
-    define: {
-      // This allows process.env.API_KEY to work in the browser
-      'process.env.API_KEY': JSON.stringify(env.API_KEY),
+    server: {
+      // Model requests go to the GitGenius server (npm run server), which keeps the API key out of the bundle
+      proxy: {
+        '/api': `http://localhost:${env.PORT || 8787}`,
+      },
     },
   };
-});
\ No newline at end of file
+});